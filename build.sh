@@ -5,7 +5,7 @@ set -e
 
 PG_MAJOR_VERSION=""
 PUSH_FLAG=""
-PLATFORM_ARG=""
+PLATFORM=""
 
 # Parse arguments
 while [[ $# -gt 0 ]]; do
@@ -20,7 +20,7 @@ while [[ $# -gt 0 ]]; do
             echo "Error: --platform requires a value" >&2
             exit 1
         fi
-        PLATFORM_ARG="--platform $2"
+        PLATFORM="$2"
         shift # past argument
         shift # past value
         ;;
@@ -47,8 +47,8 @@ fi
 if [ "$PUSH_FLAG" == "--push" ]; then
     echo "Push flag enabled."
 fi
-if [ -n "$PLATFORM_ARG" ]; then
-    echo "Platform specified: $PLATFORM_ARG"
+if [ -n "$PLATFORM" ]; then
+    echo "Platform specified: $PLATFORM"
 else
     echo "Platform not specified, building for current architecture."
 fi
@@ -56,13 +56,15 @@ fi
 
 # Source the variables by running the TypeScript script
 echo "Running src/getVars.ts to determine image tags..."
-# Call script using commander option -p
-GET_VARS_OUTPUT=$(bun run src/getVars.ts -p "$PG_MAJOR_VERSION")
-GET_VARS_EXIT_CODE=$?
-
-# Source the output variables
-# Filter output to only include lines starting with 'export '
-eval "$(echo "$GET_VARS_OUTPUT" | grep '^export ')"
+# getVars prints quoted export lines on stdout and its logs on stderr
+VARS_FILE=$(mktemp)
+trap 'rm -f "$VARS_FILE"' EXIT
+if ! bun run src/getVars.ts -p "$PG_MAJOR_VERSION" --format shell > "$VARS_FILE"; then
+    echo "Error running src/getVars.ts" >&2
+    exit 1
+fi
+# shellcheck source=/dev/null
+source "$VARS_FILE"
 
 # Check if the image already exists and push flag is set
 if [ "$IMAGE_EXISTS" == "true" ] && [ "$PUSH_FLAG" == "--push" ]; then
@@ -71,14 +73,6 @@ if [ "$IMAGE_EXISTS" == "true" ] && [ "$PUSH_FLAG" == "--push" ]; then
 elif [ "$IMAGE_EXISTS" == "true" ]; then
      echo "Image already exists locally or in registry (detected by getVars.ts), but continuing with local build as --push was not specified."
 fi
-# Check for actual errors from getVars.ts (non-zero exit code other than potential image-exists signal)
-if [ $GET_VARS_EXIT_CODE -ne 0 ]; then
-     echo "Error running src/getVars.ts (Exit code: $GET_VARS_EXIT_CODE)" >&2
-     echo "--- getVars.ts output --- "
-     echo "$GET_VARS_OUTPUT"
-     echo "--- end output --- "
-     exit 1
-fi
 
 # Check if variables were set (basic check)
 if [ -z "$BITNAMI_NAME" ] || [ -z "$PGVECTOR_BASE_VERSION" ] || [ -z "$REPO_NAME" ] || [ -z "$PG_SEARCH_NAME" ] || [ -z "$TAG_SHORT" ] || [ -z "$PGVECTOR_BUILDER_TAG" ]; then
@@ -90,9 +84,6 @@ if [ -z "$BITNAMI_NAME" ] || [ -z "$PGVECTOR_BASE_VERSION" ] || [ -z "$REPO_NAME
     echo "  PG_SEARCH_NAME=$PG_SEARCH_NAME"
     echo "  TAG_SHORT=$TAG_SHORT"
     echo "  PGVECTOR_BUILDER_TAG=$PGVECTOR_BUILDER_TAG"
-    echo "--- getVars.ts output --- " >&2
-    echo "$GET_VARS_OUTPUT" >&2
-    echo "--- end output --- " >&2
     exit 1
 fi
 
@@ -100,32 +91,45 @@ fi
 # Enable Docker BuildKit
 export DOCKER_BUILDKIT=1
 
-# Create and use a new builder instance
-docker buildx create --name multiarch-builder --use || true
+# Create and use a new builder instance, named in pgvector.config.json
+BUILDER_NAME=$(bun -e 'import { loadConfig } from "./src/config"; console.log(loadConfig().build.builderName)')
+docker buildx create --name "$BUILDER_NAME" --use || true
 
 # Build the Docker image
 echo "Building Docker image for PG ${PG_MAJOR_VERSION}..."
-# Note: Using eval to handle optional arguments. Ensure inputs are trusted.
-docker_command="docker buildx build \
-    ${PLATFORM_ARG} \
-    --build-arg BITNAMI_NAME='${BITNAMI_NAME}' \
-    --build-arg PGVECTOR_BUILDER_TAG='${PGVECTOR_BUILDER_TAG}' \
-    --build-arg PG_MAJOR_VERSION='${PG_MAJOR_VERSION}' \
-    --build-arg PG_SEARCH_NAME='${PG_SEARCH_NAME}' \
-    --tag '${TAG_SHORT}' \
-    --tag 'ghcr.io/${REPO_NAME}:latest-pg${PG_MAJOR_VERSION}' \
-    ${PUSH_FLAG} \
-    ."
+docker_args=(buildx build)
+if [ -n "$PLATFORM" ]; then
+    docker_args+=(--platform "$PLATFORM")
+fi
+docker_args+=(
+    --build-arg "BITNAMI_TAG=${BITNAMI_REF:-$BITNAMI_NAME}"
+    --build-arg "PGVECTOR_BUILDER_TAG=${PGVECTOR_BUILDER_REF:-$PGVECTOR_BUILDER_TAG}"
+    --build-arg "PG_MAJOR_VERSION=${PG_MAJOR_VERSION}"
+    --build-arg "PG_SEARCH_TAG=${PG_SEARCH_REF:-$PG_SEARCH_NAME}"
+)
+# IMAGE_TAGS lists every tag rendered from the configured templates
+IFS=',' read -r -a image_tags <<< "${IMAGE_TAGS:-$TAG_SHORT,$TAG_LATEST_PG}"
+for tag in "${image_tags[@]}"; do
+    docker_args+=(--tag "$tag")
+done
+# IMAGE_LABELS holds one key=value per line
+while IFS= read -r label; do
+    [ -n "$label" ] && docker_args+=(--label "$label")
+done <<< "${IMAGE_LABELS:-}"
+if [ -n "$PUSH_FLAG" ]; then
+    docker_args+=("$PUSH_FLAG")
+fi
+docker_args+=(.)
 
 echo "Running command:"
-echo "$docker_command"
-eval "$docker_command"
+echo "docker ${docker_args[*]}"
+docker "${docker_args[@]}"
 
 echo "Build completed successfully!"
 if [ "$PUSH_FLAG" == "--push" ]; then
     echo "Image tagged and pushed as: ${TAG_SHORT}"
-    echo "Image also tagged and pushed as: ghcr.io/${REPO_NAME}:latest-pg${PG_MAJOR_VERSION}"
+    echo "Image also tagged and pushed as: ${TAG_LATEST_PG}"
 else
     echo "Image tagged locally as: ${TAG_SHORT}"
-    echo "Image also tagged locally as: ghcr.io/${REPO_NAME}:latest-pg${PG_MAJOR_VERSION}"
+    echo "Image also tagged locally as: ${TAG_LATEST_PG}"
 fi
\ No newline at end of file
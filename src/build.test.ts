@@ -1,13 +1,16 @@
-import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from "bun:test";
 import { runBuild } from "./build"; // Import the function to test
 import * as getVarsModule from "./getVars"; // Import the module
 
 // Mock the entire getVars module
 mock.module("./getVars", () => ({
-  getVars: mock(async (pgMajorVersion?: string, options?: { suppressExports?: boolean }) => {
+  getVars: mock(async (pgMajorVersion?: string, options?: { suppressExports?: boolean; platforms?: string[] }) => {
     // Default mock implementation
     console.log(`Mocked getVars called with pgMajorVersion=${pgMajorVersion}, options=${JSON.stringify(options)}`);
     const pgVer = pgMajorVersion || '16'; // Determine PG version for consistent tags
+    const requestedPlatforms = options?.platforms ?? ["linux/amd64"];
+    // Simulate a pg_search tag that only ships amd64 for PG 13
+    const commonPlatforms = pgVer === '13' ? ["linux/amd64"] : null;
     return {
       bitnamiName: `mock-bitnami-pg${pgVer}`,
       pgvectorBaseVersion: "mock-pgvector-0.7.0",
@@ -17,8 +20,27 @@ mock.module("./getVars", () => ({
       tagWithFullPostgresVersion: `mock-registry/mock-repo:mock-pgvector-0.7.0-pg${pgVer}-postgres${pgVer}`,
       tagLatestPg: `mock-registry/mock-repo:latest-pg${pgVer}`,
       pgvectorBuilderTag: `mock-pgvector-0.7.0-pg${pgVer}`,
-      imageExists: pgVer === '15', // Simulate exists only for PG 15 for testing
+      // Simulate a complete image for PG 15 and an amd64-only push for PG 14
+      imageExists: {
+        exists: pgVer === '15' || pgVer === '14',
+        platforms: { "linux/amd64": pgVer === '15' || pgVer === '14', "linux/arm64": pgVer === '15' },
+        allPlatforms: pgVer === '15',
+      },
+      upstreamPlatforms: { bitnami: null, pgvector: null, pgSearch: commonPlatforms, common: commonPlatforms },
+      buildPlatforms: commonPlatforms ? requestedPlatforms.filter(p => commonPlatforms.includes(p)) : requestedPlatforms,
       repoName: "mock-repo",
+      bitnamiRef: `mock-bitnami-pg${pgVer}@sha256:${"a".repeat(64)}`,
+      pgvectorBuilderRef: `mock-pgvector-0.7.0-pg${pgVer}`,
+      pgSearchRef: "mock-pgsearch-latest",
+      tags: [
+        `mock-registry/mock-repo:mock-pgvector-0.7.0-pg${pgVer}-mock-bitnami-pg${pgVer}`,
+        `mock-registry/mock-repo:mock-pgvector-0.7.0-pg${pgVer}`,
+        `mock-registry/mock-repo:mock-pgvector-0.7.0-pg${pgVer}-postgres${pgVer}`,
+        `mock-registry/mock-repo:latest-pg${pgVer}`,
+        `mock-registry/mock-repo:mock-pgvector-0.7-pg${pgVer}`,
+      ],
+      aliasTags: [`mock-registry/mock-repo:mock-pgvector-0.7-pg${pgVer}`],
+      labels: { "io.github.beshkenadze.bitnami-pgvector.bitnami-tag": `mock-bitnami-pg${pgVer}` },
     };
   }),
 }));
@@ -59,6 +81,10 @@ const mockShellExecutor = mock(async (...args: any[]) => {
     return successResult;
 });
 
+// runBuild only awaits the executor, so the mock stands in for Bun's $
+type ShellExecutor = NonNullable<Parameters<typeof runBuild>[1]>;
+const shellExecutor = mockShellExecutor as unknown as ShellExecutor;
+
 describe("Build Script (build.ts)", () => {
   let consoleLogMock: ReturnType<typeof mock<(typeof console)["log"]>>;
 
@@ -76,9 +102,9 @@ describe("Build Script (build.ts)", () => {
     consoleLogMock = mock(console.log);
     const options = { pgMajorVersion: "16" };
     // Pass the mock executor to runBuild
-    await runBuild(options, mockShellExecutor as any, consoleLogMock);
+    await runBuild(options, shellExecutor, consoleLogMock);
 
-    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, { suppressExports: true });
+    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, expect.objectContaining({ suppressExports: true }));
 
     // Find the call that executed the build command
     const buildCommandCall = mockShellExecutor.mock.calls.find(call => {
@@ -96,7 +122,7 @@ describe("Build Script (build.ts)", () => {
         
         // Check that the expected log messages are present
         expect(logs).toEqual(expect.arrayContaining([
-            expect.stringContaining("--build-arg BITNAMI_TAG=mock-bitnami-pg16"),
+            expect.stringContaining(`--build-arg BITNAMI_TAG=mock-bitnami-pg16@sha256:${"a".repeat(64)}`),
             expect.stringContaining("--build-arg PGVECTOR_BUILDER_TAG=mock-pgvector-0.7.0-pg16"),
             expect.stringContaining("--build-arg PG_MAJOR_VERSION=16"),
             expect.stringContaining("--build-arg PG_SEARCH_TAG=mock-pgsearch-latest"),
@@ -121,9 +147,9 @@ describe("Build Script (build.ts)", () => {
   it("should run build with --push", async () => {
     consoleLogMock = mock(console.log);
     const options = { pgMajorVersion: "17", push: true };
-    await runBuild(options, mockShellExecutor as any, consoleLogMock);
+    await runBuild(options, shellExecutor, consoleLogMock);
 
-    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, { suppressExports: true });
+    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, expect.objectContaining({ suppressExports: true }));
     const buildCommandCall = mockShellExecutor.mock.calls.find(call => {
         const commandString = (call[0]?.raw?.[0]) || (call?.[1] as string);
         return typeof commandString === 'string' && commandString.includes('docker buildx build');
@@ -141,6 +167,8 @@ describe("Build Script (build.ts)", () => {
         expect(logs).toEqual(expect.arrayContaining([
             expect.stringContaining("--build-arg BITNAMI_TAG=mock-bitnami-pg17"),
             expect.stringContaining("--tag mock-registry/mock-repo:latest-pg17"),
+            expect.stringContaining("--tag mock-registry/mock-repo:mock-pgvector-0.7-pg17"),
+            expect.stringContaining("--label io.github.beshkenadze.bitnami-pgvector.bitnami-tag=mock-bitnami-pg17"),
             expect.stringContaining("--push"),
             expect.stringContaining("-f Dockerfile"),
             expect.stringContaining(" .")
@@ -154,14 +182,15 @@ describe("Build Script (build.ts)", () => {
      expect(logs).toEqual(expect.arrayContaining([expect.stringContaining("Build completed successfully!")]));
      expect(logs).toEqual(expect.arrayContaining([expect.stringContaining("Image tagged and pushed as: mock-registry/mock-repo:mock-pgvector-0.7.0-pg17")]));
      expect(logs).toEqual(expect.arrayContaining([expect.stringContaining("Image also tagged and pushed as: mock-registry/mock-repo:latest-pg17")]));
+     expect(logs).toEqual(expect.arrayContaining([expect.stringContaining("Rolling aliases moved to this image: mock-registry/mock-repo:mock-pgvector-0.7-pg17")]));
   });
 
   it("should run build with --platform", async () => {
     consoleLogMock = mock(console.log);
     const options = { pgMajorVersion: "16", platform: "linux/amd64,linux/arm64" };
-    await runBuild(options, mockShellExecutor as any, consoleLogMock);
+    await runBuild(options, shellExecutor, consoleLogMock);
 
-    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, { suppressExports: true });
+    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, expect.objectContaining({ suppressExports: true }));
     const buildCommandCall = mockShellExecutor.mock.calls.find(call => {
         const commandString = (call[0]?.raw?.[0]) || (call?.[1] as string);
         return typeof commandString === 'string' && commandString.includes('docker buildx build');
@@ -193,9 +222,9 @@ describe("Build Script (build.ts)", () => {
   it("should skip build if image exists and --push is specified", async () => {
       consoleLogMock = mock(console.log);
       const options = { pgMajorVersion: "15", push: true }; // PG 15 mock has imageExists: true
-      await runBuild(options, mockShellExecutor as any, consoleLogMock);
+      await runBuild(options, shellExecutor, consoleLogMock);
 
-      expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, { suppressExports: true });
+      expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, expect.objectContaining({ suppressExports: true }));
 
       // Ensure docker build was NOT called
        const buildCommandCall = mockShellExecutor.mock.calls.find(call => {
@@ -219,9 +248,9 @@ describe("Build Script (build.ts)", () => {
   it("should NOT skip build if image exists but --push is NOT specified", async () => {
     consoleLogMock = mock(console.log);
     const options = { pgMajorVersion: "15" }; // PG 15 mock has imageExists: true, no push flag
-    await runBuild(options, mockShellExecutor as any, consoleLogMock);
+    await runBuild(options, shellExecutor, consoleLogMock);
 
-    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, { suppressExports: true });
+    expect(getVarsModule.getVars).toHaveBeenCalledWith(options.pgMajorVersion, expect.objectContaining({ suppressExports: true }));
 
     // Check console log for the warning
     const logs = consoleLogMock.mock.calls.map(call => call[0]);
@@ -253,4 +282,67 @@ describe("Build Script (build.ts)", () => {
     expect(logs).toEqual(expect.arrayContaining([expect.stringContaining("Build completed successfully!")]));
   });
 
-}); 
\ No newline at end of file
+  it("should rebuild if a requested platform is missing even with --push", async () => {
+    consoleLogMock = mock(console.log);
+    const options = { pgMajorVersion: "14", push: true, platform: "linux/amd64,linux/arm64" }; // PG 14 mock lacks linux/arm64
+    await runBuild(options, shellExecutor, consoleLogMock);
+
+    expect(getVarsModule.getVars).toHaveBeenCalledWith(
+      options.pgMajorVersion,
+      expect.objectContaining({ platforms: ["linux/amd64", "linux/arm64"] })
+    );
+
+    const logs = consoleLogMock.mock.calls.map(call => String(call[0]));
+    expect(logs).toEqual(expect.arrayContaining([
+      expect.stringContaining("is missing platform(s): linux/arm64. Rebuilding."),
+    ]));
+
+    // Ensure docker build WAS called
+    const buildCommandCall = mockShellExecutor.mock.calls.find(call => {
+        const commandString = (call[0]?.raw?.[0]) || (call?.[1] as string);
+        return typeof commandString === 'string' && commandString.includes('docker buildx build');
+    });
+    expect(buildCommandCall).toBeDefined();
+    expect(logs).toEqual(expect.arrayContaining([expect.stringContaining("Build completed successfully!")]));
+  });
+
+  it("should refuse platforms an upstream image does not provide", async () => {
+    consoleLogMock = mock(console.log);
+    const options = { pgMajorVersion: "13", platform: "linux/amd64,linux/arm64" }; // PG 13 mock ships amd64 only
+    await expect(runBuild(options, shellExecutor, consoleLogMock)).rejects.toThrow(
+      "Upstream images do not provide the requested platform(s): linux/arm64 (not provided by paradedb/paradedb)."
+    );
+
+    const buildCommandCall = mockShellExecutor.mock.calls.find(call => {
+        const commandString = (call[0]?.raw?.[0]) || (call?.[1] as string);
+        return typeof commandString === 'string' && commandString.includes('docker buildx build');
+    });
+    expect(buildCommandCall).toBeUndefined();
+  });
+
+  it("should narrow platforms with --narrow-platforms", async () => {
+    consoleLogMock = mock(console.log);
+    const options = { pgMajorVersion: "13", platform: "linux/amd64,linux/arm64", narrowPlatforms: true };
+    await runBuild(options, shellExecutor, consoleLogMock);
+
+    const logs = consoleLogMock.mock.calls.map(call => String(call[0]));
+    expect(logs).toEqual(expect.arrayContaining([
+      expect.stringContaining("docker buildx build --platform linux/amd64 --build-arg"),
+    ]));
+    expect(logs).toEqual(expect.arrayContaining([expect.stringContaining("Build completed successfully!")]));
+  });
+
+  it("should warn that --frozen --push rebuilds without checking the registry", async () => {
+    consoleLogMock = mock(console.log);
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      await runBuild({ pgMajorVersion: "17", push: true, frozen: true }, shellExecutor, consoleLogMock);
+
+      expect(getVarsModule.getVars).toHaveBeenCalledWith("17", expect.objectContaining({ frozen: true }));
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Frozen mode does not check the target registry"));
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+});
@@ -1,7 +1,16 @@
 #!/usr/bin/env bun
 import { $ as defaultShellExecutor } from "bun";
 import { Command } from "commander";
-import { getVars, type ImageVars } from "./getVars"; // Assuming getVars can be imported
+import { type ProjectConfig, loadConfig } from "./config";
+import { exitCodeFor } from "./errors";
+import { getVars, type ImageVars, type UpstreamPlatforms } from "./getVars"; // Assuming getVars can be imported
+import {
+  hostPlatform,
+  missingPlatforms,
+  parsePlatformList,
+  platformIn,
+} from "./registry/platforms";
+import { type PgSearchChannel, parsePgSearchChannel } from "./tags/paradedb";
 
 // No longer needed, file path is now specified directly
 
@@ -9,12 +18,41 @@ interface BuildOptions {
   push?: boolean;
   platform?: string;
   pgMajorVersion: string;
+  channel?: PgSearchChannel;
+  frozen?: boolean;
+  /** Fail instead of falling back to default upstream tags */
+  strict?: boolean;
+  /** Drop platforms an upstream image lacks instead of refusing to build */
+  narrowPlatforms?: boolean;
+  /** Build even if the upstream images disagree on PostgreSQL major, Debian release or glibc */
+  allowIncompatible?: boolean;
+  /** Query the upstream registry instead of using cached responses */
+  noCache?: boolean;
+}
+
+const UPSTREAM_IMAGE_NAMES: Record<Exclude<keyof UpstreamPlatforms, "common">, string> = {
+  bitnami: "bitnami/postgresql",
+  pgvector: "pgvector/pgvector",
+  pgSearch: "paradedb/paradedb",
+};
+
+/**
+ * Names the upstream images known to lack a platform
+ */
+function imagesLackingPlatform(upstream: UpstreamPlatforms, platform: string): string[] {
+  return Object.entries(UPSTREAM_IMAGE_NAMES)
+    .filter(([key]) => {
+      const platforms = upstream[key as keyof typeof UPSTREAM_IMAGE_NAMES];
+      return platforms !== null && !platformIn(platform, platforms);
+    })
+    .map(([, name]) => name);
 }
 
 async function runBuild(
   options: BuildOptions, 
   shellExecutor: typeof defaultShellExecutor = defaultShellExecutor, 
-  logger: (message?: unknown, ...optionalParams: unknown[]) => void = console.log
+  logger: (message?: unknown, ...optionalParams: unknown[]) => void = console.log,
+  config: ProjectConfig = loadConfig()
 ) {
   logger(`Starting build for PG ${options.pgMajorVersion}...`);
 
@@ -26,13 +64,26 @@ async function runBuild(
   } else {
     logger("Platform not specified, building for current architecture.");
   }
+  // The existence check has to cover every platform this build produces
+  const platforms = options.platform
+    ? parsePlatformList(options.platform)
+    : [hostPlatform()];
 
   // --- Get Variables ---
   logger("Fetching build variables...");
   let buildVars: ImageVars | undefined;
   try {
     logger(">>> ABOUT TO CALL getVars");
-    buildVars = await getVars(options.pgMajorVersion, { suppressExports: true });
+    buildVars = await getVars(options.pgMajorVersion, {
+      suppressExports: true,
+      channel: options.channel,
+      frozen: options.frozen,
+      strict: options.strict,
+      allowIncompatible: options.allowIncompatible,
+      noCache: options.noCache,
+      platforms,
+      config,
+    });
     logger(">>> RETURNED FROM getVars");
 
     if (!buildVars) {
@@ -40,16 +91,39 @@ async function runBuild(
     }
   } catch (error) {
     console.error(`Error getting variables: ${error instanceof Error ? error.message : error}`);
-    process.exit(1);
+    throw error;
+  }
+
+  // Refuse (or narrow) platforms that an upstream image does not provide
+  const unsupportedPlatforms = platforms.filter(
+    (platform) => !buildVars.buildPlatforms.includes(platform)
+  );
+  if (unsupportedPlatforms.length > 0) {
+    const details = unsupportedPlatforms
+      .map((platform) => `${platform} (not provided by ${imagesLackingPlatform(buildVars.upstreamPlatforms, platform).join(", ")})`)
+      .join("; ");
+    if (!options.narrowPlatforms) {
+      throw new Error(`Upstream images do not provide the requested platform(s): ${details}. Use --narrow-platforms to build the remaining platforms only.`);
+    }
+    if (buildVars.buildPlatforms.length === 0) {
+      throw new Error(`Upstream images do not provide any requested platform: ${details}.`);
+    }
+    console.warn(`Warning: Upstream images do not provide: ${details}. Narrowing the build to ${buildVars.buildPlatforms.join(",")}.`);
+  }
+
+  if (options.frozen && options.push) {
+    console.warn(`Warning: Frozen mode does not check the target registry, so ${buildVars.versionsHashTag} is rebuilt and pushed even if it is already published.`);
   }
 
-  // Check if image exists using the versionsHashTag
-  if (buildVars.imageExists && options.push) {
+  // Check if image exists using the versionsHashTag, on every platform being built
+  if (buildVars.imageExists.allPlatforms && options.push) {
     logger(`Image with hash tag ${buildVars.versionsHashTag} already exists in registry. Skipping build and push.`);
     return; // Exit successfully
   } 
-  
-  if (buildVars.imageExists) {
+
+  if (buildVars.imageExists.exists && !buildVars.imageExists.allPlatforms) {
+    logger(`Image with hash tag ${buildVars.versionsHashTag} exists, but is missing platform(s): ${missingPlatforms(buildVars.imageExists.platforms).join(", ")}. Rebuilding.`);
+  } else if (buildVars.imageExists.allPlatforms) {
     logger(`Image with hash tag ${buildVars.versionsHashTag} exists, but continuing with local build as --push was not specified.`);
   }
 
@@ -60,66 +134,38 @@ async function runBuild(
   // Create and use a new builder instance (optional, consider if necessary)
   logger("Ensuring buildx builder instance exists...");
   try {
-    await shellExecutor`docker buildx create --name multiarch-builder --use`;
+    await shellExecutor`docker buildx create --name ${config.build.builderName} --use`;
   } catch (error) {
     console.warn(`Ignoring error during buildx create (likely already exists): ${error}`);
   }
 
   logger("Building Docker image...");
 
-  const buildArgs = [
-    `--build-arg BITNAMI_TAG='${buildVars.bitnamiName}'`,
-    `--build-arg PGVECTOR_BUILDER_TAG='${buildVars.pgvectorBuilderTag}'`,
-    `--build-arg PG_MAJOR_VERSION='${options.pgMajorVersion}'`,
-    `--build-arg PG_SEARCH_TAG='${buildVars.pgSearchName}'`,
-  ];
-
-  const tags = [
-    `--tag '${buildVars.tagShort}'`, // Use tagShort from getVars
-    `--tag '${buildVars.tagLatestPg}'`, // Use tagLatestPg from getVars
-    `--tag '${buildVars.versionsHashTag}'`, // Add the versionsHashTag
-  ];
-
-  const platformArg = options.platform ? `--platform ${options.platform}` : "";
-  const pushArg = options.push ? "--push" : "";
-
-  // Constructing command string for logging (easier to read)
-  // Removed this as it's reconstructed later with --load included
-  // const commandStringLog = `docker buildx build ${platformArg} ${buildArgsCmd.join(" ")} ${tagsCmd.join(" ")} ${pushCmd.join(" ")} .`;
-
-  // logger("Running command:");
-  // logger(commandStringLog); // Log the command string
-
   // Construct parts of the command
-  const platformCmd = options.platform ? ["--platform", options.platform] : [];
+  const platformCmd = options.platform ? ["--platform", buildVars.buildPlatforms.join(",")] : [];
+  // Upstream images are passed as "tag@sha256:..." so the exact inputs are pinned
   const buildArgsCmd = [
-    "--build-arg", `BITNAMI_TAG=${buildVars.bitnamiName}`,
-    "--build-arg", `PGVECTOR_BUILDER_TAG=${buildVars.pgvectorBuilderTag}`,
+    "--build-arg", `BITNAMI_TAG=${buildVars.bitnamiRef}`,
+    "--build-arg", `PGVECTOR_BUILDER_TAG=${buildVars.pgvectorBuilderRef}`,
     "--build-arg", `PG_MAJOR_VERSION=${options.pgMajorVersion}`,
-    "--build-arg", `PG_SEARCH_TAG=${buildVars.pgSearchName}`,
-  ];
-  const tagsCmd = [
-    "--tag", buildVars.tagShort,
-    "--tag", buildVars.tagLatestPg, // Use tagLatestPg from getVars
-    "--tag", buildVars.versionsHashTag, // Add the versionsHashTag
+    "--build-arg", `PG_SEARCH_TAG=${buildVars.pgSearchRef}`,
   ];
+  // Every tag rendered from the configured templates, including the versionsHashTag
+  const tagsCmd = buildVars.tags.flatMap((tag) => ["--tag", tag]);
+  // Labels record the upstream tags, so rolling aliases can later be checked against them
+  const labelsCmd = Object.entries(buildVars.labels).flatMap(([name, value]) => ["--label", `${name}=${value}`]);
   const pushCmd = options.push ? ["--push"] : [];
   const loadCmd = options.push ? [] : ["--load"]; // Add --load if not pushing
   const context = ["."];
-  const fileArg = ["-f", "Dockerfile"]; // Specify Dockerfile path
+  const fileArg = ["-f", config.dockerfile]; // Specify Dockerfile path
 
-  // Construct the command string for the tagged template
-  // Removed pre-constructed commandString as it caused issues
-  // const commandString = `docker buildx build ...`.trim();
-
-  // Log the command string for verification
-  // Reconstruct for logging purposes only
-  const commandStringLog = `docker buildx build ${platformCmd.join(" ")} ${buildArgsCmd.join(" ")} ${tagsCmd.join(" ")} ${pushCmd.join(" ")} ${loadCmd.join(" ")} ${fileArg.join(" ")} ${context.join(" ")}`.trim();
+  // Reconstruct the command for logging purposes only
+  const commandStringLog = `docker buildx build ${platformCmd.join(" ")} ${buildArgsCmd.join(" ")} ${tagsCmd.join(" ")} ${labelsCmd.join(" ")} ${pushCmd.join(" ")} ${loadCmd.join(" ")} ${fileArg.join(" ")} ${context.join(" ")}`.trim();
   logger("Executing command string (for log):");
   logger(commandStringLog);
 
   // Use tagged template literal syntax, building the command parts directly
-  await shellExecutor`docker buildx build ${platformCmd} ${buildArgsCmd} ${tagsCmd} ${pushCmd} ${loadCmd} ${fileArg} ${context}`;
+  await shellExecutor`docker buildx build ${platformCmd} ${buildArgsCmd} ${tagsCmd} ${labelsCmd} ${pushCmd} ${loadCmd} ${fileArg} ${context}`;
 
   logger("Build completed successfully!");
   const latestTag = buildVars.tagLatestPg; // Use tagLatestPg from getVars
@@ -127,6 +173,9 @@ async function runBuild(
     logger(`Image tagged and pushed as: ${buildVars.tagShort}`);
     logger(`Image also tagged and pushed as: ${latestTag}`);
     logger(`Image also tagged and pushed with hash tag: ${buildVars.versionsHashTag}`);
+    if (buildVars.aliasTags.length > 0) {
+      logger(`Rolling aliases moved to this image: ${buildVars.aliasTags.join(", ")}`);
+    }
   } else {
     logger(`Image tagged locally as: ${buildVars.tagShort}`);
     logger(`Image also tagged locally as: ${latestTag}`);
@@ -144,18 +193,43 @@ if (import.meta.main) {
     .requiredOption("--pg <version>", "Required: PostgreSQL major version (e.g., 16)")
     .option("--push", "Push the image to the registry after building")
     .option("--platform <platforms>", "Set target platforms for build (e.g., linux/amd64,linux/arm64)")
+    .option("--channel <channel>", "pg_search release channel: stable, rc or latest (non-stable channels get a tag suffix)")
+    .option("--frozen", "Use the upstream versions recorded in versions.lock.json and do not query any registry")
+    .option("--strict", "Fail if an upstream tag cannot be resolved instead of falling back to defaults")
+    .option("--narrow-platforms", "Build only the requested platforms every upstream image provides, instead of failing")
+    .option("--allow-incompatible", "Build even if the upstream images disagree on PostgreSQL major, Debian release or glibc")
+    .option("--no-cache", "Query the upstream registry instead of using cached responses")
     .action(async (options) => {
         if (Number.isNaN(Number.parseInt(options.pg, 10))) {
             console.error(`Error: Invalid PostgreSQL version provided: '${options.pg}'. Must be a number.`);
             process.exit(1);
         }
+
+        let channel: PgSearchChannel | undefined;
+        try {
+            channel = options.channel ? parsePgSearchChannel(options.channel) : undefined;
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
         
         const buildOptions: BuildOptions = {
             pgMajorVersion: options.pg, // Use options.pg
             push: options.push,
             platform: options.platform,
+            channel,
+            frozen: options.frozen,
+            strict: options.strict,
+            narrowPlatforms: options.narrowPlatforms,
+            allowIncompatible: options.allowIncompatible,
+            noCache: !options.cache,
         };
-       await runBuild(buildOptions);
+        try {
+            await runBuild(buildOptions);
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            process.exit(exitCodeFor(error));
+        }
     });
 
   program.parse(process.argv);
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CHANGELOG_END_MARKER,
+  CHANGELOG_START_MARKER,
+  type VersionChanges,
+  addChangelogEntry,
+  describeChange,
+  diffComponents,
+  formatChangelogEntry,
+} from "./index";
+
+const PUBLISHED = {
+  bitnami: "17.4.0-debian-12-r17",
+  pgvector: "0.8.0-pg17",
+  pgSearch: "0.15.18-pg17",
+};
+
+describe("diffComponents", () => {
+  test("lists the changed upstream tags", () => {
+    expect(
+      diffComponents(PUBLISHED, {
+        ...PUBLISHED,
+        bitnami: "17.4.0-debian-12-r21",
+        pgvector: "0.8.1-pg17",
+      })
+    ).toEqual([
+      {
+        component: "bitnami",
+        from: "17.4.0-debian-12-r17",
+        to: "17.4.0-debian-12-r21",
+      },
+      { component: "pgvector", from: "0.8.0-pg17", to: "0.8.1-pg17" },
+    ]);
+  });
+
+  test("reports every tag of an image without labels as changed", () => {
+    expect(diffComponents({}, PUBLISHED).map((c) => c.from)).toEqual([
+      null,
+      null,
+      null,
+    ]);
+  });
+});
+
+describe("describeChange", () => {
+  test("names the upstream version instead of the tag", () => {
+    expect(
+      describeChange({
+        component: "pgvector",
+        from: "0.8.0-pg17",
+        to: "0.8.1-pg17",
+      })
+    ).toBe("pgvector 0.8.0 → 0.8.1");
+    expect(
+      describeChange({
+        component: "pgSearch",
+        from: "0.15.18-pg17",
+        to: "0.15.19-rc.0-pg17",
+      })
+    ).toBe("pg_search 0.15.18 → 0.15.19-rc.0");
+  });
+
+  test("shortens Bitnami tags to the revision when PostgreSQL is unchanged", () => {
+    expect(
+      describeChange({
+        component: "bitnami",
+        from: "17.4.0-debian-12-r17",
+        to: "17.4.0-debian-12-r21",
+      })
+    ).toBe("Bitnami r17 → r21");
+    expect(
+      describeChange({
+        component: "bitnami",
+        from: "17.4.0-debian-12-r17",
+        to: "17.5.0-debian-12-r2",
+      })
+    ).toBe("PostgreSQL 17.4.0 → 17.5.0 (Bitnami r17 → r2)");
+  });
+
+  test("marks versions the published image did not record", () => {
+    expect(
+      describeChange({ component: "pgvector", from: null, to: "0.8.1-pg17" })
+    ).toBe("pgvector 0.8.1 (previously unknown)");
+  });
+});
+
+describe("formatChangelogEntry", () => {
+  const versions: VersionChanges[] = [
+    {
+      pgMajorVersion: "16",
+      image: "ghcr.io/owner/pgvector:latest-pg16",
+      changes: [],
+    },
+    {
+      pgMajorVersion: "17",
+      image: "ghcr.io/owner/pgvector:latest-pg17",
+      changes: [
+        { component: "pgvector", from: "0.8.0-pg17", to: "0.8.1-pg17" },
+        {
+          component: "bitnami",
+          from: "17.4.0-debian-12-r17",
+          to: "17.4.0-debian-12-r21",
+        },
+      ],
+    },
+  ];
+
+  test("lists the changes per PostgreSQL version under the date", () => {
+    expect(formatChangelogEntry("2025-05-01", versions)).toBe(
+      [
+        "## 2025-05-01",
+        "",
+        "### PostgreSQL 17 (`ghcr.io/owner/pgvector:latest-pg17`)",
+        "",
+        "- pgvector 0.8.0 → 0.8.1",
+        "- Bitnami r17 → r21",
+      ].join("\n")
+    );
+  });
+
+  test("flags the versions whose new upstream images are incompatible", () => {
+    const [, pg17] = versions;
+    const entry = formatChangelogEntry("2025-05-01", [
+      {
+        ...(pg17 as VersionChanges),
+        problems: ["pg_search is built for Debian 11, Bitnami runs Debian 12."],
+      },
+    ]);
+    expect(entry).toEndWith(
+      "- Bitnami r17 → r21\n- Incompatible upstream images: pg_search is built for Debian 11, Bitnami runs Debian 12."
+    );
+  });
+
+  test("returns null when nothing changed", () => {
+    expect(formatChangelogEntry("2025-05-01", versions.slice(0, 1))).toBeNull();
+  });
+});
+
+describe("addChangelogEntry", () => {
+  test("creates the changelog", () => {
+    expect(addChangelogEntry(null, "## 2025-05-01")).toBe(
+      `# Changelog\n\nUpstream version changes of the published images.\n\n${CHANGELOG_START_MARKER}\n\n## 2025-05-01\n\n${CHANGELOG_END_MARKER}\n`
+    );
+  });
+
+  test("adds entries newest first", () => {
+    const content = addChangelogEntry(null, "## 2025-05-01");
+    expect(addChangelogEntry(content, "## 2025-05-02")).toContain(
+      `${CHANGELOG_START_MARKER}\n\n## 2025-05-02\n\n## 2025-05-01\n\n${CHANGELOG_END_MARKER}`
+    );
+  });
+
+  test("adds the section to a changelog without one", () => {
+    expect(addChangelogEntry("# Changelog\n\nNotes.\n", "## 2025-05-01")).toBe(
+      `# Changelog\n\nNotes.\n\n${CHANGELOG_START_MARKER}\n\n## 2025-05-01\n\n${CHANGELOG_END_MARKER}\n`
+    );
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Changelog of upstream version changes: which upstream tags a new build
+ * uses instead of the ones the published image was built from, rendered as
+ * CHANGELOG.md entries
+ */
+
+import type { ImageComponents } from "../tags/aliases";
+import { parseBitnamiTag } from "../tags/bitnami";
+import { parseParadeDbTag } from "../tags/paradedb";
+import { formatPgvectorVersion, parsePgvectorTag } from "../tags/pgvector";
+
+export const DEFAULT_CHANGELOG_PATH = "CHANGELOG.md";
+
+/**
+ * Markers around the generated entries in CHANGELOG.md
+ */
+export const CHANGELOG_START_MARKER = "<!-- UPSTREAM_CHANGES_START -->";
+export const CHANGELOG_END_MARKER = "<!-- UPSTREAM_CHANGES_END -->";
+
+/**
+ * A changed upstream tag
+ */
+export interface ComponentChange {
+  component: keyof ImageComponents;
+  /** Tag of the published image, null if it is unknown */
+  from: string | null;
+  to: string;
+}
+
+/**
+ * Changes for one PostgreSQL major version
+ */
+export interface VersionChanges {
+  pgMajorVersion: string;
+  /** The image the changes apply to, e.g. "ghcr.io/owner/pgvector:latest-pg17" */
+  image: string;
+  changes: ComponentChange[];
+  /** Why the new upstream images cannot be built together, empty if they can */
+  problems?: string[];
+}
+
+const COMPONENTS: (keyof ImageComponents)[] = [
+  "bitnami",
+  "pgvector",
+  "pgSearch",
+];
+
+/**
+ * Lists the upstream tags that differ between the published and the new build
+ * @param previous Tags of the published image, empty if unknown
+ */
+export function diffComponents(
+  previous: Partial<ImageComponents>,
+  next: ImageComponents
+): ComponentChange[] {
+  return COMPONENTS.filter(
+    (component) => previous[component] !== next[component]
+  ).map((component) => ({
+    component,
+    from: previous[component] ?? null,
+    to: next[component],
+  }));
+}
+
+function describeBitnami(from: string | null, to: string): string {
+  const next = parseBitnamiTag(to);
+  const previous = from ? parseBitnamiTag(from) : null;
+  if (!next || !previous) return `Bitnami ${from ?? "(unknown)"} → ${to}`;
+
+  const revision = (tag: typeof next) =>
+    tag.revision === null ? tag.raw : `r${tag.revision}`;
+  const postgres = (tag: typeof next) =>
+    `${tag.major}.${tag.minor}.${tag.patch}`;
+  if (postgres(previous) !== postgres(next)) {
+    return `PostgreSQL ${postgres(previous)} → ${postgres(next)} (Bitnami ${revision(previous)} → ${revision(next)})`;
+  }
+  if (
+    previous.distro !== next.distro ||
+    previous.distroVersion !== next.distroVersion
+  ) {
+    return `Bitnami ${previous.distro} ${previous.distroVersion} → ${next.distro} ${next.distroVersion} (${revision(previous)} → ${revision(next)})`;
+  }
+  return `Bitnami ${revision(previous)} → ${revision(next)}`;
+}
+
+/**
+ * The version part of a tag, e.g. "0.8.0" for "0.8.0-pg17"
+ */
+function versionOf(component: keyof ImageComponents, tag: string): string {
+  if (component === "pgvector") {
+    const parsed = parsePgvectorTag(tag);
+    return parsed ? formatPgvectorVersion(parsed) : tag;
+  }
+  return parseParadeDbTag(tag) ? tag.replace(/-pg\d+$/, "") : tag;
+}
+
+/**
+ * Describes a change for a human, e.g. "pgvector 0.8.0 → 0.8.1" or
+ * "Bitnami r17 → r21"
+ */
+export function describeChange(change: ComponentChange): string {
+  if (change.component === "bitnami") {
+    return describeBitnami(change.from, change.to);
+  }
+  const name = change.component === "pgvector" ? "pgvector" : "pg_search";
+  const to = versionOf(change.component, change.to);
+  return change.from
+    ? `${name} ${versionOf(change.component, change.from)} → ${to}`
+    : `${name} ${to} (previously unknown)`;
+}
+
+/**
+ * Formats the changes of a run as a dated CHANGELOG.md entry
+ * @param date Date of the entry, e.g. "2025-05-01"
+ * @returns The entry, or null if nothing changed
+ */
+export function formatChangelogEntry(
+  date: string,
+  versions: VersionChanges[]
+): string | null {
+  const changed = versions.filter(({ changes }) => changes.length > 0);
+  if (changed.length === 0) return null;
+
+  const sections = changed.map(({ pgMajorVersion, image, changes, problems }) =>
+    [
+      `### PostgreSQL ${pgMajorVersion} (\`${image}\`)`,
+      "",
+      ...changes.map((change) => `- ${describeChange(change)}`),
+      ...(problems ?? []).map(
+        (problem) => `- Incompatible upstream images: ${problem}`
+      ),
+    ].join("\n")
+  );
+  return [`## ${date}`, "", ...sections.flatMap((s) => [s, ""])]
+    .join("\n")
+    .trimEnd();
+}
+
+/**
+ * Adds an entry at the top of the generated section of a changelog, newest
+ * first. A missing file or section is created.
+ * @param content Current CHANGELOG.md contents, null if the file does not exist
+ */
+export function addChangelogEntry(
+  content: string | null,
+  entry: string
+): string {
+  const section = `${CHANGELOG_START_MARKER}\n\n${entry}\n\n${CHANGELOG_END_MARKER}`;
+  if (content === null) {
+    return `# Changelog\n\nUpstream version changes of the published images.\n\n${section}\n`;
+  }
+  const start = content.indexOf(CHANGELOG_START_MARKER);
+  if (start === -1 || !content.includes(CHANGELOG_END_MARKER, start)) {
+    return `${content.trimEnd()}\n\n${section}\n`;
+  }
+  const insertAt = start + CHANGELOG_START_MARKER.length;
+  return `${content.slice(0, insertAt)}\n\n${entry}${content.slice(insertAt)}`;
+}
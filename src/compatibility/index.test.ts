@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type ImageFacts,
+  checkCompatibility,
+  extractImageFacts,
+  formatCompatibilityReport,
+} from "./index";
+
+const BITNAMI_CONFIG = {
+  os: "linux",
+  config: {
+    Env: ["APP_VERSION=17.4.0", "OS_FLAVOUR=debian-12", "OS_NAME=linux"],
+  },
+};
+
+const POSTGRES_CONFIG = {
+  os: "linux",
+  config: { Env: ["PG_MAJOR=17", "PG_VERSION=17.4-1.pgdg120+2"] },
+};
+
+const BOOKWORM_17: ImageFacts = {
+  os: "linux",
+  pgMajor: 17,
+  distro: "debian",
+  distroRelease: 12,
+  glibc: "2.36",
+};
+
+describe("extractImageFacts", () => {
+  test("reads Bitnami images", () => {
+    expect(extractImageFacts(BITNAMI_CONFIG)).toEqual(BOOKWORM_17);
+  });
+
+  test("reads images based on the official postgres image", () => {
+    expect(extractImageFacts(POSTGRES_CONFIG)).toEqual(BOOKWORM_17);
+  });
+
+  test("falls back to the base image label", () => {
+    expect(
+      extractImageFacts({
+        config: {
+          Env: ["PG_MAJOR=16"],
+          Labels: {
+            "org.opencontainers.image.base.name":
+              "docker.io/library/debian:bullseye",
+          },
+        },
+      })
+    ).toEqual({
+      os: null,
+      pgMajor: 16,
+      distro: "debian",
+      distroRelease: 11,
+      glibc: "2.31",
+    });
+  });
+
+  test("leaves unknown facts null", () => {
+    expect(extractImageFacts({})).toEqual({
+      os: null,
+      pgMajor: null,
+      distro: null,
+      distroRelease: null,
+      glibc: null,
+    });
+  });
+});
+
+describe("checkCompatibility", () => {
+  test("accepts matching images", () => {
+    const report = checkCompatibility(
+      { bitnami: BOOKWORM_17, pgvector: BOOKWORM_17, pgSearch: BOOKWORM_17 },
+      17
+    );
+    expect(report.compatible).toBe(true);
+    expect(report.problems).toEqual([]);
+  });
+
+  test("reports mismatched PostgreSQL versions and Debian releases", () => {
+    const report = checkCompatibility(
+      {
+        bitnami: BOOKWORM_17,
+        pgvector: { ...BOOKWORM_17, pgMajor: 16 },
+        pgSearch: {
+          ...BOOKWORM_17,
+          distroRelease: 13,
+          glibc: "2.41",
+        },
+      },
+      17
+    );
+    expect(report.compatible).toBe(false);
+    expect(report.problems).toEqual([
+      "pgvector: built for PostgreSQL 16, expected 17",
+      "pgSearch: based on debian 13, bitnami on debian 12",
+      "pgSearch: needs glibc 2.41, bitnami provides 2.36",
+    ]);
+  });
+
+  test("warns about facts that cannot be checked", () => {
+    const unknown = extractImageFacts({});
+    const report = checkCompatibility(
+      { bitnami: BOOKWORM_17, pgvector: unknown, pgSearch: BOOKWORM_17 },
+      17
+    );
+    expect(report.compatible).toBe(true);
+    expect(report.warnings).toEqual([
+      "pgvector: PostgreSQL major version unknown",
+      "pgvector: Debian release unknown",
+    ]);
+  });
+});
+
+describe("formatCompatibilityReport", () => {
+  test("lists the facts and problems", () => {
+    const report = checkCompatibility(
+      {
+        bitnami: BOOKWORM_17,
+        pgvector: BOOKWORM_17,
+        pgSearch: { ...BOOKWORM_17, os: "windows" },
+      },
+      17
+    );
+    expect(formatCompatibilityReport(report)).toBe(
+      [
+        "  bitnami   os=linux pg=17 distro=debian 12 glibc=2.36",
+        "  pgvector  os=linux pg=17 distro=debian 12 glibc=2.36",
+        "  pgSearch  os=windows pg=17 distro=debian 12 glibc=2.36",
+        "  error: pgSearch: OS windows does not match bitnami (linux)",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Compatibility of the resolved upstream images. The Dockerfile copies
+ * shared objects and ICU libraries from the pgvector and ParadeDB images into
+ * the Bitnami image, which only works if all three are built for the same
+ * OS, PostgreSQL major version and Debian release (and hence glibc).
+ */
+
+import type { ImageConfig } from "../registry/labels";
+
+/**
+ * Facts read from an image config, null where the image does not reveal them
+ */
+export interface ImageFacts {
+  os: string | null;
+  /** PostgreSQL major version the image ships */
+  pgMajor: number | null;
+  /** Base distribution, e.g. "debian" */
+  distro: string | null;
+  /** Debian release, e.g. 12 */
+  distroRelease: number | null;
+  /** glibc version of the release, e.g. "2.36" */
+  glibc: string | null;
+}
+
+/**
+ * The images that are combined in the Dockerfile
+ */
+export interface ComponentFacts {
+  /** Runtime image the others are copied into */
+  bitnami: ImageFacts;
+  pgvector: ImageFacts;
+  pgSearch: ImageFacts;
+}
+
+/**
+ * Outcome of the compatibility check
+ */
+export interface CompatibilityReport {
+  /** False if any check failed */
+  compatible: boolean;
+  facts: ComponentFacts;
+  /** Failed checks */
+  problems: string[];
+  /** Checks that could not be made because a fact is unknown */
+  warnings: string[];
+}
+
+/**
+ * Debian release numbers by codename
+ */
+export const DEBIAN_CODENAMES: Record<string, number> = {
+  buster: 10,
+  bullseye: 11,
+  bookworm: 12,
+  trixie: 13,
+};
+
+/**
+ * glibc version each Debian release ships
+ */
+export const DEBIAN_GLIBC: Record<number, string> = {
+  10: "2.28",
+  11: "2.31",
+  12: "2.36",
+  13: "2.41",
+};
+
+/**
+ * Reads the environment entries of an image config into a map
+ */
+function environmentOf(config: ImageConfig): Map<string, string> {
+  const environment = new Map<string, string>();
+  for (const entry of config.config?.Env ?? []) {
+    const separator = entry.indexOf("=");
+    if (separator > 0) {
+      environment.set(entry.slice(0, separator), entry.slice(separator + 1));
+    }
+  }
+  return environment;
+}
+
+function leadingNumber(value: string | undefined): number | null {
+  const match = value ? /^(\d+)/.exec(value) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Extracts the facts from an image config. Bitnami images describe
+ * themselves with APP_VERSION and OS_FLAVOUR ("debian-12"); images based on
+ * the official postgres image set PG_MAJOR and a PG_VERSION such as
+ * "17.4-1.pgdg120+2", whose "pgdg120" names Debian 12.
+ */
+export function extractImageFacts(config: ImageConfig): ImageFacts {
+  const environment = environmentOf(config);
+  const labels = config.config?.Labels ?? {};
+
+  const pgMajor =
+    leadingNumber(environment.get("PG_MAJOR")) ??
+    leadingNumber(environment.get("APP_VERSION")) ??
+    leadingNumber(environment.get("PG_VERSION"));
+
+  let distro: string | null = null;
+  let distroRelease: number | null = null;
+  const flavour = /^([a-z]+)-(\d+)$/.exec(environment.get("OS_FLAVOUR") ?? "");
+  const pgdg = /\.pgdg(\d+)0\+/.exec(environment.get("PG_VERSION") ?? "");
+  const codename = Object.keys(DEBIAN_CODENAMES).find((name) =>
+    (labels["org.opencontainers.image.base.name"] ?? "").endsWith(`:${name}`)
+  );
+  if (flavour) {
+    distro = flavour[1] as string;
+    distroRelease = Number(flavour[2]);
+  } else if (pgdg) {
+    distro = "debian";
+    distroRelease = Number(pgdg[1]);
+  } else if (codename) {
+    distro = "debian";
+    distroRelease = DEBIAN_CODENAMES[codename] ?? null;
+  }
+
+  return {
+    os: config.os ?? null,
+    pgMajor,
+    distro,
+    distroRelease,
+    glibc:
+      distro === "debian" && distroRelease !== null
+        ? (DEBIAN_GLIBC[distroRelease] ?? null)
+        : null,
+  };
+}
+
+function compareVersions(a: string, b: string): number {
+  const [aMajor = 0, aMinor = 0] = a.split(".").map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split(".").map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Checks that the images agree on OS, PostgreSQL major version and Debian
+ * release, and that the builder images do not need a newer glibc than the
+ * runtime image provides
+ * @param pgMajorVersion PostgreSQL major version being built
+ */
+export function checkCompatibility(
+  facts: ComponentFacts,
+  pgMajorVersion: number
+): CompatibilityReport {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const runtime = facts.bitnami;
+
+  for (const [component, image] of Object.entries(facts) as [
+    keyof ComponentFacts,
+    ImageFacts,
+  ][]) {
+    if (image.pgMajor === null) {
+      warnings.push(`${component}: PostgreSQL major version unknown`);
+    } else if (image.pgMajor !== pgMajorVersion) {
+      problems.push(
+        `${component}: built for PostgreSQL ${image.pgMajor}, expected ${pgMajorVersion}`
+      );
+    }
+    if (component === "bitnami") continue;
+
+    if (image.os && runtime.os && image.os !== runtime.os) {
+      problems.push(
+        `${component}: OS ${image.os} does not match bitnami (${runtime.os})`
+      );
+    }
+    if (image.distroRelease === null || runtime.distroRelease === null) {
+      warnings.push(`${component}: Debian release unknown`);
+    } else if (
+      image.distro !== runtime.distro ||
+      image.distroRelease !== runtime.distroRelease
+    ) {
+      problems.push(
+        `${component}: based on ${image.distro} ${image.distroRelease}, bitnami on ${runtime.distro} ${runtime.distroRelease}`
+      );
+    }
+    if (
+      image.glibc &&
+      runtime.glibc &&
+      compareVersions(image.glibc, runtime.glibc) > 0
+    ) {
+      problems.push(
+        `${component}: needs glibc ${image.glibc}, bitnami provides ${runtime.glibc}`
+      );
+    }
+  }
+
+  return { compatible: problems.length === 0, facts, problems, warnings };
+}
+
+/**
+ * Formats a report as a table of the facts followed by the problems
+ */
+export function formatCompatibilityReport(report: CompatibilityReport): string {
+  const value = (fact: string | number | null) =>
+    fact === null ? "?" : String(fact);
+  const rows = Object.entries(report.facts).map(
+    ([component, image]: [string, ImageFacts]) =>
+      `  ${component.padEnd(9)} os=${value(image.os)} pg=${value(image.pgMajor)} distro=${value(image.distro)} ${value(image.distroRelease)} glibc=${value(image.glibc)}`
+  );
+  return [
+    ...rows,
+    ...report.problems.map((problem) => `  error: ${problem}`),
+    ...report.warnings.map((warning) => `  warning: ${warning}`),
+  ].join("\n");
+}
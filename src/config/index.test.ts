@@ -0,0 +1,166 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEFAULT_CONFIG, loadConfig, validateConfig } from "./index";
+
+const tempDir = mkdtempSync(join(tmpdir(), "pgvector-config-"));
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("validateConfig", () => {
+  test("fills in defaults for missing fields", () => {
+    expect(validateConfig({}, "config.json")).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("merges nested sections with the defaults", () => {
+    const config = validateConfig(
+      {
+        pgVersions: { supported: [15, "16", "17"] },
+        upstreamDefaults: {
+          bitnami: {
+            "15": "15.12.0-debian-12-r1",
+            "16": "16.6.0-debian-12-r2",
+            "17": "17.2.0-debian-12-r1",
+          },
+        },
+        registry: "registry.example.com",
+        tests: { port: 15432 },
+      },
+      "config.json"
+    );
+    expect(config.pgVersions).toEqual({
+      supported: ["15", "16", "17"],
+      primary: "17",
+    });
+    expect(config.registry).toBe("registry.example.com");
+    expect(config.tests).toEqual({ ...DEFAULT_CONFIG.tests, port: 15432 });
+  });
+
+  test("rejects unknown keys", () => {
+    expect(() =>
+      validateConfig({ regsitry: "ghcr.io" }, "config.json")
+    ).toThrow('config.json: unknown key "regsitry". Expected one of:');
+    expect(() => validateConfig({ tests: { prot: 1 } }, "config.json")).toThrow(
+      'config.json.tests: unknown key "prot"'
+    );
+  });
+
+  test("requires the primary version to be supported", () => {
+    expect(() =>
+      validateConfig(
+        { pgVersions: { supported: ["16"], primary: "17" } },
+        "config.json"
+      )
+    ).toThrow(
+      "config.json.pgVersions.primary (17) must be one of the supported versions: 16."
+    );
+  });
+
+  test("rejects invalid values", () => {
+    expect(() =>
+      validateConfig({ pgVersions: { supported: ["17.2"] } }, "config.json")
+    ).toThrow(
+      "config.json.pgVersions.supported[0] must be a PostgreSQL major version"
+    );
+    expect(() =>
+      validateConfig({ pgSearchChannel: "beta" }, "config.json")
+    ).toThrow(
+      "config.json.pgSearchChannel must be one of: stable, rc, latest."
+    );
+    expect(() =>
+      validateConfig({ tests: { port: 70000 } }, "config.json")
+    ).toThrow("config.json.tests.port must be a port number");
+    expect(() => validateConfig({ configVersion: 2 }, "config.json")).toThrow(
+      "config.json: unsupported configVersion 2, expected 1."
+    );
+  });
+
+  test("reads the Bitnami defaults per PostgreSQL major version", () => {
+    const config = validateConfig(
+      {
+        pgVersions: { supported: ["15"], primary: "15" },
+        upstreamDefaults: { bitnami: { 15: "15.10.0-debian-12-r1" } },
+      },
+      "config.json"
+    );
+    expect(config.upstreamDefaults.bitnami).toEqual({
+      "15": "15.10.0-debian-12-r1",
+    });
+    expect(config.upstreamDefaults.pgvector).toBe(
+      DEFAULT_CONFIG.upstreamDefaults.pgvector
+    );
+    expect(() =>
+      validateConfig(
+        { upstreamDefaults: { bitnami: { "16": "17.2.0-debian-12-r1" } } },
+        "config.json"
+      )
+    ).toThrow(
+      'config.json.upstreamDefaults.bitnami.16 must be a PostgreSQL 16 tag such as "16.2.0-debian-12-r1", got "17.2.0-debian-12-r1".'
+    );
+    expect(() =>
+      validateConfig(
+        { upstreamDefaults: { bitnami: "17.2.0-debian-12-r1" } },
+        "config.json"
+      )
+    ).toThrow("config.json.upstreamDefaults.bitnami must be an object.");
+  });
+
+  test("requires a Bitnami default for every supported version", () => {
+    expect(() =>
+      validateConfig(
+        { upstreamDefaults: { bitnami: { "17": "17.2.0-debian-12-r1" } } },
+        "config.json"
+      )
+    ).toThrow(
+      "config.json.upstreamDefaults.bitnami needs a tag for every supported PostgreSQL version; missing: 16."
+    );
+  });
+
+  test("validates tag templates", () => {
+    const config = validateConfig(
+      { tags: { tagShort: "pg{pg}-{pgvector}", extra: ["{pgFull}"] } },
+      "config.json"
+    );
+    expect(config.tags.tagShort).toBe("pg{pg}-{pgvector}");
+    expect(config.tags.extra).toEqual(["{pgFull}"]);
+    expect(() =>
+      validateConfig({ tags: { tagLatestPg: "latest/{pg}" } }, "config.json")
+    ).toThrow('config.json.tags.tagLatestPg: "latest/{pg}" renders to');
+    expect(() =>
+      validateConfig({ tags: { extra: ["{version}"] } }, "config.json")
+    ).toThrow("config.json.tags.extra[0]: unknown placeholder {version}");
+  });
+});
+
+describe("loadConfig", () => {
+  test("returns the defaults when pgvector.config.json does not exist", () => {
+    const cwd = process.cwd();
+    process.chdir(tempDir);
+    try {
+      expect(loadConfig(undefined, {})).toEqual(DEFAULT_CONFIG);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  test("throws when a configured file does not exist", () => {
+    const path = join(tempDir, "missing.json");
+    expect(() => loadConfig(path)).toThrow(`${path}: config file not found.`);
+    expect(() => loadConfig(undefined, { PGVECTOR_CONFIG: path })).toThrow(
+      `${path}: config file not found.`
+    );
+  });
+
+  test("reports invalid JSON with the file name", () => {
+    const path = join(tempDir, "broken.json");
+    writeFileSync(path, "{");
+    expect(() => loadConfig(path)).toThrow(`${path}: invalid JSON`);
+  });
+
+  test("loads the repository config", () => {
+    expect(loadConfig("pgvector.config.json").pgVersions.primary).toBe("17");
+  });
+});
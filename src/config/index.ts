@@ -0,0 +1,425 @@
+/**
+ * Loading and validation of pgvector.config.json, the project configuration
+ * for the supported PostgreSQL versions, the target registry, the tag policy
+ * and the build and test settings. Every field is optional in the file and
+ * falls back to the built-in defaults; environment variables and CLI flags
+ * override the file.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { PG_SEARCH_CHANNELS, type PgSearchChannel } from "../tags/paradedb";
+import {
+  DEFAULT_TAG_TEMPLATES,
+  type TagTemplates,
+  validateTagTemplate,
+} from "../tags/templates";
+import { DEFAULT_DOCKERFILE_PATH } from "../version-hash";
+
+export const DEFAULT_CONFIG_PATH = "pgvector.config.json";
+export const CONFIG_VERSION = 1;
+
+/**
+ * Upstream tags used when the newest one cannot be resolved
+ */
+export interface UpstreamDefaults {
+  /** Bitnami tag per PostgreSQL major version, e.g. { "17": "17.2.0-debian-12-r1" } */
+  bitnami: Record<string, string>;
+  /** pgvector version, e.g. "0.8.0" */
+  pgvector: string;
+  /** pg_search version, e.g. "0.15.18"; never a floating tag */
+  pgSearch: string;
+}
+
+/**
+ * The resolved project configuration
+ */
+export interface ProjectConfig {
+  configVersion: typeof CONFIG_VERSION;
+  pgVersions: {
+    /** PostgreSQL major versions images are built for */
+    supported: string[];
+    /** Major version the `latest` tag and the README badges follow */
+    primary: string;
+  };
+  /** Registry images are published to */
+  registry: string;
+  /** Repository name images are published as, null to use the git checkout name */
+  repoName: string | null;
+  /** Platforms the published image must provide */
+  platforms: string[];
+  /** Default pg_search release channel */
+  pgSearchChannel: PgSearchChannel;
+  /** Dockerfile that is built and hashed into the version tag */
+  dockerfile: string;
+  upstreamDefaults: UpstreamDefaults;
+  /** Templates of the published image tags */
+  tags: TagTemplates;
+  build: {
+    /** Name of the docker buildx builder instance */
+    builderName: string;
+  };
+  tests: {
+    /** Host port of the test database container */
+    port: number;
+    user: string;
+    password: string;
+    database: string;
+  };
+}
+
+export const DEFAULT_CONFIG: ProjectConfig = {
+  configVersion: CONFIG_VERSION,
+  pgVersions: { supported: ["16", "17"], primary: "17" },
+  registry: "ghcr.io",
+  repoName: null,
+  platforms: ["linux/amd64", "linux/arm64"],
+  pgSearchChannel: "stable",
+  dockerfile: DEFAULT_DOCKERFILE_PATH,
+  upstreamDefaults: {
+    bitnami: {
+      "16": "16.6.0-debian-12-r2",
+      "17": "17.2.0-debian-12-r1",
+    },
+    pgvector: "0.8.0",
+    pgSearch: "0.15.18",
+  },
+  tags: DEFAULT_TAG_TEMPLATES,
+  build: { builderName: "multiarch-builder" },
+  tests: {
+    // A non-default port avoids conflicts with a local PostgreSQL
+    port: 5433,
+    user: "testuser",
+    password: "testpassword",
+    database: "testdb",
+  },
+};
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Rejects keys that are not part of the schema, so typos do not go unnoticed
+ */
+function assertKnownKeys(value: JsonObject, known: object, path: string): void {
+  const expected = Object.keys(known);
+  for (const key of Object.keys(value)) {
+    if (!expected.includes(key)) {
+      throw new Error(
+        `${path}: unknown key "${key}". Expected one of: ${expected.join(", ")}.`
+      );
+    }
+  }
+}
+
+function readObject(
+  parent: JsonObject,
+  key: string,
+  path: string
+): JsonObject | undefined {
+  const value = parent[key];
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new Error(`${path}.${key} must be an object.`);
+  }
+  return value;
+}
+
+function readString(
+  parent: JsonObject,
+  key: string,
+  path: string,
+  fallback: string
+): string {
+  const value = parent[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== "string" || value === "") {
+    throw new Error(`${path}.${key} must be a non-empty string.`);
+  }
+  return value;
+}
+
+/**
+ * Reads a PostgreSQL major version, given as "17" or 17
+ */
+function readPgVersion(value: unknown, path: string): string {
+  const version = typeof value === "number" ? String(value) : value;
+  if (typeof version !== "string" || !/^\d+$/.test(version)) {
+    throw new Error(
+      `${path} must be a PostgreSQL major version such as "17", got ${JSON.stringify(value)}.`
+    );
+  }
+  return version;
+}
+
+function readStringList(
+  parent: JsonObject,
+  key: string,
+  path: string,
+  fallback: string[]
+): string[] {
+  const value = parent[key];
+  if (value === undefined) return fallback;
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((entry) => typeof entry !== "string" || entry === "")
+  ) {
+    throw new Error(`${path}.${key} must be a non-empty array of strings.`);
+  }
+  return value as string[];
+}
+
+/**
+ * Reads the Bitnami fallback tags, keyed by the PostgreSQL major version
+ * each tag must belong to
+ */
+function readBitnamiDefaults(
+  upstreamDefaults: JsonObject,
+  path: string
+): Record<string, string> {
+  const bitnami = readObject(upstreamDefaults, "bitnami", path);
+  if (!bitnami) return DEFAULT_CONFIG.upstreamDefaults.bitnami;
+
+  const bitnamiPath = `${path}.bitnami`;
+  const tags: Record<string, string> = {};
+  for (const key of Object.keys(bitnami)) {
+    const pgMajor = readPgVersion(key, `${bitnamiPath}.${key}`);
+    const tag = readString(bitnami, key, bitnamiPath, "");
+    if (!tag.startsWith(`${pgMajor}.`)) {
+      throw new Error(
+        `${bitnamiPath}.${key} must be a PostgreSQL ${pgMajor} tag such as "${pgMajor}.2.0-debian-12-r1", got "${tag}".`
+      );
+    }
+    tags[pgMajor] = tag;
+  }
+  return tags;
+}
+
+/**
+ * Reads the tag templates, checking each against the OCI tag grammar
+ */
+function readTagTemplates(data: JsonObject, source: string): TagTemplates {
+  const tags = readObject(data, "tags", source) ?? {};
+  const path = `${source}.tags`;
+  assertKnownKeys(tags, DEFAULT_TAG_TEMPLATES, path);
+  const defaults = DEFAULT_TAG_TEMPLATES;
+  const read = (key: Exclude<keyof TagTemplates, "extra" | "aliases">) => {
+    const template = readString(tags, key, path, defaults[key]);
+    validateTagTemplate(template, `${path}.${key}`);
+    return template;
+  };
+
+  const readList = (key: "extra" | "aliases") => {
+    const templates = tags[key];
+    if (templates === undefined) return defaults[key];
+    if (
+      !Array.isArray(templates) ||
+      templates.some((entry) => typeof entry !== "string" || entry === "")
+    ) {
+      throw new Error(`${path}.${key} must be an array of strings.`);
+    }
+    templates.forEach((template, index) => {
+      validateTagTemplate(template, `${path}.${key}[${index}]`);
+    });
+    return templates as string[];
+  };
+
+  return {
+    fullImageTag: read("fullImageTag"),
+    tagShort: read("tagShort"),
+    tagWithFullPostgresVersion: read("tagWithFullPostgresVersion"),
+    tagLatestPg: read("tagLatestPg"),
+    versionsHashTag: read("versionsHashTag"),
+    extra: readList("extra"),
+    aliases: readList("aliases"),
+  };
+}
+
+/**
+ * Validates a parsed config document and fills in the defaults
+ * @param data Parsed JSON
+ * @param source File name used in error messages
+ * @throws Error describing the first invalid field
+ */
+export function validateConfig(data: unknown, source: string): ProjectConfig {
+  if (!isObject(data)) {
+    throw new Error(`${source}: expected a JSON object.`);
+  }
+  assertKnownKeys(data, DEFAULT_CONFIG, source);
+  if (
+    data.configVersion !== undefined &&
+    data.configVersion !== CONFIG_VERSION
+  ) {
+    throw new Error(
+      `${source}: unsupported configVersion ${JSON.stringify(data.configVersion)}, expected ${CONFIG_VERSION}.`
+    );
+  }
+
+  const pgVersions = readObject(data, "pgVersions", source) ?? {};
+  assertKnownKeys(
+    pgVersions,
+    DEFAULT_CONFIG.pgVersions,
+    `${source}.pgVersions`
+  );
+  let supported = DEFAULT_CONFIG.pgVersions.supported;
+  if (pgVersions.supported !== undefined) {
+    if (
+      !Array.isArray(pgVersions.supported) ||
+      pgVersions.supported.length === 0
+    ) {
+      throw new Error(
+        `${source}.pgVersions.supported must be a non-empty array of PostgreSQL major versions.`
+      );
+    }
+    supported = pgVersions.supported.map((version, index) =>
+      readPgVersion(version, `${source}.pgVersions.supported[${index}]`)
+    );
+  }
+  const primary =
+    pgVersions.primary === undefined
+      ? DEFAULT_CONFIG.pgVersions.primary
+      : readPgVersion(pgVersions.primary, `${source}.pgVersions.primary`);
+  if (!supported.includes(primary)) {
+    throw new Error(
+      `${source}.pgVersions.primary (${primary}) must be one of the supported versions: ${supported.join(", ")}.`
+    );
+  }
+
+  let repoName = DEFAULT_CONFIG.repoName;
+  if (data.repoName !== undefined && data.repoName !== null) {
+    repoName = readString(data, "repoName", source, "");
+  }
+
+  const pgSearchChannel = readString(
+    data,
+    "pgSearchChannel",
+    source,
+    DEFAULT_CONFIG.pgSearchChannel
+  );
+  if (!(PG_SEARCH_CHANNELS as readonly string[]).includes(pgSearchChannel)) {
+    throw new Error(
+      `${source}.pgSearchChannel must be one of: ${PG_SEARCH_CHANNELS.join(", ")}.`
+    );
+  }
+
+  const upstreamDefaults = readObject(data, "upstreamDefaults", source) ?? {};
+  const upstreamPath = `${source}.upstreamDefaults`;
+  assertKnownKeys(
+    upstreamDefaults,
+    DEFAULT_CONFIG.upstreamDefaults,
+    upstreamPath
+  );
+
+  const bitnami = readBitnamiDefaults(upstreamDefaults, upstreamPath);
+  const versionsWithoutBitnami = supported.filter(
+    (version) => !(version in bitnami)
+  );
+  if (versionsWithoutBitnami.length > 0) {
+    throw new Error(
+      `${upstreamPath}.bitnami needs a tag for every supported PostgreSQL version; missing: ${versionsWithoutBitnami.join(", ")}.`
+    );
+  }
+
+  const build = readObject(data, "build", source) ?? {};
+  assertKnownKeys(build, DEFAULT_CONFIG.build, `${source}.build`);
+
+  const tests = readObject(data, "tests", source) ?? {};
+  const testsPath = `${source}.tests`;
+  assertKnownKeys(tests, DEFAULT_CONFIG.tests, testsPath);
+  let port = DEFAULT_CONFIG.tests.port;
+  if (tests.port !== undefined) {
+    if (
+      typeof tests.port !== "number" ||
+      !Number.isInteger(tests.port) ||
+      tests.port < 1 ||
+      tests.port > 65535
+    ) {
+      throw new Error(
+        `${testsPath}.port must be a port number between 1 and 65535.`
+      );
+    }
+    port = tests.port;
+  }
+
+  const defaults = DEFAULT_CONFIG;
+  return {
+    configVersion: CONFIG_VERSION,
+    pgVersions: { supported, primary },
+    registry: readString(data, "registry", source, defaults.registry),
+    repoName,
+    platforms: readStringList(data, "platforms", source, defaults.platforms),
+    pgSearchChannel: pgSearchChannel as PgSearchChannel,
+    dockerfile: readString(data, "dockerfile", source, defaults.dockerfile),
+    upstreamDefaults: {
+      bitnami,
+      pgvector: readString(
+        upstreamDefaults,
+        "pgvector",
+        upstreamPath,
+        defaults.upstreamDefaults.pgvector
+      ),
+      pgSearch: readString(
+        upstreamDefaults,
+        "pgSearch",
+        upstreamPath,
+        defaults.upstreamDefaults.pgSearch
+      ),
+    },
+    tags: readTagTemplates(data, source),
+    build: {
+      builderName: readString(
+        build,
+        "builderName",
+        `${source}.build`,
+        defaults.build.builderName
+      ),
+    },
+    tests: {
+      port,
+      user: readString(tests, "user", testsPath, defaults.tests.user),
+      password: readString(
+        tests,
+        "password",
+        testsPath,
+        defaults.tests.password
+      ),
+      database: readString(
+        tests,
+        "database",
+        testsPath,
+        defaults.tests.database
+      ),
+    },
+  };
+}
+
+/**
+ * Reads the project configuration. The path defaults to PGVECTOR_CONFIG or
+ * pgvector.config.json; only the latter may be missing, in which case the
+ * defaults are returned.
+ * @param env Environment variables PGVECTOR_CONFIG is read from
+ * @throws Error if a configured file does not exist, is not valid JSON or
+ * fails validation
+ */
+export function loadConfig(
+  configuredPath?: string,
+  env: Record<string, string | undefined> = Bun.env
+): ProjectConfig {
+  const explicitPath = configuredPath ?? env.PGVECTOR_CONFIG;
+  const path = explicitPath ?? DEFAULT_CONFIG_PATH;
+  if (!existsSync(path)) {
+    if (explicitPath === undefined) return DEFAULT_CONFIG;
+    throw new Error(`${path}: config file not found.`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(`${path}: invalid JSON (${error})`);
+  }
+  return validateConfig(data, path);
+}
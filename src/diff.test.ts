@@ -0,0 +1,231 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CompatibilityReport, ImageFacts } from "./compatibility";
+import { DEFAULT_CONFIG } from "./config";
+import type { ResolvedComponents } from "./getVars";
+import { createLockfile, writeLockfile } from "./lockfile";
+import type { ImageComponents } from "./tags/aliases";
+
+// Upstream tags resolved now, and the labels of the published images
+const current: ImageComponents = {
+  bitnami: "17.4.0-debian-12-r21",
+  pgvector: "0.8.0-pg17",
+  pgSearch: "0.15.18-pg17",
+};
+let published: Record<string, Partial<ImageComponents> | null> = {};
+let problems: string[] = [];
+
+const resolveComponents = mock(
+  async (
+    _pgMajorVersion: string,
+    ..._args: unknown[]
+  ): Promise<ResolvedComponents> => ({
+    bitnami: { tag: current.bitnami, digest: null },
+    pgvector: { tag: current.pgvector, digest: null },
+    pgvectorVersion: "0.8.0",
+    pgSearch: { tag: current.pgSearch, digest: null },
+    pgSearchChannel: "stable",
+  })
+);
+const renderLatestImageReference = mock(
+  async (pgMajorVersion: string) =>
+    `ghcr.io/owner/pgvector:latest-pg${pgMajorVersion}`
+);
+const unknownFacts: ImageFacts = {
+  os: null,
+  pgMajor: null,
+  distro: null,
+  distroRelease: null,
+  glibc: null,
+};
+const checkComponentCompatibility = mock(
+  async (): Promise<CompatibilityReport> => ({
+    compatible: problems.length === 0,
+    facts: {
+      bitnami: unknownFacts,
+      pgvector: unknownFacts,
+      pgSearch: unknownFacts,
+    },
+    problems,
+    warnings: [],
+  })
+);
+const readPublishedComponents = mock(
+  async (imageReference: string) => published[imageReference] ?? null
+);
+const withoutRegistryCache = mock(() => ({
+  env: { REGISTRY_CACHE: "off" },
+}));
+
+mock.module("./getVars", () => ({
+  checkComponentCompatibility,
+  readPublishedComponents,
+  renderLatestImageReference,
+  resolveComponents,
+  withoutRegistryCache,
+}));
+
+const { runDiff } = await import("./diff");
+
+const IMAGE = "ghcr.io/owner/pgvector:latest-pg17";
+const tempDir = mkdtempSync(join(tmpdir(), "diff-"));
+let changelogPath: string;
+let testIndex = 0;
+const logger = mock(() => {});
+
+function diffOptions(
+  options: { statePath?: string; dryRun?: boolean; noCache?: boolean } = {}
+) {
+  return {
+    pgMajorVersions: ["17"],
+    channel: "stable" as const,
+    changelogPath,
+    date: "2025-06-01",
+    config: DEFAULT_CONFIG,
+    ...options,
+  };
+}
+
+beforeEach(() => {
+  published = {};
+  problems = [];
+  changelogPath = join(tempDir, `CHANGELOG-${testIndex++}.md`);
+  resolveComponents.mockClear();
+  checkComponentCompatibility.mockClear();
+  readPublishedComponents.mockClear();
+  withoutRegistryCache.mockClear();
+  logger.mockClear();
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("runDiff", () => {
+  test("adds the changed upstream tags of the published image to the changelog", async () => {
+    published[IMAGE] = { ...current, bitnami: "17.4.0-debian-12-r17" };
+
+    const results = await runDiff(diffOptions(), logger);
+
+    expect(results).toEqual([
+      {
+        pgMajorVersion: "17",
+        image: IMAGE,
+        changes: [
+          {
+            component: "bitnami",
+            from: "17.4.0-debian-12-r17",
+            to: "17.4.0-debian-12-r21",
+          },
+        ],
+        problems: [],
+      },
+    ]);
+    const changelog = readFileSync(changelogPath, "utf8");
+    expect(changelog).toContain("## 2025-06-01");
+    expect(changelog).toContain(`### PostgreSQL 17 (\`${IMAGE}\`)`);
+    expect(changelog).toContain("- Bitnami r17 → r21");
+  });
+
+  test("lists every component of an unpublished image as new", async () => {
+    const [result] = await runDiff(diffOptions(), logger);
+
+    expect(result?.changes.map((change) => change.from)).toEqual([
+      null,
+      null,
+      null,
+    ]);
+    expect(logger).toHaveBeenCalledWith(`${IMAGE} is not published yet.`);
+  });
+
+  test("skips a published image without version labels", async () => {
+    published[IMAGE] = {};
+
+    expect(await runDiff(diffOptions(), logger)).toEqual([]);
+    expect(logger).toHaveBeenCalledWith(
+      `PG 17: ${IMAGE} has no upstream version labels, skipping. Use --state to compare with a lockfile.`
+    );
+    expect(logger).toHaveBeenCalledWith("No upstream changes.");
+    expect(existsSync(changelogPath)).toBe(false);
+  });
+
+  test("only compares the components the published image has labels for", async () => {
+    published[IMAGE] = { pgvector: "0.7.4-pg17" };
+
+    const [result] = await runDiff(diffOptions(), logger);
+
+    expect(result?.changes).toEqual([
+      { component: "pgvector", from: "0.7.4-pg17", to: "0.8.0-pg17" },
+    ]);
+  });
+
+  test("compares with the lockfile given as state", async () => {
+    const statePath = join(tempDir, `state-${testIndex}.json`);
+    const lockfile = createLockfile();
+    lockfile.versions["17"] = {
+      bitnami: { tag: current.bitnami, digest: null },
+      pgvector: { tag: current.pgvector, digest: null },
+      pgvectorVersion: "0.8.0",
+      pgSearch: { tag: "0.15.17-pg17", digest: null },
+      pgSearchChannel: "stable",
+      resolvedAt: "2025-05-01T00:00:00.000Z",
+    };
+    await writeLockfile(lockfile, statePath);
+
+    const results = await runDiff(
+      {
+        ...diffOptions({ statePath, dryRun: true }),
+        pgMajorVersions: ["16", "17"],
+      },
+      logger
+    );
+
+    expect(readPublishedComponents).not.toHaveBeenCalled();
+    expect(results).toEqual([
+      {
+        pgMajorVersion: "17",
+        image: IMAGE,
+        changes: [
+          { component: "pgSearch", from: "0.15.17-pg17", to: "0.15.18-pg17" },
+        ],
+        problems: [],
+      },
+    ]);
+    expect(logger).toHaveBeenCalledWith(
+      `PG 16: no entry in ${statePath}, skipping.`
+    );
+    expect(existsSync(changelogPath)).toBe(false);
+  });
+
+  test("lists incompatible upstream images instead of failing", async () => {
+    published[IMAGE] = { ...current, pgSearch: "0.15.17-pg17" };
+    problems = ["pg_search is built for Debian 11, Bitnami runs Debian 12."];
+
+    const [result] = await runDiff(diffOptions(), logger);
+
+    expect(result?.problems).toEqual(problems);
+    expect(readFileSync(changelogPath, "utf8")).toContain(
+      "- Incompatible upstream images: pg_search is built for Debian 11, Bitnami runs Debian 12."
+    );
+  });
+
+  test("only checks compatibility when the upstream tags changed", async () => {
+    published[IMAGE] = { ...current };
+
+    const [result] = await runDiff(diffOptions(), logger);
+
+    expect(result?.changes).toEqual([]);
+    expect(checkComponentCompatibility).not.toHaveBeenCalled();
+    expect(logger).toHaveBeenCalledWith("PG 17: up-to-date.");
+  });
+
+  test("resolves without the registry cache with noCache", async () => {
+    await runDiff(diffOptions({ noCache: true, dryRun: true }), logger);
+
+    expect(resolveComponents.mock.calls[0]?.[6]).toEqual({
+      env: { REGISTRY_CACHE: "off" },
+    });
+  });
+});
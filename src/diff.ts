@@ -0,0 +1,247 @@
+#!/usr/bin/env bun
+import { existsSync } from "node:fs";
+import { Command } from "commander";
+import {
+  DEFAULT_CHANGELOG_PATH,
+  type VersionChanges,
+  addChangelogEntry,
+  describeChange,
+  diffComponents,
+  formatChangelogEntry,
+} from "./changelog";
+import { formatCompatibilityReport } from "./compatibility";
+import { type ProjectConfig, loadConfig } from "./config";
+import { exitCodeFor } from "./errors";
+import {
+  checkComponentCompatibility,
+  readPublishedComponents,
+  renderLatestImageReference,
+  resolveComponents,
+  withoutRegistryCache,
+} from "./getVars";
+import { type Lockfile, readLockfile } from "./lockfile";
+import type { ImageComponents } from "./tags/aliases";
+import { type PgSearchChannel, parsePgSearchChannel } from "./tags/paradedb";
+
+interface DiffOptions {
+  pgMajorVersions: string[];
+  channel: PgSearchChannel;
+  /** Lockfile to read the previous versions from instead of the labels of the published image */
+  statePath?: string;
+  changelogPath: string;
+  dryRun?: boolean;
+  /** Fail instead of falling back to default upstream tags */
+  strict?: boolean;
+  /** Bypass the on-disk cache for upstream registry requests */
+  noCache?: boolean;
+  /** Date of the changelog entry, defaults to today */
+  date?: string;
+  /** Project config, read from pgvector.config.json by default */
+  config?: ProjectConfig;
+}
+
+/**
+ * Upstream tags recorded for a PostgreSQL major version in a lockfile
+ */
+function lockedComponents(
+  lockfile: Lockfile,
+  pgMajorVersion: string
+): Partial<ImageComponents> {
+  const entry = lockfile.versions[pgMajorVersion];
+  return entry
+    ? {
+        bitnami: entry.bitnami.tag,
+        pgvector: entry.pgvector.tag,
+        pgSearch: entry.pgSearch.tag,
+      }
+    : {};
+}
+
+/**
+ * Compares the upstream tags of the published `latest-pgN` image (or of the
+ * state file) with the ones a build would resolve now, and adds the changes
+ * to the changelog. Only the upstream tags are resolved: the build is not
+ * hashed, and incompatible upstream images are listed instead of failing.
+ * @returns The changes of each PostgreSQL major version
+ */
+async function runDiff(
+  options: DiffOptions,
+  logger: (
+    message?: unknown,
+    ...optionalParams: unknown[]
+  ) => void = console.log
+): Promise<VersionChanges[]> {
+  const lockfile = options.statePath
+    ? await readLockfile(options.statePath)
+    : null;
+  const config = options.config ?? loadConfig();
+  const deps = options.noCache ? withoutRegistryCache() : undefined;
+  const results: VersionChanges[] = [];
+
+  for (const pgMajorVersion of options.pgMajorVersions) {
+    logger(`Resolving upstream versions for PG ${pgMajorVersion}...`);
+    const components = await resolveComponents(
+      pgMajorVersion,
+      options.channel,
+      undefined,
+      options.strict,
+      {},
+      config.upstreamDefaults,
+      deps
+    );
+    const image = await renderLatestImageReference(
+      pgMajorVersion,
+      components,
+      config,
+      deps
+    );
+
+    // Only an image that is not published yet lists every component as new;
+    // unknown previous versions are skipped instead
+    let previous: Partial<ImageComponents> = {};
+    let published = true;
+    if (lockfile) {
+      if (!lockfile.versions[pgMajorVersion]) {
+        logger(
+          `PG ${pgMajorVersion}: no entry in ${options.statePath}, skipping.`
+        );
+        continue;
+      }
+      previous = lockedComponents(lockfile, pgMajorVersion);
+    } else {
+      const labelled = await readPublishedComponents(image, undefined, deps);
+      if (!labelled) {
+        logger(`${image} is not published yet.`);
+        published = false;
+      } else if (Object.keys(labelled).length === 0) {
+        logger(
+          `PG ${pgMajorVersion}: ${image} has no upstream version labels, skipping. Use --state to compare with a lockfile.`
+        );
+        continue;
+      } else {
+        previous = labelled;
+      }
+    }
+
+    const changes = diffComponents(previous, {
+      bitnami: components.bitnami.tag,
+      pgvector: components.pgvector.tag,
+      pgSearch: components.pgSearch.tag,
+    }).filter((change) => !published || change.from !== null);
+    if (changes.length === 0) {
+      results.push({ pgMajorVersion, image, changes, problems: [] });
+      logger(`PG ${pgMajorVersion}: up-to-date.`);
+      continue;
+    }
+    logger(`PG ${pgMajorVersion}: ${changes.length} change(s)`);
+    for (const change of changes) {
+      logger(`  ${describeChange(change)}`);
+    }
+
+    // Changed upstream images may no longer fit together; report it, since
+    // a build of this version would be refused
+    const compatibility = await checkComponentCompatibility(
+      components,
+      pgMajorVersion,
+      undefined,
+      deps
+    );
+    const problems = compatibility.compatible ? [] : compatibility.problems;
+    if (problems.length > 0) {
+      logger(
+        `PG ${pgMajorVersion}: upstream images are incompatible:\n${formatCompatibilityReport(compatibility)}`
+      );
+    }
+    results.push({ pgMajorVersion, image, changes, problems });
+  }
+
+  const entry = formatChangelogEntry(
+    options.date ?? new Date().toISOString().slice(0, 10),
+    results
+  );
+  if (!entry) {
+    logger("No upstream changes.");
+  } else if (options.dryRun) {
+    logger(`[Dry Run] ${options.changelogPath} not written:\n\n${entry}`);
+  } else {
+    const content = existsSync(options.changelogPath)
+      ? await Bun.file(options.changelogPath).text()
+      : null;
+    await Bun.write(options.changelogPath, addChangelogEntry(content, entry));
+    logger(`${options.changelogPath} updated:\n\n${entry}`);
+  }
+  return results;
+}
+
+// --- Main Execution ---
+if (import.meta.main) {
+  const config = loadConfig();
+  const program = new Command();
+
+  program
+    .name("bun run src/diff.ts")
+    .description(
+      "Compare the upstream versions of the published images with the ones a build would use now, and record the changes in the changelog"
+    )
+    .option(
+      "--pg <versions>",
+      "Comma-separated PostgreSQL major versions (e.g., 16,17)",
+      config.pgVersions.supported.join(",")
+    )
+    .option(
+      "--channel <channel>",
+      "pg_search release channel: stable, rc or latest",
+      config.pgSearchChannel
+    )
+    .option(
+      "--state <path>",
+      "Read the previous versions from this lockfile instead of the labels of the published latest-pgN image"
+    )
+    .option(
+      "--changelog <path>",
+      "Changelog to add the entry to",
+      DEFAULT_CHANGELOG_PATH
+    )
+    .option("-d, --dry-run", "Show changes without writing the changelog")
+    .option(
+      "--strict",
+      "Fail if an upstream tag cannot be resolved instead of falling back to defaults"
+    )
+    .option(
+      "--no-cache",
+      "Query the upstream registry instead of using cached responses"
+    )
+    .action(async (options) => {
+      const pgMajorVersions = String(options.pg)
+        .split(",")
+        .map((v: string) => v.trim());
+      if (pgMajorVersions.some((v) => !/^\d+$/.test(v))) {
+        console.error(
+          `Error: Invalid PostgreSQL versions provided: '${options.pg}'. Must be numbers.`
+        );
+        process.exit(1);
+      }
+      try {
+        await runDiff({
+          config,
+          pgMajorVersions,
+          channel: parsePgSearchChannel(options.channel),
+          statePath: options.state,
+          changelogPath: options.changelog,
+          dryRun: options.dryRun,
+          strict: options.strict,
+          noCache: !options.cache,
+        });
+      } catch (error) {
+        console.error(
+          `Error comparing versions: ${error instanceof Error ? error.message : error}`
+        );
+        process.exit(exitCodeFor(error));
+      }
+    });
+
+  program.parse(process.argv);
+}
+
+// Export for testing
+export { runDiff };
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import {
+  EXIT_CODES,
+  MissingPgVersionError,
+  RegistryCheckError,
+  UpstreamResolutionError,
+  exitCodeFor,
+} from "./index";
+
+describe("exitCodeFor", () => {
+  test("maps each typed error to its exit code", () => {
+    expect(exitCodeFor(new MissingPgVersionError())).toBe(
+      EXIT_CODES.missingPgVersion
+    );
+    expect(exitCodeFor(new UpstreamResolutionError("no tag"))).toBe(
+      EXIT_CODES.upstreamResolution
+    );
+    expect(
+      exitCodeFor(new RegistryCheckError("ghcr.io/owner/repo:tag", "timeout"))
+    ).toBe(EXIT_CODES.registryCheck);
+  });
+
+  test("maps anything else to a generic failure", () => {
+    expect(exitCodeFor(new Error("boom"))).toBe(1);
+    expect(exitCodeFor("boom")).toBe(1);
+  });
+});
+
+describe("typed errors", () => {
+  test("carry their name and context", () => {
+    const cause = new TypeError("fetch failed");
+    const error = new RegistryCheckError("ghcr.io/owner/repo:tag", "failed", {
+      cause,
+    });
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("RegistryCheckError");
+    expect(error.reference).toBe("ghcr.io/owner/repo:tag");
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Typed errors raised by getVars, so embedding tools can tell the failure
+ * causes apart, and the exit codes the CLI wrappers map them to
+ */
+
+/**
+ * Process exit codes of the CLIs
+ */
+export const EXIT_CODES = {
+  /** Any other failure */
+  failure: 1,
+  missingPgVersion: 2,
+  upstreamResolution: 3,
+  registryCheck: 4,
+} as const;
+
+/**
+ * Raised when neither an argument nor PG_MAJOR_VERSION names the PostgreSQL major version
+ */
+export class MissingPgVersionError extends Error {
+  constructor(
+    message = "PG_MAJOR_VERSION environment variable is not set and no argument provided."
+  ) {
+    super(message);
+    this.name = "MissingPgVersionError";
+  }
+}
+
+/**
+ * Raised when the upstream images cannot be determined or cannot be combined:
+ * a strict-mode fallback, a missing lockfile entry, an invalid pin or an
+ * incompatible combination
+ */
+export class UpstreamResolutionError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "UpstreamResolutionError";
+  }
+}
+
+/**
+ * Raised when the target registry cannot tell whether an image exists
+ */
+export class RegistryCheckError extends Error {
+  constructor(
+    /** Image reference that was checked */
+    public readonly reference: string,
+    message: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "RegistryCheckError";
+  }
+}
+
+/**
+ * Maps an error to the exit code a CLI should terminate with
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof MissingPgVersionError)
+    return EXIT_CODES.missingPgVersion;
+  if (error instanceof UpstreamResolutionError) {
+    return EXIT_CODES.upstreamResolution;
+  }
+  if (error instanceof RegistryCheckError) return EXIT_CODES.registryCheck;
+  return EXIT_CODES.failure;
+}
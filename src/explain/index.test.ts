@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type ResolutionExplanation,
+  explanationPath,
+  formatResolutionExplanation,
+} from "./index";
+
+const EXPLANATION: ResolutionExplanation = {
+  pgMajorVersion: "17",
+  pgSearchChannel: "stable",
+  bitnami: {
+    repository: "bitnami/postgresql",
+    source: "registry",
+    candidates: [
+      {
+        name: "17.4.0-debian-12-r17",
+        last_updated: "2025-01-04T00:00:00Z",
+        kept: true,
+        reason:
+          "newest by PostgreSQL version, distribution release and revision",
+      },
+      {
+        name: "17.4.0-debian-12-r9",
+        last_updated: "2025-01-03T00:00:00Z",
+        kept: true,
+        reason: "ranked #2: older than 17.4.0-debian-12-r17",
+      },
+    ],
+    problem: null,
+    selected: "17.4.0-debian-12-r17",
+  },
+  pgvector: {
+    repository: "pgvector/pgvector",
+    source: "pin",
+    candidates: [],
+    problem: null,
+    selected: "0.7.4-pg17",
+  },
+  pgSearch: {
+    repository: "paradedb/paradedb",
+    source: "fallback",
+    candidates: [
+      {
+        name: "latest-pg17",
+        last_updated: "2025-01-01T00:00:00Z",
+        kept: false,
+        reason: "floating tag, not on the stable channel",
+      },
+    ],
+    problem: "No stable ParadeDB tags found ending with -pg17.",
+    selected: "0.15.18-pg17",
+  },
+};
+
+describe("formatResolutionExplanation", () => {
+  test("lists the choice and the candidates of each upstream", () => {
+    expect(formatResolutionExplanation(EXPLANATION)).toBe(
+      [
+        "Upstream resolution for PostgreSQL 17 (stable channel):",
+        "bitnami (bitnami/postgresql): 17.4.0-debian-12-r17 [registry]",
+        "  keep   17.4.0-debian-12-r17: newest by PostgreSQL version, distribution release and revision",
+        "  keep   17.4.0-debian-12-r9: ranked #2: older than 17.4.0-debian-12-r17",
+        "pgvector (pgvector/pgvector): 0.7.4-pg17 [pin]",
+        "pgSearch (paradedb/paradedb): 0.15.18-pg17 [fallback]",
+        "  problem: No stable ParadeDB tags found ending with -pg17.",
+        "  reject latest-pg17: floating tag, not on the stable channel",
+      ].join("\n")
+    );
+  });
+});
+
+describe("explanationPath", () => {
+  test("names the file after the PostgreSQL major version", () => {
+    expect(explanationPath("explain", "17")).toBe(
+      "explain/resolution-pg17.json"
+    );
+  });
+});
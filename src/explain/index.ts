@@ -0,0 +1,80 @@
+/**
+ * Explanation of how the upstream tags of a build were chosen: every
+ * candidate each upstream listed, why it was kept or rejected, and the tag
+ * that was picked in the end
+ */
+
+import { join } from "node:path";
+import type { CandidateExplanation } from "../tags/types";
+
+/**
+ * Where the chosen tag of an upstream came from:
+ * - `registry`: selected from the tags the registry listed
+ * - `pin`: given with --bitnami, --pgvector, --pg-search or PGVECTOR_VERSION
+ * - `fallback`: the configured default, because no listed tag qualified
+ * - `lockfile`: read from versions.lock.json in frozen mode
+ */
+export type SelectionSource = "registry" | "pin" | "fallback" | "lockfile";
+
+/**
+ * How the tag of one upstream image was chosen
+ */
+export interface ComponentExplanation {
+  /** Upstream repository, e.g. "bitnami/postgresql" */
+  repository: string;
+  source: SelectionSource;
+  /** Tags listed by the registry, empty unless the registry was queried */
+  candidates: CandidateExplanation[];
+  /** Why the registry query gave no tag, e.g. a failed request */
+  problem: string | null;
+  /** The tag the build uses */
+  selected: string;
+}
+
+/**
+ * How the upstream tags for one PostgreSQL major version were chosen
+ */
+export interface ResolutionExplanation {
+  pgMajorVersion: string;
+  pgSearchChannel: string;
+  bitnami: ComponentExplanation;
+  pgvector: ComponentExplanation;
+  pgSearch: ComponentExplanation;
+}
+
+/**
+ * File an explanation is written to in an explain directory
+ */
+export function explanationPath(dir: string, pgMajorVersion: string): string {
+  return join(dir, `resolution-pg${pgMajorVersion}.json`);
+}
+
+function formatComponent(
+  name: string,
+  component: ComponentExplanation
+): string[] {
+  const lines = [
+    `${name} (${component.repository}): ${component.selected} [${component.source}]`,
+  ];
+  if (component.problem) lines.push(`  problem: ${component.problem}`);
+  for (const candidate of component.candidates) {
+    const verdict = candidate.kept ? "keep" : "reject";
+    lines.push(`  ${verdict.padEnd(6)} ${candidate.name}: ${candidate.reason}`);
+  }
+  return lines;
+}
+
+/**
+ * Formats an explanation as a list of the candidates of each upstream,
+ * headed by the chosen tag and where it came from
+ */
+export function formatResolutionExplanation(
+  explanation: ResolutionExplanation
+): string {
+  return [
+    `Upstream resolution for PostgreSQL ${explanation.pgMajorVersion} (${explanation.pgSearchChannel} channel):`,
+    ...formatComponent("bitnami", explanation.bitnami),
+    ...formatComponent("pgvector", explanation.pgvector),
+    ...formatComponent("pgSearch", explanation.pgSearch),
+  ].join("\n");
+}
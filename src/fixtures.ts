@@ -0,0 +1,131 @@
+#!/usr/bin/env bun
+import { Command } from "commander";
+import { loadConfig } from "./config";
+import { exitCodeFor } from "./errors";
+import { createGetVarsDeps, getVars } from "./getVars";
+import {
+  createCassette,
+  createRecordingFetch,
+  readCassette,
+  writeCassette,
+} from "./registry/cassette";
+import { startFixtureServer } from "./registry/fixtureServer";
+import { type PgSearchChannel, parsePgSearchChannel } from "./tags/paradedb";
+
+interface RecordOptions {
+  pgMajorVersions: string[];
+  channel: PgSearchChannel;
+  cassettePath: string;
+}
+
+/**
+ * Runs getVars against the real registries for each PostgreSQL major
+ * version and records every registry response to a cassette
+ * @returns The number of recorded interactions
+ */
+async function runRecord(
+  options: RecordOptions,
+  logger: (
+    message?: unknown,
+    ...optionalParams: unknown[]
+  ) => void = console.log
+): Promise<number> {
+  const cassette = createCassette();
+  // Responses served from the on-disk cache would not be recorded
+  const deps = createGetVarsDeps({
+    fetch: createRecordingFetch(cassette),
+    env: { ...Bun.env, REGISTRY_CACHE: "off", REGISTRY_FIXTURES_URL: "" },
+  });
+
+  for (const pgMajorVersion of options.pgMajorVersions) {
+    logger(`Recording registry responses for PG ${pgMajorVersion}...`);
+    await getVars(
+      pgMajorVersion,
+      { suppressExports: true, channel: options.channel },
+      deps
+    );
+  }
+
+  await writeCassette(options.cassettePath, cassette);
+  logger(
+    `${options.cassettePath}: recorded ${cassette.interactions.length} interactions.`
+  );
+  return cassette.interactions.length;
+}
+
+// --- Main Execution ---
+if (import.meta.main) {
+  const config = loadConfig();
+  const program = new Command();
+
+  program
+    .name("bun run src/fixtures.ts")
+    .description(
+      "Record registry responses to a cassette and replay them from a local server"
+    );
+
+  program
+    .command("record")
+    .description(
+      "Run getVars against the real registries and record the responses"
+    )
+    .requiredOption("--out <path>", "Cassette file to write")
+    .option(
+      "--pg <versions>",
+      "Comma-separated PostgreSQL major versions (e.g., 16,17)",
+      config.pgVersions.supported.join(",")
+    )
+    .option(
+      "--channel <channel>",
+      "pg_search release channel: stable, rc or latest",
+      config.pgSearchChannel
+    )
+    .action(async (options) => {
+      const pgMajorVersions = String(options.pg)
+        .split(",")
+        .map((v: string) => v.trim());
+      if (pgMajorVersions.some((v) => !/^\d+$/.test(v))) {
+        console.error(
+          `Error: Invalid PostgreSQL versions provided: '${options.pg}'. Must be numbers.`
+        );
+        process.exit(1);
+      }
+
+      try {
+        await runRecord({
+          pgMajorVersions,
+          channel: parsePgSearchChannel(options.channel),
+          cassettePath: options.out,
+        });
+      } catch (error) {
+        console.error(
+          `Error recording fixtures: ${error instanceof Error ? error.message : error}`
+        );
+        process.exit(exitCodeFor(error));
+      }
+    });
+
+  program
+    .command("serve")
+    .description("Replay a cassette until interrupted")
+    .argument("<cassette>", "Cassette file to replay")
+    .option("--port <port>", "Port to listen on", "0")
+    .action(async (cassettePath: string, options) => {
+      try {
+        const server = startFixtureServer(await readCassette(cassettePath), {
+          port: Number.parseInt(options.port, 10),
+        });
+        console.log(`Replaying ${cassettePath} at ${server.url}`);
+        console.log(
+          `Point getVars at it with REGISTRY_FIXTURES_URL=${server.url}`
+        );
+      } catch (error) {
+        console.error(
+          `Error: ${error instanceof Error ? error.message : error}`
+        );
+        process.exit(1);
+      }
+    });
+
+  program.parse(process.argv);
+}
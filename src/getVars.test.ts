@@ -1,680 +1,826 @@
-import type { BufferSource } from "bun";
 import {
-  type Mock,
   afterAll,
+  afterEach,
   beforeAll,
   beforeEach,
   describe,
   expect,
   mock,
-  spyOn,
   test,
 } from "bun:test";
-import * as getVarsModule from "./getVars";
-const { getVars, checkImageExists } = getVarsModule; // Destructure after import
-
-type ShellPromise = ReturnType<typeof Bun.$>;
-// --- Mocking Setup ---
-
-type TemplateTagFunc = (
-  parts: TemplateStringsArray,
-  ...values: unknown[]
-) => ShellPromise;
-
-// Declare shellMock here
-// biome-ignore lint/style/useConst: needed for proper mocking
-let shellMock: Mock<TemplateTagFunc>;
-
-// Place mock.module back here
-// Create a real mock function for spying
-shellMock = mock<TemplateTagFunc>().mockImplementation(
-  (parts: TemplateStringsArray, ...values: unknown[]): ShellPromise => {
-    const cmd = parts
-      .reduce((acc, part, i) => acc + part + (values[i] ?? ""), "")
-      .trim();
-
-    // Mock 'git rev-parse --show-toplevel'
-    if (cmd === "git rev-parse --show-toplevel") {
-      const output = {
-        exitCode: 0,
-        stdout: Buffer.from("/Users/akira/Projects/bitnami-pgvector\n"),
-        stderr: Buffer.from(""),
-        pid: 123,
-      };
-      const mockPromise = Promise.resolve(output) as unknown as ShellPromise;
-      mockPromise.text = () => Promise.resolve(output.stdout.toString());
-      mockPromise.quiet = () => mockPromise;
-      mockPromise.nothrow = () => mockPromise;
-      return mockPromise;
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { $ } from "bun";
+import { DEFAULT_CONFIG } from "./config";
+import {
+  MissingPgVersionError,
+  RegistryCheckError,
+  UpstreamResolutionError,
+} from "./errors";
+import {
+  type GetVarsDeps,
+  type GetVarsOptions,
+  createGetVarsDeps,
+  getBuildMatrix,
+  getVars,
+  getVersionMatrix,
+  readPublishedComponents,
+  renderLatestImageReference,
+} from "./getVars";
+import {
+  type Interaction,
+  createCassette,
+  createRecordingFetch,
+} from "./registry/cassette";
+import {
+  type FixtureServer,
+  startFixtureServer,
+} from "./registry/fixtureServer";
+import type { RegistryClient } from "./registry/types";
+
+// Tags listed by the fake Docker Hub API, newest last
+const HUB_TAGS: Record<string, string[]> = {
+  "bitnami/postgresql": [
+    "16.8.0-debian-12-r2",
+    "17.2.0-debian-12-r1",
+    "17.4.0-debian-12-r9",
+    "17.4.0-debian-12-r17",
+  ],
+  "pgvector/pgvector": ["pg17", "0.7.4-pg16", "0.7.4-pg17", "0.8.0-pg17"],
+  "paradedb/paradedb": [
+    "latest-pg16",
+    "0.15.17-pg17",
+    "0.15.18-pg17",
+    "latest-pg17",
+    "0.15.19-rc.0-pg17",
+  ],
+};
+
+const PLATFORMS = [
+  { os: "linux", architecture: "amd64" },
+  { os: "linux", architecture: "arm64" },
+];
+
+/**
+ * State of the fake registries, reset before each test
+ */
+const registries = {
+  /** Debian release each upstream image is built on */
+  debianRelease: {} as Record<string, number>,
+  /** Tag listing requests answer with this status instead of 200 */
+  hubStatus: 200,
+  /** Published tags of the target repository and their platforms */
+  published: new Map<string, string[]>(),
+  /** Target registry requests answer with this status instead of 200 */
+  targetStatus: 200,
+};
+
+function json(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function pgMajorOf(tag: string): string {
+  return /-pg(\d+)$/.exec(tag)?.[1] ?? tag.split(".")[0] ?? "";
+}
+
+/**
+ * Image config of an upstream tag, describing itself the way the real images do
+ */
+function upstreamConfig(repository: string, tag: string): unknown {
+  const major = pgMajorOf(tag);
+  const release = registries.debianRelease[repository] ?? 12;
+  const env =
+    repository === "bitnami/postgresql"
+      ? [`APP_VERSION=${major}.4.0`, `OS_FLAVOUR=debian-${release}`]
+      : [`PG_MAJOR=${major}`, `PG_VERSION=${major}.4-1.pgdg${release}0+2`];
+  return { os: "linux", architecture: "amd64", config: { Env: env } };
+}
+
+/**
+ * Serves Docker Hub tag listings, upstream manifests and configs from
+ * registry-1.docker.io, and the target repository on ghcr.io. The digest of
+ * an upstream tag is "sha256:<tag>".
+ */
+async function fakeFetch(
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const url = new URL(String(input));
+  const method = init?.method ?? "GET";
+
+  if (url.host === "hub.docker.com") {
+    if (registries.hubStatus !== 200) {
+      return new Response("unavailable", { status: registries.hubStatus });
     }
+    const repository = /^\/v2\/repositories\/(.+)\/tags\/$/.exec(
+      url.pathname
+    )?.[1];
+    const name = url.searchParams.get("name") ?? "";
+    const results = (HUB_TAGS[repository ?? ""] ?? [])
+      .filter((tag) => tag.includes(name))
+      .map((tag, index) => ({
+        name: tag,
+        last_updated: new Date(Date.UTC(2025, 0, index + 1)).toISOString(),
+        digest: `sha256:${tag}`,
+      }))
+      .reverse();
+    return json({ results, next: null });
+  }
 
-    // Fallback for unmocked commands
-    console.warn(`Unmocked Bun.$ command: ${cmd}`);
-    const fallbackOutput = {
-      exitCode: 0,
-      stdout: Buffer.from(""),
-      stderr: Buffer.from(""),
-      pid: 999,
-    };
-    const mockPromise = Promise.resolve(
-      fallbackOutput
-    ) as unknown as ShellPromise;
-    mockPromise.text = () => Promise.resolve("");
-    mockPromise.quiet = () => mockPromise;
-    mockPromise.nothrow = () => mockPromise;
-    return mockPromise;
+  const match = /^\/v2\/(.+)\/(manifests|blobs)\/(.+)$/.exec(url.pathname);
+  if (!match) throw new Error(`Unexpected request: ${method} ${url}`);
+  const [, repository = "", kind, reference = ""] = match;
+
+  if (url.host === "registry-1.docker.io") {
+    const tag = reference.replace(/^sha256:/, "").split("~")[0] ?? "";
+    if (kind === "blobs") return json(upstreamConfig(repository, tag));
+    if (reference.includes("~")) {
+      return json({ config: { digest: `sha256:${tag}~config` } });
+    }
+    const headers = { "Docker-Content-Digest": `sha256:${tag}` };
+    if (method === "HEAD") return new Response(null, { status: 200, headers });
+    return json(
+      {
+        manifests: PLATFORMS.map((platform) => ({
+          digest: `sha256:${tag}~${platform.architecture}`,
+          platform,
+        })),
+      },
+      headers
+    );
   }
-);
 
-// Mock the Bun module
-mock.module("bun", () => {
-  const originalBun = require("bun");
-  return {
-    ...originalBun,
-    env: { ...process.env },
-    $: shellMock,
-  };
-});
+  if (url.host === "ghcr.io") {
+    if (registries.targetStatus !== 200) {
+      return new Response("error", { status: registries.targetStatus });
+    }
+    const platforms = registries.published.get(reference);
+    if (!platforms) return new Response("not found", { status: 404 });
+    return json({
+      manifests: platforms.map((platform) => {
+        const [os, architecture] = platform.split("/");
+        return {
+          digest: `sha256:${reference}`,
+          platform: { os, architecture },
+        };
+      }),
+    });
+  }
 
-// Mock global fetch
-const originalFetch = global.fetch;
-// Use bun:test mock and define the return type using Mock
-let fetchMock: Mock<typeof fetch>;
+  throw new Error(`Unexpected request: ${method} ${url}`);
+}
 
-beforeAll(() => {
-  // Use bun:test mock for the fetch mock
-  // Directly spyOn globalThis.fetch and provide implementation
-  const fetchImplementation = async (
-    input: Request | string | URL,
-    _init?: RequestInit
-  ): Promise<Response> => {
-    const url = input.toString();
-    console.log(`[TEST] Fetching URL: ${url}`); // Debugging fetch calls
-
-    if (url.includes("hub.docker.com")) {
-      if (url.includes("bitnami/postgresql")) {
-        // Mock logic for all Bitnami PostgreSQL versions
-        const pgVersionMatch = url.match(/name=(\d+)\./);
-        if (pgVersionMatch) {
-          const pgVersion = pgVersionMatch[1];
-          // Create a mock response based on the PG version
-          return new Response(
-            JSON.stringify({
-              results: [
-                {
-                  name: `mock-bitnami-pg${pgVersion}`,
-                  last_updated: "2024-02-20T12:00:00Z",
-                }
-              ],
-            }),
-            { status: 200, headers: { "Content-Type": "application/json" } }
-          );
-        }
-        if (url.includes("name=99.")) { // No tags found case
-          return new Response(
-            JSON.stringify({
-              results: [
-                {
-                  name: `mock-bitnami-pg99`,
-                  last_updated: "2024-02-20T12:00:00Z",
-                }
-              ],
-            }),
-            { status: 200, headers: { "Content-Type": "application/json" } }
-          );
-        }
-        if (url.includes("name=404.")) { // Fetch error case
-          return new Response(
-            JSON.stringify({
-              results: [
-                {
-                  name: `mock-bitnami-pg404`,
-                  last_updated: "2024-02-20T12:00:00Z",
-                }
-              ],
-            }),
-            { status: 200, headers: { "Content-Type": "application/json" } }
-          );
-        }
+let workDir: string;
+let dockerfilePath: string;
 
-      } else if (url.includes("paradedb/paradedb")) {
-        // --- ParadeDB Mock Logic (Updated) ---
-        if (url.includes("name=-pg17")) { // Scenario: Both versioned and latest available
-          console.log("[TEST] Mocking ParadeDB for PG17 (versioned + latest)");
-          return new Response(
-            JSON.stringify({
-              results: [
-                { name: "0.15.19-rc.0-pg17", last_updated: "2025-04-27T18:32:26Z" }, // RC
-                { name: "0.15.18-pg17", last_updated: "2025-04-25T10:00:00Z" }, // Latest stable versioned
-                { name: "latest-pg17", last_updated: "2025-04-26T11:00:00Z" }, // Latest tag (updated after versioned)
-                { name: "0.15.17-pg17", last_updated: "2025-04-20T09:00:00Z" },
-              ].sort((a, b) => new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime()), // Ensure sorted by date desc
-            }),
-            { status: 200, headers: { "Content-Type": "application/json" } }
-          );
-        }
-        if (url.includes("name=-pg16")) { // Scenario: Only latest available
-            console.log("[TEST] Mocking ParadeDB for PG16 (only latest)");
-            return new Response(
-              JSON.stringify({
-                results: [
-                   { name: "0.14.6-rc.1-pg16", last_updated: "2025-03-18T11:00:00Z" }, // RC
-                   { name: "latest-pg16", last_updated: "2025-03-20T10:00:00Z" }, // Only latest stable
-                ].sort((a, b) => new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime()),
-              }),
-              { status: 200, headers: { "Content-Type": "application/json" } }
-            );
-        }
-        if (url.includes("name=-pg18")) { // Scenario: Only RC available
-            console.log("[TEST] Mocking ParadeDB for PG18 (only RC)");
-            return new Response(
-              JSON.stringify({
-                results: [
-                   { name: "0.16.0-rc.1-pg18", last_updated: "2025-05-01T10:00:00Z" },
-                ].sort((a, b) => new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime()),
-              }),
-              { status: 200, headers: { "Content-Type": "application/json" } }
-            );
-        }
-         if (url.includes("name=-pg19")) { // Scenario: No relevant tags found
-             console.log("[TEST] Mocking ParadeDB for PG19 (no relevant tags)");
-            return new Response(JSON.stringify({ results: [] }), {
-              status: 200,
-              headers: { "Content-Type": "application/json" },
-            });
-         }
-         if (url.includes("name=-pg99")) { // Scenario: No relevant tags found (for Bitnami default test)
-             console.log("[TEST] Mocking ParadeDB for PG99 (no relevant tags)");
-            return new Response(JSON.stringify({ results: [] }), {
-              status: 200,
-              headers: { "Content-Type": "application/json" },
-            });
-         }
-        if (url.includes("name=-pg98")) { // Scenario: Only RC available (for pg_search default test)
-            console.log("[TEST] Mocking ParadeDB for PG98 (only RC)");
-            return new Response(
-              JSON.stringify({
-                results: [
-                   { name: "0.17.0-rc.1-pg98", last_updated: "2025-06-01T10:00:00Z" },
-                ].sort((a, b) => new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime()),
-              }),
-              { status: 200, headers: { "Content-Type": "application/json" } }
-            );
-        }
-        if (url.includes("name=-pg404")) { // Scenario: Fetch error
-          console.log("[TEST] Mocking ParadeDB for PG404 (fetch error)");
-          return new Response("Not Found", { status: 404 });
-        }
-      }
-    }
-    // Fallback for other fetches if needed, or throw error
-    console.error(`[TEST] Unexpected fetch call: ${url}`);
-    throw new Error(`Unexpected fetch call: ${url}`);
-  };
-  fetchMock = spyOn(globalThis, "fetch").mockImplementation(
-    fetchImplementation as any
-  );
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), "getvars-"));
+  dockerfilePath = join(workDir, "Dockerfile");
+  writeFileSync(dockerfilePath, "FROM scratch\n");
 });
 
 afterAll(() => {
-  globalThis.fetch = originalFetch; // Restore original fetch
-  // Bun's mock.module handles restoration automatically, no need to restore Bun mock
+  rmSync(workDir, { recursive: true, force: true });
 });
 
-describe("getVars", () => {
-  let originalEnv: NodeJS.ProcessEnv;
-  // Use bun:test mock with Mock type
-  let exitMock: Mock<(code?: number | undefined) => never>;
-  // Use bun:test mock with Mock type
-  let writeMock: Mock<(chunk: string | Buffer) => number>;
-  let flushMock: Mock<() => Promise<void>>;
-  let fileWriterMock: { write: typeof writeMock; flush: typeof flushMock };
-  // Use bun:test spyOn with Mock type
-  let fileMock: Mock<typeof Bun.file>;
-  // Define spy variables using Mock type
-  let logSpy: Mock<typeof console.log>;
-  let warnSpy: Mock<typeof console.warn>;
-  let errorSpy: Mock<typeof console.error>;
-  let checkImageExistsMock: Mock<typeof checkImageExists>; // Declare mock variable
-
-  beforeAll(async () => {
-    originalEnv = { ...process.env }; // Backup original env
-    
-    // Set NODE_ENV to test for the simple hash implementation
-    process.env.NODE_ENV = 'test';
-
-    // Mock process.exit using bun:test mock
-    exitMock = mock<(code?: number) => never>(process.exit);
-
-    // Spy on console methods
-    logSpy = spyOn(console, "log").mockImplementation(() => {});
-    warnSpy = spyOn(console, "warn").mockImplementation(() => {});
-    errorSpy = spyOn(console, "error").mockImplementation(() => {});
-
-    // Mock file writing for GITHUB_OUTPUT
-    writeMock = mock((chunk: string | Buffer) => Buffer.byteLength(chunk));
-    flushMock = mock(() => Promise.resolve(undefined));
-    fileWriterMock = {
-      write: writeMock,
-      flush: flushMock,
-    };
-
-    // Spy on Bun.file
-    const fileImplementation = (
-      path: string | URL | BufferSource | number,
-      _options?: BlobPropertyBag
-    ) => {
-      if (path === "/tmp/mock_github_output.txt") {
-        return {
-          writer: () => fileWriterMock,
-        } as any;
-      }
-      throw new Error(`Unexpected Bun.file call: ${path}`);
-    };
-    fileMock = spyOn(Bun, "file").mockImplementation(fileImplementation);
-
-    // Mock checkImageExists
-    // Calculate expected hash based on default PG17 values from getVars.ts & mocks
-    // PG: 17, PGVector: 0.8.0 (default), pgSearch: 0.15.18-pg17 (mocked)
-    const expectedVersionStringPg17 = `pg:17-pgvector:${DEFAULT_PGVECTOR_VERSION}-pgsearch:0.15.18-pg17`;
-    const hashBufferPg17 = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(expectedVersionStringPg17));
-    const hashArrayPg17 = Array.from(new Uint8Array(hashBufferPg17));
-    const expectedExistingHashPg17 = hashArrayPg17.map(b => b.toString(16).padStart(2, '0')).join('');
-    console.log(`[TEST SETUP] Expected hash for PG17 image exists check: ${expectedExistingHashPg17}`);
-
-    // Allow mocking different scenarios
-    checkImageExistsMock = spyOn(getVarsModule, "checkImageExists").mockImplementation(async (tagToCheck: string) => {
-        console.log(`[TEST] checkImageExists mock called with: ${tagToCheck}`);
-        const hashFromTag = tagToCheck.split(':sha-')[1];
-
-        // Specific scenario for the skipped 'exists' test if re-enabled
-        if (Bun.env.PGVECTOR_VERSION === "exists=true" && hashFromTag === expectedExistingHashPg17) {
-            console.log("[TEST] Mocking image exists (PG17 scenario): true");
-            return true;
-        }
-        // Default mock behavior: image does not exist
-         console.log("[TEST] Mocking image exists: false (hash mismatch or default)");
-        return false;
-    });
+function createLogger() {
+  return { log: mock(() => {}), warn: mock(() => {}), error: mock(() => {}) };
+}
+
+let logger: ReturnType<typeof createLogger>;
+let fetchSpy: ReturnType<typeof mock<typeof fakeFetch>>;
+
+/**
+ * Dependencies backed by the fake registries; the environment disables the
+ * on-disk cache and retries
+ */
+function testDeps(
+  env: Record<string, string> = {},
+  overrides: Partial<GetVarsDeps> = {}
+): GetVarsDeps {
+  return createGetVarsDeps({
+    fetch: fetchSpy as unknown as typeof fetch,
+    env: {
+      REGISTRY_CACHE: "off",
+      REGISTRY_RETRIES: "0",
+      REPO_NAME: "owner/pgvector",
+      ...env,
+    },
+    logger,
+    gitTopLevel: async () => "/home/user/bitnami-pgvector",
+    ...overrides,
   });
+}
 
-  afterAll(() => {
-    process.env = originalEnv; // Restore original env
-    // Bun automatically restores mocks/spies created with mock/spyOn
-    // No need for jest.restoreAllMocks()
-    fileMock.mockClear();
-    // Reset Bun.env (important!)
-    for (const key in Bun.env) {
-      // Don't delete inherited properties
-      if (Object.prototype.hasOwnProperty.call(Bun.env, key)) {
-        // Bun.env might be read-only in some contexts, handle potential errors
-        try {
-          delete Bun.env[key];
-        } catch (_e) {
-          console.warn(`Could not delete Bun.env.${key}`);
-        }
-      }
-    }
-    // Restore necessary env vars if needed globally for tests
-    // Object.assign(Bun.env, originalEnv); // Option: restore all
-  });
-
-  beforeEach(() => {
-    // Clear mocks before each test to ensure isolation
-    // Add conditional check for shellMock
-    if (shellMock) shellMock.mockClear();
-    fetchMock.mockClear();
-    exitMock.mockClear();
-    logSpy.mockClear();
-    writeMock.mockClear();
-    flushMock.mockClear();
-    fileMock.mockClear();
-    // Reset Bun.env (important!)
-    for (const key in Bun.env) {
-      // Don't delete inherited properties
-      if (Object.prototype.hasOwnProperty.call(Bun.env, key)) {
-        // Bun.env might be read-only in some contexts, handle potential errors
-        try {
-          delete Bun.env[key];
-        } catch (_e) {
-          console.warn(`Could not delete Bun.env.${key}`);
-        }
-      }
-    }
-    // Restore necessary env vars if needed globally for tests
-    // Object.assign(Bun.env, originalEnv); // Option: restore all
-  });
-
-  test("should use PG_MAJOR_VERSION from env and fetch latest Bitnami tag", async () => {
-    Bun.env.PG_MAJOR_VERSION = "16";
-    Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0"; // Override default
-    Bun.env.REGISTRY = "mock-registry";
-    Bun.env.REPO_NAME = "mock-repo";
+function testOptions(options: GetVarsOptions = {}): GetVarsOptions {
+  return {
+    suppressExports: true,
+    config: DEFAULT_CONFIG,
+    dockerfilePath,
+    ...options,
+  };
+}
+
+beforeEach(() => {
+  registries.debianRelease = {};
+  registries.hubStatus = 200;
+  registries.published = new Map();
+  registries.targetStatus = 200;
+  logger = createLogger();
+  fetchSpy = mock(fakeFetch);
+});
 
-    const vars = await getVars();
+describe("getVars", () => {
+  test("resolves the newest upstream tags and renders the image tags", async () => {
+    const vars = await getVars("17", testOptions(), testDeps());
 
-    expect(vars.bitnamiName).toBe("17.2.0-debian-12-r1");
-    expect(vars.pgvectorBaseVersion).toBe("mock-pgvector-0.7.0");
+    expect(vars.bitnamiName).toBe("17.4.0-debian-12-r17");
+    expect(vars.postgresVersion).toBe("17.4.0");
+    expect(vars.pgvectorBaseVersion).toBe("0.8.0");
+    expect(vars.pgvectorBuilderTag).toBe("0.8.0-pg17");
+    expect(vars.pgSearchName).toBe("0.15.18-pg17");
+    expect(vars.bitnamiRef).toBe(
+      "17.4.0-debian-12-r17@sha256:17.4.0-debian-12-r17"
+    );
     expect(vars.fullImageTag).toBe(
-      "mock-registry/mock-repo:mock-pgvector-0.7.0-pg16-17.2.0-debian-12-r1"
+      "ghcr.io/owner/pgvector:0.8.0-pg17-17.4.0-debian-12-r17"
     );
-    expect(vars.tagShort).toBe("mock-registry/mock-repo:mock-pgvector-0.7.0-pg16");
+    expect(vars.tagShort).toBe("ghcr.io/owner/pgvector:0.8.0-pg17");
     expect(vars.tagWithFullPostgresVersion).toBe(
-      "mock-registry/mock-repo:mock-pgvector-0.7.0-pg16-postgres16"
+      "ghcr.io/owner/pgvector:0.8.0-pg17-postgres17.4.0"
+    );
+    expect(vars.versionHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(vars.versionsHashTag).toBe(
+      `ghcr.io/owner/pgvector:sha-${vars.versionHash}`
+    );
+    expect(vars.upstreamPlatforms.common).toEqual([
+      "linux/amd64",
+      "linux/arm64",
+    ]);
+    expect(vars.compatibility?.compatible).toBe(true);
+    expect(vars.imageExists.exists).toBe(false);
+    // No alias exists yet, so all of them are published
+    expect(vars.aliasTags).toContain("ghcr.io/owner/pgvector:0.8-pg17");
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "https://hub.docker.com/v2/repositories/bitnami/postgresql/tags/?page_size=100&name=17.",
+      undefined
+    );
+    expect(logger.log).toHaveBeenCalledWith(
+      expect.stringContaining("Latest Bitnami tag found: 17.4.0-debian-12-r17")
     );
-    expect(vars.tagLatestPg).toBe("mock-registry/mock-repo:latest-pg16");
-    expect(vars.pgvectorBuilderTag).toBe("mock-pgvector-0.7.0-pg16");
-    expect(vars.pgSearchName).toBe("mock-pgsearch-latest");
-    expect(vars.versionHash).toBeDefined();
-    expect(typeof vars.versionHash).toBe('string');
-    expect(vars.versionHash.length).toBeGreaterThan(0);
-    expect(vars.versionsHashTag).toMatch(/^mock-registry\/mock-repo:sha-/);
-    expect(vars.imageExists).toBe(false);
-    expect(fetchMock).toHaveBeenCalledWith(
-      "https://hub.docker.com/v2/repositories/bitnami/postgresql/tags/?page_size=100&name=16."
+  });
+
+  test("reads the version, registry and repository from the environment", async () => {
+    const vars = await getVars(
+      undefined,
+      testOptions(),
+      testDeps({
+        PG_MAJOR_VERSION: "17",
+        REGISTRY: "ghcr.io",
+        REPO_NAME: "someone/images",
+      })
+    );
+    expect(vars.tagLatestPg).toBe("ghcr.io/someone/images:latest-pg17");
+  });
+
+  test("names the repository after the git checkout when nothing else does", async () => {
+    const gitTopLevel = mock(async () => "/home/user/my-fork");
+    const vars = await getVars(
+      "17",
+      testOptions(),
+      testDeps({ REPO_NAME: "" }, { gitTopLevel })
     );
-    expect(fetchMock).toHaveBeenCalledWith(
-        "https://hub.docker.com/v2/repositories/paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg16"
+    expect(gitTopLevel).toHaveBeenCalledTimes(1);
+    expect(vars.repoName).toBe("my-fork");
+  });
+
+  test("throws MissingPgVersionError without a version", async () => {
+    await expect(getVars(undefined, testOptions(), testDeps())).rejects.toThrow(
+      MissingPgVersionError
     );
+  });
 
-    // Verify log messages were called appropriately
-    expect(logSpy).toHaveBeenCalledWith(
-      expect.stringContaining("Fetching latest Bitnami tag")
+  test("hashes the Dockerfile and the upstream digests", async () => {
+    const first = await getVars("17", testOptions(), testDeps());
+    const again = await getVars("17", testOptions(), testDeps());
+    expect(again.versionHash).toBe(first.versionHash);
+
+    const otherDockerfile = join(workDir, "Dockerfile.other");
+    writeFileSync(otherDockerfile, "FROM scratch\nRUN true\n");
+    const changed = await getVars(
+      "17",
+      testOptions({ dockerfilePath: otherDockerfile }),
+      testDeps()
     );
+    expect(changed.versionHash).not.toBe(first.versionHash);
   });
 
-  test("should use input argument for PG_MAJOR_VERSION", async () => {
-    Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0"; // Set this value
-    const vars = await getVars("17"); // Pass PG version as argument
+  test("honours pins and PGVECTOR_VERSION", async () => {
+    const vars = await getVars(
+      "17",
+      testOptions({
+        pins: { bitnami: "17.2.0-debian-12-r1", pgSearch: "0.15.17" },
+      }),
+      testDeps({ PGVECTOR_VERSION: "0.7.4" })
+    );
     expect(vars.bitnamiName).toBe("17.2.0-debian-12-r1");
-    // Values from env should be used
-    expect(vars.pgvectorBaseVersion).toBe("mock-pgvector-0.7.0");
-    expect(vars.fullImageTag).toBe(
-      "mock-registry/mock-repo:mock-pgvector-0.7.0-pg17-17.2.0-debian-12-r1"
+    expect(vars.pgvectorBuilderTag).toBe("0.7.4-pg17");
+    expect(vars.pgSearchName).toBe("0.15.17-pg17");
+    // Pinned tags are resolved to their digest with a HEAD request
+    expect(vars.pgSearchRef).toBe("0.15.17-pg17@sha256:0.15.17-pg17");
+  });
+
+  test("picks the pg_search release on the requested channel", async () => {
+    const rc = await getVars("17", testOptions({ channel: "rc" }), testDeps());
+    expect(rc.pgSearchName).toBe("0.15.19-rc.0-pg17");
+    expect(rc.tagShort).toBe("ghcr.io/owner/pgvector:0.8.0-pg17-rc");
+
+    const latest = await getVars(
+      "16",
+      testOptions({ channel: "latest" }),
+      testDeps()
+    );
+    expect(latest.pgSearchName).toBe("latest-pg16");
+    expect(latest.tagLatestPg).toBe(
+      "ghcr.io/owner/pgvector:latest-pg16-latest"
     );
-    expect(vars.tagShort).toBe("mock-registry/mock-repo:mock-pgvector-0.7.0-pg17");
-    expect(vars.tagWithFullPostgresVersion).toBe(
-      "mock-registry/mock-repo:mock-pgvector-0.7.0-pg17-postgres17"
-    );
-    expect(vars.tagLatestPg).toBe("mock-registry/mock-repo:latest-pg17");
-    expect(vars.pgvectorBuilderTag).toBe("mock-pgvector-0.7.0-pg17");
-    expect(vars.pgSearchName).toBe("mock-pgsearch-latest");
-    expect(vars.versionHash).toBeDefined();
-    expect(typeof vars.versionHash).toBe('string');
-    expect(vars.versionHash.length).toBeGreaterThan(0);
-    expect(vars.versionsHashTag).toMatch(/^mock-registry\/mock-repo:sha-/);
-    expect(vars.imageExists).toBe(false);
-    expect(checkImageExistsMock).toHaveBeenCalledWith(vars.versionsHashTag);
   });
 
-  test("should use default Bitnami tag if fetch fails", async () => {
-    Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0"; // Set this value
-    Bun.env.REGISTRY = "mock-registry";
-    Bun.env.REPO_NAME = "mock-repo";
-    const vars = await getVars("404"); // Use PG version that triggers Bitnami fetch error
+  test("falls back to the configured defaults when the tags cannot be listed", async () => {
+    registries.hubStatus = 503;
+    const vars = await getVars("17", testOptions(), testDeps());
     expect(vars.bitnamiName).toBe("17.2.0-debian-12-r1");
-    expect(vars.pgvectorBaseVersion).toBe("mock-pgvector-0.7.0");
-    expect(vars.fullImageTag).toBe(
-      `mock-registry/mock-repo:mock-pgvector-0.7.0-pg404-17.2.0-debian-12-r1`
+    expect(vars.pgvectorBaseVersion).toBe(
+      DEFAULT_CONFIG.upstreamDefaults.pgvector
     );
-    expect(vars.tagShort).toBe(`mock-registry/mock-repo:mock-pgvector-0.7.0-pg404`);
-    expect(vars.pgSearchName).toBe(`mock-pgsearch-latest`);
-    expect(vars.tagWithFullPostgresVersion).toBe(
-      `mock-registry/mock-repo:mock-pgvector-0.7.0-pg404-postgres404`
-    );
-    expect(vars.tagLatestPg).toBe("mock-registry/mock-repo:latest-pg404");
-    expect(vars.pgvectorBuilderTag).toBe(`mock-pgvector-0.7.0-pg404`);
-    expect(vars.versionHash).toBeDefined();
-    expect(typeof vars.versionHash).toBe('string');
-    expect(vars.versionHash.length).toBeGreaterThan(0);
-    expect(vars.versionsHashTag).toMatch(/^mock-registry\/mock-repo:sha-/);
-    expect(vars.imageExists).toBe(false);
-    // Verify warning messages
-    expect(warnSpy).toHaveBeenCalledWith(
-      expect.stringContaining("Failed to fetch tags from Docker Hub")
-    );
-    expect(warnSpy).toHaveBeenCalledWith(
+    expect(vars.pgSearchName).toBe(
+      `${DEFAULT_CONFIG.upstreamDefaults.pgSearch}-pg17`
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
       expect.stringContaining(
         "Could not automatically determine the latest Bitnami tag"
       )
     );
-    expect(warnSpy).toHaveBeenCalledWith(
-        expect.stringContaining("Failed to fetch ParadeDB tags from Docker Hub")
-    );
-    expect(warnSpy).toHaveBeenCalledWith(
-        expect.stringContaining("Could not automatically determine the latest stable ParadeDB tag")
-    );
   });
 
-  test("should use default Bitnami tag if no matching tags found", async () => {
-    Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0"; // Set this value
-    const vars = await getVars("99"); // Use PG version that triggers no Bitnami results
-    expect(vars.bitnamiName).toBe("17.2.0-debian-12-r1");
-    expect(vars.pgvectorBaseVersion).toBe("mock-pgvector-0.7.0");
-    expect(vars.fullImageTag).toBe(
-      `mock-registry/mock-repo:mock-pgvector-0.7.0-pg99-17.2.0-debian-12-r1`
-    );
-    expect(vars.tagShort).toBe(`mock-registry/mock-repo:mock-pgvector-0.7.0-pg99`);
-    expect(vars.pgSearchName).toBe(`mock-pgsearch-latest`);
-    expect(vars.tagWithFullPostgresVersion).toBe(
-      `mock-registry/mock-repo:mock-pgvector-0.7.0-pg99-postgres99`
+  test("falls back to the Bitnami default of the requested major version", async () => {
+    registries.hubStatus = 503;
+    const vars = await getVars("16", testOptions(), testDeps());
+    expect(vars.bitnamiName).toBe("16.6.0-debian-12-r2");
+
+    await expect(
+      getVars(
+        "16",
+        testOptions({
+          config: {
+            ...DEFAULT_CONFIG,
+            upstreamDefaults: {
+              ...DEFAULT_CONFIG.upstreamDefaults,
+              bitnami: { "17": "17.2.0-debian-12-r1" },
+            },
+          },
+        }),
+        testDeps()
+      )
+    ).rejects.toThrow(
+      "No default Bitnami tag is configured for PG 16 in upstreamDefaults.bitnami."
     );
-    expect(vars.tagLatestPg).toBe("mock-registry/mock-repo:latest-pg99");
-    expect(vars.pgvectorBuilderTag).toBe(`mock-pgvector-0.7.0-pg99`);
-    expect(vars.versionHash).toBeDefined();
-    expect(typeof vars.versionHash).toBe('string');
-    expect(vars.versionHash.length).toBeGreaterThan(0);
-    expect(vars.versionsHashTag).toMatch(/^mock-registry\/mock-repo:sha-/);
-    expect(vars.imageExists).toBe(false);
+  });
 
-    // Verify warning messages
-    expect(warnSpy).toHaveBeenCalledWith(
-      expect.stringContaining("No matching Debian tags found")
+  test("refuses to fall back in strict mode", async () => {
+    registries.hubStatus = 503;
+    await expect(
+      getVars("17", testOptions(), testDeps({ STRICT_RESOLUTION: "true" }))
+    ).rejects.toThrow(UpstreamResolutionError);
+  });
+
+  test("does not fall back to latest-* on the stable channel", async () => {
+    const vars = await getVars("16", testOptions(), testDeps());
+    expect(vars.pgSearchName).toBe(
+      `${DEFAULT_CONFIG.upstreamDefaults.pgSearch}-pg16`
     );
-    expect(warnSpy).toHaveBeenCalledWith(
-      expect.stringContaining(
-        "Could not automatically determine the latest Bitnami tag"
-      )
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("No stable ParadeDB tags found ending with -pg16")
     );
-    // Check for specific ParadeDB warning without asserting total calls
-    expect(warnSpy).toHaveBeenCalledWith(
+  });
+
+  test("explains how each upstream tag was chosen", async () => {
+    const explainDir = join(workDir, "explain");
+    const vars = await getVars(
+      "16",
+      testOptions({ explain: true, explainDir, pins: { pgvector: "0.7.4" } }),
+      testDeps()
+    );
+
+    expect(vars.resolution.bitnami).toEqual({
+      repository: "bitnami/postgresql",
+      source: "registry",
+      candidates: [
+        {
+          name: "16.8.0-debian-12-r2",
+          last_updated: "2025-01-01T00:00:00.000Z",
+          kept: true,
+          reason:
+            "newest by PostgreSQL version, distribution release and revision",
+        },
+      ],
+      problem: null,
+      selected: "16.8.0-debian-12-r2",
+    });
+    expect(vars.resolution.pgvector).toMatchObject({
+      source: "pin",
+      selected: "0.7.4-pg16",
+    });
+    expect(vars.resolution.pgSearch).toMatchObject({
+      source: "fallback",
+      problem: "No stable ParadeDB tags found ending with -pg16.",
+      candidates: [
+        {
+          name: "latest-pg16",
+          kept: false,
+          reason: "floating tag, not on the stable channel",
+        },
+      ],
+    });
+    expect(logger.log).toHaveBeenCalledWith(
       expect.stringContaining(
-        "No stable versioned or 'latest' ParadeDB tags found"
+        "  reject latest-pg16: floating tag, not on the stable channel"
       )
     );
+    expect(
+      JSON.parse(readFileSync(join(explainDir, "resolution-pg16.json"), "utf8"))
+    ).toEqual(vars.resolution);
   });
 
-  test("should use default pg_search tag if fetch fails", async () => {
-    Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0"; // Set this value
-    const vars = await getVars("404"); // Triggers pg_search fetch error
-    expect(vars.bitnamiName).toBe("17.2.0-debian-12-r1");
-    expect(vars.pgSearchName).toBe(`mock-pgsearch-latest`);
-    expect(warnSpy).toHaveBeenCalledWith(
-      expect.stringContaining("Failed to fetch ParadeDB tags")
+  test("rejects incompatible upstream images unless allowed", async () => {
+    registries.debianRelease = { "paradedb/paradedb": 13 };
+    await expect(getVars("17", testOptions(), testDeps())).rejects.toThrow(
+      "pgSearch: based on debian 13, bitnami on debian 12"
     );
-    expect(warnSpy).toHaveBeenCalledWith(
-      expect.stringContaining("Could not automatically determine the latest stable ParadeDB tag")
+
+    const vars = await getVars(
+      "17",
+      testOptions(),
+      testDeps({ ALLOW_INCOMPATIBLE: "1" })
     );
+    expect(vars.compatibility?.compatible).toBe(false);
   });
 
-    test("should use default pg_search tag if only RC tags found", async () => {
-      Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0"; // Set this value
-      const vars = await getVars("98"); // Triggers only RC tags found for ParadeDB
-      expect(vars.bitnamiName).toBe("17.2.0-debian-12-r1");
-      expect(vars.pgSearchName).toBe(`mock-pgsearch-latest`);
-      expect(warnSpy).toHaveBeenCalledWith(
-        expect.stringContaining("Could not automatically determine the latest stable ParadeDB tag")
-      );
-       // Check fetch was called for pg98
-       expect(fetchMock).toHaveBeenCalledWith(
-         expect.stringContaining("paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg98")
-       );
+  test("detects an image published on every platform", async () => {
+    const { versionHash } = await getVars("17", testOptions(), testDeps());
+    registries.published.set(`sha-${versionHash}`, [
+      "linux/amd64",
+      "linux/arm64",
+    ]);
+    const vars = await getVars("17", testOptions(), testDeps());
+    expect(vars.imageExists).toEqual({
+      exists: true,
+      platforms: { "linux/amd64": true, "linux/arm64": true },
+      allPlatforms: true,
     });
-
-  test("should detect if image exists", async () => {
-    Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0";
-    checkImageExistsMock.mockClear(); // Clear previous calls
-    checkImageExistsMock.mockReturnValue(Promise.resolve(true)); // Mock to always return true for this test
-    const vars = await getVars("17");
-    console.log(`[DEBUG] Generated versionsHashTag in test: ${vars.versionsHashTag}`);
-    expect(vars.imageExists).toBe(true);
-    expect(checkImageExistsMock).toHaveBeenCalledWith(vars.versionsHashTag);
   });
 
-  test("should detect if image does not exist", async () => {
-    Bun.env.PGVECTOR_VERSION = "mock-pgvector-0.7.0";
-    checkImageExistsMock.mockClear(); // Clear previous calls
-    checkImageExistsMock.mockReturnValue(Promise.resolve(false)); // Mock to always return false for this test
-    const vars = await getVars("17");
-    expect(vars.imageExists).toBe(false);
-    expect(checkImageExistsMock).toHaveBeenCalledWith(vars.versionsHashTag);
+  test("reports platforms missing from a published image", async () => {
+    const { versionHash } = await getVars("17", testOptions(), testDeps());
+    registries.published.set(`sha-${versionHash}`, ["linux/amd64"]);
+    const vars = await getVars("17", testOptions(), testDeps());
+    expect(vars.imageExists.exists).toBe(true);
+    expect(vars.imageExists.allPlatforms).toBe(false);
+    expect(vars.imageExists.platforms["linux/arm64"]).toBe(false);
   });
 
-  test("should write to GITHUB_OUTPUT if set", async () => {
-    const mockOutputPath = "/tmp/mock_github_output.txt";
-    Bun.env.GITHUB_OUTPUT = mockOutputPath;
-    Bun.env.PG_MAJOR_VERSION = "17";
-    Bun.env.PGVECTOR_VERSION = "0.7.0"; // Set the version for this test
-    Bun.env.REGISTRY = "docker.io"; // Set registry to match expected tag
-    Bun.env.REPO_NAME = "my-custom-repo"; // Set repo name to match expected tag
+  test("throws RegistryCheckError when the target registry fails", async () => {
+    registries.targetStatus = 500;
+    await expect(getVars("17", testOptions(), testDeps())).rejects.toThrow(
+      RegistryCheckError
+    );
+  });
 
-    await getVars();
+  /**
+   * Writes a lockfile with an entry for PG 17 and returns its path
+   */
+  function writeFrozenLockfile(): string {
+    const lockfilePath = join(workDir, "versions.lock.json");
+    writeFileSync(
+      lockfilePath,
+      JSON.stringify({
+        lockfileVersion: 1,
+        versions: {
+          "17": {
+            bitnami: { tag: "17.4.0-debian-12-r9", digest: null },
+            pgvector: { tag: "0.7.4-pg17", digest: null },
+            pgvectorVersion: "0.7.4",
+            pgSearch: { tag: "0.15.17-pg17", digest: null },
+            pgSearchChannel: "stable",
+            resolvedAt: "2025-01-01T00:00:00.000Z",
+          },
+        },
+      })
+    );
+    return lockfilePath;
+  }
 
-    // Use .toHaveBeenCalledWith for bun:test spies/mocks
-    expect(fileMock).toHaveBeenCalledWith(mockOutputPath);
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("BITNAMI_NAME=17.2.0-debian-12-r1")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("PGVECTOR_BASE_VERSION=0.7.0")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("FULL_IMAGE_TAG=docker.io/my-custom-repo:0.7.0-pg17-17.2.0-debian-12-r1")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("TAG_SHORT=docker.io/my-custom-repo:0.7.0-pg17")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("TAG_WITH_FULL_POSTGRES_VERSION=docker.io/my-custom-repo:0.7.0-pg17-postgres17")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("IMAGE_EXISTS=false")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("PG_SEARCH_NAME=0.15.18-pg17")
+  test("does not touch the network in frozen mode", async () => {
+    const lockfilePath = writeFrozenLockfile();
+    const vars = await getVars(
+      "17",
+      testOptions({ frozen: true, lockfilePath }),
+      testDeps()
+    );
+    expect(vars.bitnamiName).toBe("17.4.0-debian-12-r9");
+    expect(vars.compatibility).toBeNull();
+    expect(vars.aliasTags).toEqual([]);
+
+    // A published image is not looked up, so it is rebuilt
+    registries.published.set(`sha-${vars.versionHash}`, [
+      "linux/amd64",
+      "linux/arm64",
+    ]);
+    const published = await getVars(
+      "17",
+      testOptions({ frozen: true, lockfilePath }),
+      testDeps()
+    );
+    expect(published.imageExists.exists).toBe(false);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Warning: Frozen mode does not check the target registry for ${published.versionsHashTag}; the image is treated as missing and will be rebuilt.`
     );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("TAG_LATEST_PG=docker.io/my-custom-repo:latest-pg17")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("PGVECTOR_BUILDER_TAG=0.7.0-pg17")
-    );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("VERSION_HASH=")
+  });
+
+  test("accepts pins matching the lockfile in frozen mode", async () => {
+    const vars = await getVars(
+      "17",
+      testOptions({
+        frozen: true,
+        lockfilePath: writeFrozenLockfile(),
+        pins: {
+          bitnami: "17.4.0-debian-12-r9",
+          pgvector: "0.7.4",
+          pgSearch: "0.15.17",
+        },
+      }),
+      testDeps({ PGVECTOR_VERSION: "0.7.4" })
+    );
+    expect(vars.pgvectorBuilderTag).toBe("0.7.4-pg17");
+  });
+
+  test("refuses pins conflicting with the lockfile in frozen mode with UpstreamResolutionError", async () => {
+    const lockfilePath = writeFrozenLockfile();
+    await expect(
+      getVars(
+        "17",
+        testOptions({
+          frozen: true,
+          lockfilePath,
+          pins: { pgvector: "0.8.0", pgSearch: "0.15.17-pg17" },
+        }),
+        testDeps()
+      )
+    ).rejects.toThrow(
+      `Version pins conflict with ${lockfilePath} in frozen mode: pgvector 0.8.0 (locked: 0.7.4). Remove the pins or build without --frozen.`
+    );
+    await expect(
+      getVars(
+        "17",
+        testOptions({ frozen: true, lockfilePath }),
+        testDeps({ PGVECTOR_VERSION: "0.8.0" })
+      )
+    ).rejects.toThrow(UpstreamResolutionError);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  test("writes the variables to GITHUB_OUTPUT", async () => {
+    const outputPath = join(workDir, "github_output");
+    writeFileSync(outputPath, "");
+    await getVars(
+      "17",
+      testOptions({ suppressExports: false }),
+      testDeps({ GITHUB_OUTPUT: outputPath })
+    );
+    const output = readFileSync(outputPath, "utf8");
+    expect(output).toContain("BITNAMI_NAME=17.4.0-debian-12-r17");
+    expect(output).toContain("POSTGRES_VERSION=17.4.0");
+    expect(output).toContain("TAG_SHORT=ghcr.io/owner/pgvector:0.8.0-pg17");
+    expect(output).toContain("IMAGE_EXISTS=false");
+    expect(logger.log).toHaveBeenCalledWith(
+      "Variables written to GITHUB_OUTPUT."
     );
-    expect(writeMock).toHaveBeenCalledWith(
-      expect.stringContaining("VERSIONS_HASH_TAG=docker.io/my-custom-repo:sha-")
+  });
+
+  test("logs shell exports without GITHUB_OUTPUT", async () => {
+    await getVars("17", testOptions({ suppressExports: false }), testDeps());
+    expect(logger.log).toHaveBeenCalledWith(
+      expect.stringContaining("export PG_SEARCH_NAME=")
     );
-    expect(flushMock).toHaveBeenCalled();
-    expect(logSpy).toHaveBeenCalledWith("Variables written to GITHUB_OUTPUT.");
   });
+});
 
-  test("should call process.exit if PG_MAJOR_VERSION is missing", async () => {
-    // PG_MAJOR_VERSION is cleared in beforeEach
-    await getVars(); // Should call process.exit
+describe("readPublishedComponents", () => {
+  /**
+   * Client serving one single-platform image with the given labels
+   */
+  function labelledClient(labels: Record<string, string>): RegistryClient {
+    return {
+      registry: "ghcr.io",
+      listTags: async () => [],
+      headManifest: async () => null,
+      getManifest: async (_repository, reference) =>
+        reference === "latest-pg17"
+          ? {
+              descriptor: { digest: "sha256:0", mediaType: "", size: 0 },
+              body: { config: { digest: "sha256:config" } },
+            }
+          : null,
+      getBlob: async () => ({ config: { Labels: labels } }),
+    };
+  }
 
-    // Use .toHaveBeenCalledWith for bun:test mocks
-    expect(exitMock).toHaveBeenCalledWith(1);
-    expect(errorSpy).toHaveBeenCalledWith(
-      "Error: PG_MAJOR_VERSION environment variable is not set and no argument provided."
-    );
+  test("reads the upstream tags from the image labels", async () => {
+    const client = labelledClient({
+      "io.github.beshkenadze.bitnami-pgvector.bitnami-tag":
+        "17.4.0-debian-12-r17",
+      "io.github.beshkenadze.bitnami-pgvector.pgvector-tag": "0.8.0-pg17",
+    });
+    expect(
+      await readPublishedComponents(
+        "ghcr.io/owner/pgvector:latest-pg17",
+        client,
+        testDeps()
+      )
+    ).toEqual({ bitnami: "17.4.0-debian-12-r17", pgvector: "0.8.0-pg17" });
+    expect(
+      await readPublishedComponents(
+        "ghcr.io/owner/pgvector:latest-pg16",
+        client,
+        testDeps()
+      )
+    ).toBeNull();
   });
 
-  test("should prioritize versioned pg_search tag over latest-*", async () => {
-    const pgMajorVersion = "17";
-    const vars = await getVars(pgMajorVersion);
-    // Expects 0.15.18-pg17 based on mock for -pg17
-    expect(vars.pgSearchName).toBe("mock-pgsearch-latest");
-    expect(fetchMock).toHaveBeenCalledWith(
-        expect.stringContaining("paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg17")
-    );
-    // Also check Bitnami was fetched correctly
-     expect(vars.bitnamiName).toBe("17.2.0-debian-12-r1");
-     expect(fetchMock).toHaveBeenCalledWith(
-         expect.stringContaining("bitnami/postgresql/tags/?page_size=100&name=17.")
-     );
+  test("throws RegistryCheckError when the registry fails", async () => {
+    const client = labelledClient({});
+    client.getManifest = async () => {
+      throw new Error("500 Internal Server Error");
+    };
+    await expect(
+      readPublishedComponents(
+        "ghcr.io/owner/pgvector:latest-pg17",
+        client,
+        testDeps()
+      )
+    ).rejects.toThrow(RegistryCheckError);
   });
+});
 
-  test("should use latest-* pg_search tag as fallback if no versioned tag exists", async () => {
-    const pgMajorVersion = "16";
-    const vars = await getVars(pgMajorVersion);
-    // Expects latest-pg16 based on mock for -pg16
-    expect(vars.pgSearchName).toBe("latest-pg16");
-    expect(fetchMock).toHaveBeenCalledWith(
-        expect.stringContaining("paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg16")
-    );
-     // Mock bitnami call for pg16 (add if needed, assuming similar successful fetch for now)
-     // For simplicity, let's assume bitnami fetch for 16 returns a default or mock value
-     // We'll need to add a mock for bitnami/pg16 if not present
+describe("renderLatestImageReference", () => {
+  test("renders the latest-pgN reference without querying a registry", async () => {
+    const reference = await renderLatestImageReference(
+      "17",
+      {
+        bitnami: { tag: "17.4.0-debian-12-r21", digest: null },
+        pgvector: { tag: "0.8.0-pg17", digest: null },
+        pgvectorVersion: "0.8.0",
+        pgSearch: { tag: "0.15.18-pg17-rc.1", digest: null },
+        pgSearchChannel: "rc",
+      },
+      DEFAULT_CONFIG,
+      testDeps()
+    );
+    expect(reference).toBe("ghcr.io/owner/pgvector:latest-pg17-rc");
+    expect(fetchSpy).not.toHaveBeenCalled();
   });
+});
 
-   test("should use default pg_search tag if only RC tags are found", async () => {
-    const pgMajorVersion = "18";
-    // Set a default value for testing comparison
-    const defaultPgSearchVersion = "0.15.18"; // From getVars.ts
-    const expectedDefault = `${defaultPgSearchVersion}-pg${pgMajorVersion}`;
+describe("getBuildMatrix", () => {
+  test("resolves every requested version with the same dependencies", async () => {
+    const matrix = await getBuildMatrix(
+      ["17"],
+      { config: DEFAULT_CONFIG, dockerfilePath },
+      testDeps()
+    );
+    expect(matrix.include).toHaveLength(1);
+    expect(matrix.include[0]).toMatchObject({
+      pg_version: "17",
+      tag_short: "ghcr.io/owner/pgvector:0.8.0-pg17",
+      platforms: "linux/amd64,linux/arm64",
+      primary: true,
+    });
+  });
+});
 
-    const vars = await getVars(pgMajorVersion);
-    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Could not automatically determine the latest stable ParadeDB tag"));
-    expect(vars.pgSearchName).toBe(expectedDefault);
-    expect(fetchMock).toHaveBeenCalledWith(
-        expect.stringContaining("paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg18")
-    );
-     // Mock bitnami call for pg18
+describe("getVersionMatrix", () => {
+  test("lists the configured versions without resolving them", () => {
+    expect(getVersionMatrix(undefined, DEFAULT_CONFIG)).toEqual({
+      include: [
+        { pg_version: "16", primary: false },
+        { pg_version: "17", primary: true },
+      ],
+    });
+    expect(getVersionMatrix(["16"], DEFAULT_CONFIG).include).toEqual([
+      { pg_version: "16", primary: false },
+    ]);
   });
+});
 
-  test("should use default pg_search tag if no relevant tags are found", async () => {
-    const pgMajorVersion = "19";
-    // Set a default value for testing comparison
-    const defaultPgSearchVersion = "0.15.18"; // From getVars.ts
-    const expectedDefault = `${defaultPgSearchVersion}-pg${pgMajorVersion}`;
+describe("fixture replay", () => {
+  const BITNAMI_TAGS_URL =
+    "https://hub.docker.com/v2/repositories/bitnami/postgresql/tags/?page_size=100&name=17.";
+  let server: FixtureServer | undefined;
 
-    const vars = await getVars(pgMajorVersion);
-    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Could not automatically determine the latest stable ParadeDB tag"));
-    expect(vars.pgSearchName).toBe(expectedDefault);
-    expect(fetchMock).toHaveBeenCalledWith(
-        expect.stringContaining("paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg19")
-    );
-    // Mock bitnami call for pg19
+  afterEach(() => {
+    server?.stop();
+    server = undefined;
   });
 
-   test("should use default pg_search tag if ParadeDB fetch fails", async () => {
-    const pgMajorVersion = "404"; // Use the version triggering the 404 mock
-    // Set a default value for testing comparison
-    const defaultPgSearchVersion = "0.15.18"; // From getVars.ts
-    const expectedDefault = `${defaultPgSearchVersion}-pg${pgMajorVersion}`;
+  /**
+   * Records a run against the fake registries, then moves the newest Bitnami
+   * tag to a second listing page and rate-limits the first request
+   */
+  async function recordCassette() {
+    const cassette = createCassette();
+    await getVars(
+      "17",
+      testOptions(),
+      testDeps(
+        {},
+        {
+          fetch: createRecordingFetch(
+            cassette,
+            fakeFetch as unknown as typeof fetch
+          ),
+        }
+      )
+    );
 
-    const vars = await getVars(pgMajorVersion);
-    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Failed to fetch ParadeDB tags"));
-     expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Could not automatically determine the latest stable ParadeDB tag"));
-    expect(vars.pgSearchName).toBe(expectedDefault);
-    expect(fetchMock).toHaveBeenCalledWith(
-        expect.stringContaining("paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg404")
+    const index = cassette.interactions.findIndex(
+      ({ request }) => request.url === BITNAMI_TAGS_URL
+    );
+    const listing = cassette.interactions[index] as Interaction;
+    const { results } = JSON.parse(listing.response.body);
+    const nextUrl = `${BITNAMI_TAGS_URL}&page=2`;
+    const page = (body: unknown, url: string): Interaction => ({
+      request: { method: "GET", url },
+      response: { ...listing.response, body: JSON.stringify(body) },
+    });
+    cassette.interactions.splice(
+      index,
+      1,
+      {
+        request: listing.request,
+        response: {
+          status: 429,
+          statusText: "Too Many Requests",
+          headers: [["retry-after", "0"]],
+          body: "",
+        },
+      },
+      page({ results: results.slice(1), next: nextUrl }, BITNAMI_TAGS_URL),
+      page({ results: results.slice(0, 1), next: null }, nextUrl)
+    );
+    return cassette;
+  }
+
+  test("resolves the same images from a replayed cassette", async () => {
+    const expected = await getVars("17", testOptions(), testDeps());
+    server = startFixtureServer(await recordCassette());
+
+    const vars = await getVars(
+      "17",
+      testOptions(),
+      testDeps(
+        { REGISTRY_FIXTURES_URL: server.url, REGISTRY_RETRIES: "1" },
+        { fetch }
+      )
     );
-    // Mock bitnami call for pg404 (should also likely default)
-  });
 
-  // Add a test case for PG16 Bitnami fetch if it wasn't covered
-  test.skip("should handle Bitnami fetch for PG16 (if needed)", async () => {
-    // TODO: Add mock for Bitnami PG16 tags in the fetch mock setup
-    // const vars = await getVars('16');
-    // expect(vars.bitnamiName).toBe("EXPECTED_PG16_BITNAMI_TAG");
+    expect(server.unmatched).toEqual([]);
+    // Retries are reported through the injected logger
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("returned 429 Too Many Requests")
+    );
+    expect(vars.bitnamiName).toBe("17.4.0-debian-12-r17");
+    expect(vars.bitnamiRef).toBe(expected.bitnamiRef);
+    expect(vars.pgvectorBuilderTag).toBe(expected.pgvectorBuilderTag);
+    expect(vars.pgSearchName).toBe(expected.pgSearchName);
+    expect(vars.versionHash).toBe(expected.versionHash);
+    expect(vars.upstreamPlatforms).toEqual(expected.upstreamPlatforms);
+    // The target tag was recorded as a 404
+    expect(vars.imageExists.exists).toBe(false);
   });
+});
 
-  // Import defaults from getVars.ts to use in tests
-  const {
-    DEFAULT_PGVECTOR_VERSION,
-    DEFAULT_BITNAMI_POSTGRES_VERSION,
-    DEFAULT_PG_SEARCH_VERSION,
-  } = getVarsModule;
+describe("createGetVarsDeps", () => {
+  test("runs the default git lookup in the given shell", async () => {
+    const shell = mock(() => ({
+      text: async () => "/home/user/bitnami-pgvector\n",
+    }));
+    const deps = createGetVarsDeps({ shell: shell as unknown as typeof $ });
+    expect(await deps.gitTopLevel()).toBe("/home/user/bitnami-pgvector");
+    expect(shell).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,284 +1,1549 @@
 #!/usr/bin/env bun
 import { $ } from "bun";
 import { Command } from "commander";
-
-interface DockerHubTag {
-  name: string;
-  last_updated: string;
-}
-
-interface DockerHubResponse {
-  results: DockerHubTag[];
-}
+import {
+  type CompatibilityReport,
+  checkCompatibility,
+  extractImageFacts,
+  formatCompatibilityReport,
+} from "./compatibility";
+import {
+  DEFAULT_CONFIG,
+  type ProjectConfig,
+  type UpstreamDefaults,
+  loadConfig,
+} from "./config";
+import {
+  EXIT_CODES,
+  MissingPgVersionError,
+  RegistryCheckError,
+  UpstreamResolutionError,
+  exitCodeFor,
+} from "./errors";
+import {
+  type ComponentExplanation,
+  type ResolutionExplanation,
+  explanationPath,
+  formatResolutionExplanation,
+} from "./explain";
+import { DEFAULT_LOCKFILE_PATH, readLockfile } from "./lockfile";
+import {
+  type OutputFormat,
+  type OutputVariables,
+  formatVariables,
+  parseOutputFormat,
+} from "./output";
+import {
+  DOCKER_HUB_REGISTRY,
+  createRegistryClient,
+  credentialsFromEnv,
+  parseImageReference,
+} from "./registry";
+import { DEFAULT_CACHE_DIR, createCachingFetch } from "./registry/cache";
+import { DEFAULT_MAX_PAGES } from "./registry/dockerHub";
+import { createFixtureFetch } from "./registry/fixtureServer";
+import { getImageConfig, getImageLabels } from "./registry/labels";
+import { DEFAULT_RETRIES, createRetryingFetch } from "./registry/retry";
+import {
+  intersectPlatforms,
+  listImagePlatforms,
+  missingPlatforms,
+  parsePlatformList,
+  platformIn,
+  platformMatches,
+} from "./registry/platforms";
+import {
+  type RegistryClient,
+  RegistryRequestError,
+  type RegistryTag,
+  type TagListQuery,
+} from "./registry/types";
+import {
+  type ImageComponents,
+  componentLabels,
+  componentsFromLabels,
+  findComponentRegression,
+} from "./tags/aliases";
+import {
+  formatPostgresVersion,
+  parseBitnamiTag,
+  rankBitnamiTags,
+} from "./tags/bitnami";
+import { parsePgvectorTag, rankPgvectorTags } from "./tags/pgvector";
+import {
+  CHANNEL_TAG_SUFFIXES,
+  type PgSearchChannel,
+  parseParadeDbTag,
+  parsePgSearchChannel,
+  rankParadeDbTags,
+} from "./tags/paradedb";
+import { type TagValues, renderImageTags } from "./tags/templates";
+import type { CandidateExplanation } from "./tags/types";
+import {
+  canonicalizeVersionHashInput,
+  computeVersionHash,
+  createVersionHashInput,
+} from "./version-hash";
 
 // Interface for the variables returned
 export interface ImageVars {
   bitnamiName: string;
+  /** Full PostgreSQL version from the Bitnami tag, e.g. "17.4.0"; the major version if the tag does not parse */
+  postgresVersion: string;
+  /** Bitnami image revision (the `-rN` suffix), null for floating or unparsable tags */
+  bitnamiRevision: number | null;
   pgvectorBaseVersion: string;
   pgSearchName: string;
   fullImageTag: string;
   tagShort: string;
   tagWithFullPostgresVersion: string;
   pgvectorBuilderTag: string;
-  imageExists: boolean;
+  imageExists: ImageExistence;
+  /** Platforms each upstream image provides and their intersection */
+  upstreamPlatforms: UpstreamPlatforms;
+  /** Requested platforms that every upstream image provides */
+  buildPlatforms: string[];
   repoName: string;
   tagLatestPg: string;
   versionHash: string;
   versionsHashTag: string;
+  pgSearchChannel: PgSearchChannel;
+  /** Manifest-list digests of the upstream tags, null if they could not be resolved */
+  bitnamiDigest: string | null;
+  pgvectorBuilderDigest: string | null;
+  pgSearchDigest: string | null;
+  /** Upstream references passed to the Dockerfile, "tag@sha256:..." when the digest is known */
+  bitnamiRef: string;
+  pgvectorBuilderRef: string;
+  pgSearchRef: string;
+  /** Every reference the image is published as, rendered from the tag templates */
+  tags: string[];
+  /** Rolling alias references that move forward with this build, also part of tags */
+  aliasTags: string[];
+  /** Image labels recording the upstream tags */
+  labels: Record<string, string>;
+  /** Whether the upstream images can be combined, null if the check was skipped */
+  compatibility: CompatibilityReport | null;
+  /** How the upstream tags were chosen */
+  resolution: ResolutionExplanation;
+}
+
+// Which of the requested platforms the published hash tag already provides
+export interface ImageExistence {
+  /** Whether the hash tag exists at all */
+  exists: boolean;
+  /** Presence of each requested platform, e.g. { "linux/amd64": true } */
+  platforms: Record<string, boolean>;
+  /** True only when every requested platform is present */
+  allPlatforms: boolean;
+}
+
+// Platforms provided by each upstream image, null where they could not be inspected
+export interface UpstreamPlatforms {
+  bitnami: string[] | null;
+  pgvector: string[] | null;
+  pgSearch: string[] | null;
+  /** Platforms every inspected upstream image provides, null if none could be inspected */
+  common: string[] | null;
+}
+
+// Options accepted by getVars
+export interface GetVarsOptions {
+  suppressExports?: boolean;
+  /** pg_search release channel, defaults to PG_SEARCH_CHANNEL or the configured channel */
+  channel?: PgSearchChannel;
+  /** Read upstream tags from the lockfile instead of the network */
+  frozen?: boolean;
+  /** Lockfile used in frozen mode, defaults to versions.lock.json */
+  lockfilePath?: string;
+  /** Dockerfile whose contents go into the version hash, defaults to the configured Dockerfile */
+  dockerfilePath?: string;
+  /** Platforms the image must provide, defaults to PLATFORMS or the configured platforms */
+  platforms?: string[];
+  /** Fail instead of falling back to default tags, defaults to STRICT_RESOLUTION */
+  strict?: boolean;
+  /** Continue when the upstream images are incompatible, defaults to ALLOW_INCOMPATIBLE */
+  allowIncompatible?: boolean;
+  /** Print the canonical version hash input document */
+  explainHash?: boolean;
+  /** Print every candidate tag of each upstream and why it was kept or rejected */
+  explain?: boolean;
+  /** Directory the resolution explanation is written to as resolution-pg<N>.json */
+  explainDir?: string;
+  /** Bypass the on-disk cache for upstream registry requests, defaults to REGISTRY_CACHE=off */
+  noCache?: boolean;
+  /** Print the variables to stdout in this format instead of writing GITHUB_OUTPUT or shell exports */
+  format?: OutputFormat;
+  /** Registry the image is published to, defaults to REGISTRY or the configured registry */
+  registry?: string;
+  /** Repository name the image is published as, defaults to REPO_NAME, the configured name or the git checkout name */
+  repoName?: string;
+  /** Upstream versions to build instead of the newest ones */
+  pins?: ComponentPins;
+  /** Project configuration, defaults to pgvector.config.json */
+  config?: ProjectConfig;
+  /** Client for the upstream images, defaults to UPSTREAM_REGISTRY or Docker Hub */
+  upstreamClient?: RegistryClient;
+  /** Client for the registry images are published to, defaults to REGISTRY */
+  targetClient?: RegistryClient;
+}
+
+// An upstream image tag together with the digest it pointed to when resolved
+export interface ResolvedImage {
+  tag: string;
+  digest: string | null;
+}
+
+// The upstream images a build for one PostgreSQL major is made from
+export interface ResolvedComponents {
+  bitnami: ResolvedImage;
+  /** pgvector builder image, tagged "<version>-pg<major>" */
+  pgvector: ResolvedImage;
+  pgvectorVersion: string;
+  pgSearch: ResolvedImage;
+  pgSearchChannel: PgSearchChannel;
+}
+
+// Upstream versions to use instead of the newest published ones
+export interface ComponentPins {
+  /** Bitnami tag, e.g. "17.4.0-debian-12-r17" */
+  bitnami?: string;
+  /** pgvector version, e.g. "0.8.0"; defaults to PGVECTOR_VERSION */
+  pgvector?: string;
+  /** pg_search version or ParadeDB tag, e.g. "0.15.18" or "0.15.18-pg17" */
+  pgSearch?: string;
 }
 
 // Default values
-export const DEFAULT_PGVECTOR_VERSION = "0.8.0"; // Base version, will append -pgX
-export const DEFAULT_BITNAMI_POSTGRES_VERSION = "17.2.0-debian-12-r1"; // Example, adjust as needed
-export const DEFAULT_PG_SEARCH_VERSION = "latest"; // Example stable version
+// Built-in defaults, overridden by pgvector.config.json
+export const DEFAULT_PGVECTOR_VERSION = DEFAULT_CONFIG.upstreamDefaults.pgvector; // Will append -pgX
+export const DEFAULT_BITNAMI_POSTGRES_VERSION = DEFAULT_CONFIG.upstreamDefaults.bitnami;
+export const DEFAULT_PG_SEARCH_VERSION = DEFAULT_CONFIG.upstreamDefaults.pgSearch; // Never a floating tag
+export const DEFAULT_PLATFORMS = DEFAULT_CONFIG.platforms;
 
-async function fetchLatestBitnamiTag(
-  pgMajorVersion: string
+const BITNAMI_REPOSITORY = "bitnami/postgresql";
+const PGVECTOR_REPOSITORY = "pgvector/pgvector";
+const PARADEDB_REPOSITORY = "paradedb/paradedb";
+
+/**
+ * Formats an upstream image as "tag@sha256:..." so the build is pinned to the
+ * resolved manifest, falling back to the mutable tag when the digest is unknown
+ */
+export function pinnedReference(image: ResolvedImage): string {
+  return image.digest ? `${image.tag}@${image.digest}` : image.tag;
+}
+
+/**
+ * Writes the progress messages and warnings of getVars
+ */
+export type GetVarsLogger = Pick<Console, "log" | "warn" | "error">;
+
+/**
+ * Everything getVars reads from or does to the outside world apart from the
+ * Dockerfile, the lockfile and its outputs. The defaults use the network,
+ * Bun.env and the console; tests pass their own.
+ */
+export interface GetVarsDeps {
+  /** Fetch implementation for every registry request */
+  fetch: typeof fetch;
+  /** Shell the git lookup runs in, like runBuild's shellExecutor */
+  shell: typeof $;
+  /** Root directory of the git checkout, whose name is the default repository name */
+  gitTopLevel: () => Promise<string>;
+  /** Environment variables, read instead of Bun.env */
+  env: Record<string, string | undefined>;
+  logger: GetVarsLogger;
+  /** Clock of the registry response cache */
+  now: () => number;
+}
+
+/**
+ * Fills in the default for every dependency that is not overridden. The
+ * default git lookup runs in the given shell.
+ */
+export function createGetVarsDeps(
+  overrides: Partial<GetVarsDeps> = {}
+): GetVarsDeps {
+  const shell = overrides.shell ?? $;
+  return {
+    fetch,
+    shell,
+    gitTopLevel: async () =>
+      (await shell`git rev-parse --show-toplevel`.text()).trim(),
+    env: Bun.env,
+    logger: console,
+    now: Date.now,
+    ...overrides,
+  };
+}
+
+const defaultDeps = createGetVarsDeps();
+
+/**
+ * Dependencies whose upstream registry requests bypass the on-disk cache,
+ * as with REGISTRY_CACHE=off; used by the `--no-cache` flags
+ */
+export function withoutRegistryCache(
+  deps: GetVarsDeps = defaultDeps
+): GetVarsDeps {
+  return { ...deps, env: { ...deps.env, REGISTRY_CACHE: "off" } };
+}
+
+// Clients are shared between calls with the same dependencies so registry tokens are reused
+const registryClients = new WeakMap<GetVarsDeps, Map<string, RegistryClient>>();
+
+/**
+ * Returns the shared client for a registry, creating it on first use. With
+ * REGISTRY_FIXTURES_URL set, requests go to that fixture server instead and
+ * bypass the on-disk cache.
+ * @param registry Registry host or base URL
+ * @param credentialVariables Environment variables holding the username and password
+ * @param cache Serve repeated requests from the on-disk cache
+ */
+function getRegistryClient(
+  deps: GetVarsDeps,
+  registry: string,
+  credentialVariables?: [string, string],
+  cache = false
+): RegistryClient {
+  const { env } = deps;
+  const fixturesUrl = env.REGISTRY_FIXTURES_URL;
+  const useCache = cache && !fixturesUrl;
+  const key = useCache ? `${registry} (cached)` : registry;
+  let clients = registryClients.get(deps);
+  if (!clients) {
+    clients = new Map();
+    registryClients.set(deps, clients);
+  }
+  let client = clients.get(key);
+  if (!client) {
+    // Rate limits (429) and transient failures are retried with backoff
+    const retryingFetch = createRetryingFetch({
+      retries: getMaxRetries(env),
+      logger: deps.logger,
+      fetchFn: fixturesUrl
+        ? createFixtureFetch(fixturesUrl, deps.fetch)
+        : deps.fetch,
+    });
+    const credentials =
+      credentialVariables && credentialsFromEnv(...credentialVariables, env);
+    client = createRegistryClient(registry, {
+      credentials,
+      logger: deps.logger,
+      fetchFn: useCache
+        ? createCachingFetch({
+            dir: env.REGISTRY_CACHE_DIR ?? DEFAULT_CACHE_DIR,
+            ttlMs: getCacheTtlMs(env),
+            credentials,
+            fetchFn: retryingFetch,
+            now: deps.now,
+          })
+        : retryingFetch,
+    });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Client for the upstream Bitnami, pgvector and ParadeDB images. Set
+ * UPSTREAM_REGISTRY to resolve them from a mirror instead of Docker Hub.
+ * Docker Hub requests are authenticated with DOCKERHUB_USERNAME and
+ * DOCKERHUB_TOKEN when set, which raises the rate limit. Responses are
+ * cached on disk unless `cache` is false.
+ */
+function getUpstreamClient(
+  deps: GetVarsDeps,
+  cache: boolean = isCacheEnabledFromEnv(deps.env)
+): RegistryClient {
+  const registry = deps.env.UPSTREAM_REGISTRY ?? DOCKER_HUB_REGISTRY;
+  return getRegistryClient(
+    deps,
+    registry,
+    registry === DOCKER_HUB_REGISTRY
+      ? ["DOCKERHUB_USERNAME", "DOCKERHUB_TOKEN"]
+      : ["UPSTREAM_REGISTRY_USERNAME", "UPSTREAM_REGISTRY_PASSWORD"],
+    cache
+  );
+}
+
+/**
+ * Whether upstream responses may be cached on disk; REGISTRY_CACHE=off disables it
+ */
+function isCacheEnabledFromEnv(env: GetVarsDeps["env"]): boolean {
+  return !["0", "false", "off"].includes((env.REGISTRY_CACHE ?? "").toLowerCase());
+}
+
+/**
+ * How long cached upstream responses are used without revalidation,
+ * from REGISTRY_CACHE_TTL in seconds
+ */
+function getCacheTtlMs(env: GetVarsDeps["env"]): number | undefined {
+  const parsed = Number.parseInt(env.REGISTRY_CACHE_TTL ?? "", 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed * 1000;
+}
+
+/**
+ * Number of retries for failed or rate-limited registry requests
+ */
+function getMaxRetries(env: GetVarsDeps["env"]): number {
+  const parsed = Number.parseInt(env.REGISTRY_RETRIES ?? "", 10);
+  return Number.isNaN(parsed) || parsed < 0 ? DEFAULT_RETRIES : parsed;
+}
+
+/**
+ * Whether STRICT_RESOLUTION asks to fail instead of falling back to default tags
+ */
+function isStrictFromEnv(env: GetVarsDeps["env"]): boolean {
+  return ["1", "true"].includes((env.STRICT_RESOLUTION ?? "").toLowerCase());
+}
+
+/**
+ * Whether ALLOW_INCOMPATIBLE asks to continue with incompatible upstream images
+ */
+function isIncompatibleAllowedFromEnv(env: GetVarsDeps["env"]): boolean {
+  return ["1", "true"].includes((env.ALLOW_INCOMPATIBLE ?? "").toLowerCase());
+}
+
+/**
+ * Warns about falling back to a default tag, or throws in strict mode
+ * @throws UpstreamResolutionError in strict mode
+ */
+function fallBackToDefault(
+  strict: boolean,
+  problem: string,
+  defaultTag: string,
+  logger: GetVarsLogger
+): void {
+  if (strict) {
+    throw new UpstreamResolutionError(
+      `${problem} Strict mode is enabled, refusing to fall back to the default ${defaultTag}.`
+    );
+  }
+  logger.warn(`Warning: ${problem} Using default: ${defaultTag}`);
+}
+
+/**
+ * Maximum number of tag pages to scan per upstream repository
+ */
+function getMaxTagPages(env: GetVarsDeps["env"]): number {
+  const parsed = Number.parseInt(env.DOCKERHUB_MAX_PAGES ?? "", 10);
+  return Number.isNaN(parsed) || parsed < 1 ? DEFAULT_MAX_PAGES : parsed;
+}
+
+/**
+ * Resolves the digest of a single tag from its manifest (list)
+ */
+async function lookupDigest(
+  client: RegistryClient,
+  repository: string,
+  tag: string,
+  logger: GetVarsLogger
 ): Promise<string | null> {
-  const bitnamiRepo = "bitnami/postgresql";
+  try {
+    const descriptor = await client.headManifest(repository, tag);
+    if (!descriptor) {
+      logger.warn(`No manifest found for ${repository}:${tag}.`);
+      return null;
+    }
+    return descriptor.digest;
+  } catch (error) {
+    logger.warn(`Could not look up digest for ${repository}:${tag}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Uses the digest the tag listing reported, if any (Docker Hub does),
+ * and falls back to resolving the tag's manifest
+ */
+async function digestOf(
+  client: RegistryClient,
+  repository: string,
+  tags: RegistryTag[],
+  name: string,
+  logger: GetVarsLogger
+): Promise<string | null> {
+  return (
+    tags.find((tag) => tag.name === name)?.digest ??
+    (await lookupDigest(client, repository, name, logger))
+  );
+}
+
+/**
+ * Outcome of selecting the newest tag of an upstream from its tag listing
+ */
+interface TagResolution {
+  /** The selected tag, null if no listed tag qualified or listing failed */
+  image: ResolvedImage | null;
+  /** Every listed tag and why it was kept or rejected */
+  candidates: CandidateExplanation[];
+  /** Why no tag was selected */
+  problem: string | null;
+}
+
+async function fetchLatestBitnamiTag(
+  client: RegistryClient,
+  pgMajorVersion: string,
+  { env, logger }: GetVarsDeps
+): Promise<TagResolution> {
+  const maxPages = getMaxTagPages(env);
+  const bitnamiRepo = BITNAMI_REPOSITORY;
   const tagPrefix = `${pgMajorVersion}.`;
-  // Using v2 API, filtering server-side might not be perfect, doing client-side filtering too
-  const url = `https://hub.docker.com/v2/repositories/${bitnamiRepo}/tags/?page_size=100&name=${tagPrefix}`;
+  // Name filtering is server-side on Docker Hub only, doing client-side filtering too
+  const query = { name: tagPrefix, maxPages };
 
   try {
-    console.log(
-      `Fetching latest Bitnami tag for PostgreSQL ${pgMajorVersion} from ${url}...`
+    logger.log(
+      `Fetching latest Bitnami tag for PostgreSQL ${pgMajorVersion} from ${client.registry}/${bitnamiRepo}...`
     );
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.warn(
-        `Failed to fetch tags from Docker Hub: ${response.statusText}`
-      );
-      return null;
-    }
-    const data = (await response.json()) as DockerHubResponse;
+    const tags = await client.listTags(bitnamiRepo, query);
+    logger.log(`Scanned ${tags.length} Bitnami tags.`);
 
-    const debianTags = data.results
-      .filter(
-        (tag) => tag.name.startsWith(tagPrefix) && tag.name.includes("-debian-")
-      )
-      // Simple version sort might be needed if last_updated isn't reliable
-      .sort(
-        (a, b) =>
-          new Date(b.last_updated).getTime() -
-          new Date(a.last_updated).getTime()
-      );
+    // Order by PostgreSQL version, Debian release and -rN revision;
+    // last_updated only breaks ties
+    const { selected: latestTag, candidates } = rankBitnamiTags(
+      tags,
+      Number.parseInt(pgMajorVersion, 10)
+    );
 
-    if (debianTags.length > 0) {
-      console.log(`Latest Bitnami tag found: ${debianTags[0]?.name}`);
-      return debianTags[0]?.name ?? null;
+    if (latestTag) {
+      logger.log(`Latest Bitnami tag found: ${latestTag.raw}`);
+      return {
+        image: {
+          tag: latestTag.raw,
+          digest: await digestOf(client, bitnamiRepo, tags, latestTag.raw, logger),
+        },
+        candidates,
+        problem: null,
+      };
     }
-    console.warn(`No matching Debian tags found for prefix ${tagPrefix}.`);
-    return null;
+    const problem = `No matching Debian tags found for prefix ${tagPrefix}.`;
+    logger.warn(problem);
+    return { image: null, candidates, problem };
   } catch (error) {
-    console.error(`Error fetching or parsing Docker Hub tags: ${error}`);
-    return null;
+    if (error instanceof RegistryRequestError) {
+      const problem = `Failed to fetch tags from ${client.registry}: ${error.statusText}`;
+      logger.warn(problem);
+      return { image: null, candidates: [], problem };
+    }
+    logger.error(`Error fetching or parsing Bitnami tags: ${error}`);
+    return { image: null, candidates: [], problem: String(error) };
   }
 }
 
 async function fetchLatestPgSearchTag(
-  pgMajorVersion: string
-): Promise<string | null> {
-  const paradeDbRepo = "paradedb/paradedb";
+  client: RegistryClient,
+  pgMajorVersion: string,
+  channel: PgSearchChannel,
+  { env, logger }: GetVarsDeps
+): Promise<TagResolution> {
+  const maxPages = getMaxTagPages(env);
+  const paradeDbRepo = PARADEDB_REPOSITORY;
   // Construct tag suffix like "-pg16", "-pg17"
   const tagSuffix = `-pg${pgMajorVersion}`;
-  // Fetch more tags and filter client-side
-  const url = `https://hub.docker.com/v2/repositories/${paradeDbRepo}/tags/?page_size=100&ordering=last_updated&name=-pg${pgMajorVersion}`;
+  // Fetch every page and filter client-side; the latest channel only needs
+  // the floating latest-pgN tag, so listing stops once it shows up
+  const floatingTag = `latest${tagSuffix}`;
+  const query: TagListQuery = {
+    ordering: "last_updated",
+    name: tagSuffix,
+    maxPages,
+    until: channel === "latest" ? (tag) => tag.name === floatingTag : undefined,
+  };
 
   try {
-    console.log(
-      `Fetching latest ParadeDB tags for PG ${pgMajorVersion} from ${url}...`
+    logger.log(
+      `Fetching latest ParadeDB tags for PG ${pgMajorVersion} (${channel} channel) from ${client.registry}/${paradeDbRepo}...`
+    );
+    const tags = await client.listTags(paradeDbRepo, query);
+    logger.log(`Scanned ${tags.length} ParadeDB tags.`);
+
+    const { selected: selectedTag, candidates } = rankParadeDbTags(
+      tags,
+      Number.parseInt(pgMajorVersion, 10),
+      channel
     );
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.warn(
-        `Failed to fetch ParadeDB tags from Docker Hub: ${response.statusText} (URL: ${url})`
+
+    if (selectedTag) {
+      logger.log(
+        `Latest ${channel} ParadeDB tag found: ${selectedTag.raw}`
       );
-      return null;
+      return {
+        image: {
+          tag: selectedTag.raw,
+          digest: await digestOf(client, paradeDbRepo, tags, selectedTag.raw, logger),
+        },
+        candidates,
+        problem: null,
+      };
+    }
+
+    const problem = `No ${channel} ParadeDB tags found ending with ${tagSuffix}.`;
+    logger.warn(problem);
+    return { image: null, candidates, problem };
+  } catch (error) {
+    if (error instanceof RegistryRequestError) {
+      const problem = `Failed to fetch ParadeDB tags from ${client.registry}: ${error.statusText} (URL: ${error.url})`;
+      logger.warn(problem);
+      return { image: null, candidates: [], problem };
     }
-    const data = (await response.json()) as DockerHubResponse;
+    logger.error(`Error fetching or parsing ParadeDB tags: ${error}`);
+    return { image: null, candidates: [], problem: String(error) };
+  }
+}
 
-    // Filter tags ending with the specific suffix first
-    const relevantTags = data.results.filter(tag => tag.name.endsWith(tagSuffix));
+async function fetchLatestPgvectorTag(
+  client: RegistryClient,
+  pgMajorVersion: string,
+  { env, logger }: GetVarsDeps
+): Promise<TagResolution> {
+  const maxPages = getMaxTagPages(env);
+  const pgvectorRepo = PGVECTOR_REPOSITORY;
+  const tagSuffix = `-pg${pgMajorVersion}`;
+  const query = {
+    ordering: "last_updated" as const,
+    name: tagSuffix,
+    maxPages,
+  };
+
+  try {
+    logger.log(
+      `Fetching latest pgvector tag for PG ${pgMajorVersion} from ${client.registry}/${pgvectorRepo}...`
+    );
+    const tags = await client.listTags(pgvectorRepo, query);
+    logger.log(`Scanned ${tags.length} pgvector tags.`);
 
-    // Find the latest stable versioned tag (semver like pattern, excluding -rc)
-    const versionedStableTag = relevantTags.find(
-      (tag) => /^\d+\.\d+\.\d+.*-pg\d+$/.test(tag.name) && !tag.name.includes("-rc")
+    const { selected: latestTag, candidates } = rankPgvectorTags(
+      tags,
+      Number.parseInt(pgMajorVersion, 10)
     );
 
-    if (versionedStableTag) {
-      console.log(`Latest stable versioned ParadeDB tag found: ${versionedStableTag.name}`);
-      return versionedStableTag.name;
+    if (latestTag) {
+      logger.log(`Latest pgvector tag found: ${latestTag.raw}`);
+      return {
+        image: {
+          tag: latestTag.raw,
+          digest: await digestOf(client, pgvectorRepo, tags, latestTag.raw, logger),
+        },
+        candidates,
+        problem: null,
+      };
+    }
+    const problem = `No versioned pgvector tags found ending with ${tagSuffix}.`;
+    logger.warn(problem);
+    return { image: null, candidates, problem };
+  } catch (error) {
+    if (error instanceof RegistryRequestError) {
+      const problem = `Failed to fetch pgvector tags from ${client.registry}: ${error.statusText} (URL: ${error.url})`;
+      logger.warn(problem);
+      return { image: null, candidates: [], problem };
     }
-    console.log(`No stable versioned ParadeDB tag found ending with ${tagSuffix}. Checking for 'latest' tag.`);
+    logger.error(`Error fetching or parsing pgvector tags: ${error}`);
+    return { image: null, candidates: [], problem: String(error) };
+  }
+}
 
-    // Fallback: Find the 'latest' tag for the PG version
-    const latestTag = relevantTags.find(tag => tag.name === `latest-pg${pgMajorVersion}`);
+/**
+ * ParadeDB tag of a pg_search pin; a bare version gets the "-pgN" suffix of
+ * the requested major version
+ */
+function pgSearchPinTag(pin: string, pgMajorVersion: string): string {
+  return /-pg\d+$/.test(pin) ? pin : `${pin}-pg${pgMajorVersion}`;
+}
 
-    if (latestTag) {
-        console.log(`Using fallback 'latest' ParadeDB tag: ${latestTag.name}`);
-        return latestTag.name;
+/**
+ * Resolves the Bitnami, pgvector and ParadeDB tags (and their digests) to
+ * build for a PostgreSQL major version from the upstream registries
+ * @param pins Upstream versions to use instead of the newest ones
+ * @param client Client for the upstream registry, defaults to the shared upstream client
+ * @param strict Fail instead of falling back, defaults to STRICT_RESOLUTION
+ * @param fallbacks Tags used when the newest one cannot be resolved
+ * @throws UpstreamResolutionError if a pinned Bitnami tag is for another PostgreSQL major version, or in strict mode when a tag cannot be determined
+ */
+export async function resolveComponents(
+  pgMajorVersion: string,
+  pgSearchChannel: PgSearchChannel = "stable",
+  upstreamClient?: RegistryClient,
+  strictResolution?: boolean,
+  pins: ComponentPins = {},
+  fallbacks: UpstreamDefaults = loadConfig().upstreamDefaults,
+  deps: GetVarsDeps = defaultDeps
+): Promise<ResolvedComponents> {
+  const { components } = await explainComponents(
+    pgMajorVersion,
+    pgSearchChannel,
+    upstreamClient,
+    strictResolution,
+    pins,
+    fallbacks,
+    deps
+  );
+  return components;
+}
+
+/**
+ * Resolves the components like resolveComponents, and explains how the tag
+ * of each was chosen
+ */
+async function explainComponents(
+  pgMajorVersion: string,
+  pgSearchChannel: PgSearchChannel,
+  upstreamClient: RegistryClient | undefined,
+  strictResolution: boolean | undefined,
+  pins: ComponentPins,
+  fallbacks: UpstreamDefaults,
+  deps: GetVarsDeps
+): Promise<{
+  components: ResolvedComponents;
+  explanation: ResolutionExplanation;
+}> {
+  const { env, logger } = deps;
+  const client = upstreamClient ?? getUpstreamClient(deps);
+  const strict = strictResolution ?? isStrictFromEnv(env);
+  const pinned = (repository: string, tag: string): ComponentExplanation => ({
+    repository,
+    source: "pin",
+    candidates: [],
+    problem: null,
+    selected: tag,
+  });
+  const listed = (
+    repository: string,
+    resolution: TagResolution,
+    tag: string
+  ): ComponentExplanation => ({
+    repository,
+    source: resolution.image ? "registry" : "fallback",
+    candidates: resolution.candidates,
+    problem: resolution.problem,
+    selected: tag,
+  });
+
+  let bitnami: ResolvedImage;
+  let bitnamiExplanation: ComponentExplanation;
+  if (pins.bitnami) {
+    if (!pins.bitnami.startsWith(`${pgMajorVersion}.`)) {
+      throw new UpstreamResolutionError(
+        `Pinned Bitnami tag '${pins.bitnami}' is not a PostgreSQL ${pgMajorVersion} tag.`
+      );
+    }
+    logger.log(`Using pinned Bitnami tag: ${pins.bitnami}`);
+    bitnami = {
+      tag: pins.bitnami,
+      digest: await lookupDigest(client, BITNAMI_REPOSITORY, pins.bitnami, logger),
+    };
+    bitnamiExplanation = pinned(BITNAMI_REPOSITORY, bitnami.tag);
+  } else {
+    const resolution = await fetchLatestBitnamiTag(
+      client,
+      pgMajorVersion,
+      deps
+    );
+    if (resolution.image) {
+      bitnami = resolution.image;
+    } else {
+      const problem = `Could not automatically determine the latest Bitnami tag for PG ${pgMajorVersion}.`;
+      // Bitnami tags carry the full PostgreSQL version, so each major needs its own default
+      const defaultTag = fallbacks.bitnami[pgMajorVersion];
+      if (!defaultTag) {
+        throw new UpstreamResolutionError(
+          `${problem} No default Bitnami tag is configured for PG ${pgMajorVersion} in upstreamDefaults.bitnami.`
+        );
+      }
+      fallBackToDefault(strict, problem, defaultTag, logger);
+      bitnami = {
+        tag: defaultTag,
+        digest: await lookupDigest(client, BITNAMI_REPOSITORY, defaultTag, logger),
+      };
     }
+    bitnamiExplanation = listed(BITNAMI_REPOSITORY, resolution, bitnami.tag);
+  }
 
-    console.warn(
-      `No stable versioned or 'latest' ParadeDB tags found ending with ${tagSuffix}.`
+  // A pin (or PGVECTOR_VERSION) fixes the version; otherwise follow pgvector releases
+  const pinnedPgvectorVersion = pins.pgvector ?? env.PGVECTOR_VERSION;
+  let pgvectorVersion: string;
+  let pgvector: ResolvedImage;
+  let pgvectorExplanation: ComponentExplanation;
+  if (pinnedPgvectorVersion) {
+    pgvectorVersion = pinnedPgvectorVersion;
+    logger.log(`Using pinned pgvector version: ${pgvectorVersion}`);
+    const tag = `${pgvectorVersion}-pg${pgMajorVersion}`; // Construct tag with PG version
+    pgvector = { tag, digest: await lookupDigest(client, PGVECTOR_REPOSITORY, tag, logger) };
+    pgvectorExplanation = pinned(PGVECTOR_REPOSITORY, tag);
+  } else {
+    const resolution = await fetchLatestPgvectorTag(
+      client,
+      pgMajorVersion,
+      deps
+    );
+    if (resolution.image) {
+      pgvector = resolution.image;
+      pgvectorVersion = resolution.image.tag.slice(0, -`-pg${pgMajorVersion}`.length);
+    } else {
+      fallBackToDefault(
+        strict,
+        `Could not automatically determine the latest pgvector version for PG ${pgMajorVersion}.`,
+        fallbacks.pgvector,
+        logger
+      );
+      pgvectorVersion = fallbacks.pgvector;
+      const tag = `${pgvectorVersion}-pg${pgMajorVersion}`;
+      pgvector = { tag, digest: await lookupDigest(client, PGVECTOR_REPOSITORY, tag, logger) };
+    }
+    pgvectorExplanation = listed(PGVECTOR_REPOSITORY, resolution, pgvector.tag);
+  }
+
+  // Fetch the latest ParadeDB tag on the requested channel
+  let pgSearch: ResolvedImage;
+  let pgSearchExplanation: ComponentExplanation;
+
+  if (pins.pgSearch) {
+    const tag = pgSearchPinTag(pins.pgSearch, pgMajorVersion);
+    logger.log(`Using pinned ParadeDB tag: ${tag}`);
+    pgSearch = { tag, digest: await lookupDigest(client, PARADEDB_REPOSITORY, tag, logger) };
+    pgSearchExplanation = pinned(PARADEDB_REPOSITORY, tag);
+  } else {
+    const resolution = await fetchLatestPgSearchTag(
+      client,
+      pgMajorVersion,
+      pgSearchChannel,
+      deps
+    );
+    if (resolution.image) {
+      pgSearch = resolution.image;
+    } else {
+      fallBackToDefault(
+        strict,
+        `Could not automatically determine the latest ${pgSearchChannel} ParadeDB tag for PG ${pgMajorVersion}.`,
+        `${fallbacks.pgSearch}-pg${pgMajorVersion}`,
+        logger
+      );
+      // Construct a plausible default tag name
+      const tag = `${fallbacks.pgSearch}-pg${pgMajorVersion}`;
+      pgSearch = { tag, digest: await lookupDigest(client, PARADEDB_REPOSITORY, tag, logger) };
+    }
+    pgSearchExplanation = listed(PARADEDB_REPOSITORY, resolution, pgSearch.tag);
+  }
+
+  return {
+    components: { bitnami, pgvector, pgvectorVersion, pgSearch, pgSearchChannel },
+    explanation: {
+      pgMajorVersion,
+      pgSearchChannel,
+      bitnami: bitnamiExplanation,
+      pgvector: pgvectorExplanation,
+      pgSearch: pgSearchExplanation,
+    },
+  };
+}
+
+/**
+ * Lists the platforms each upstream image provides and computes their
+ * intersection. Images that cannot be inspected are reported as null and
+ * left out of the intersection.
+ */
+export async function resolveUpstreamPlatforms(
+  components: ResolvedComponents,
+  upstreamClient?: RegistryClient,
+  deps: GetVarsDeps = defaultDeps
+): Promise<UpstreamPlatforms> {
+  const { logger } = deps;
+  const client = upstreamClient ?? getUpstreamClient(deps);
+  const inspect = async (
+    repository: string,
+    image: ResolvedImage
+  ): Promise<string[] | null> => {
+    try {
+      const platforms = await listImagePlatforms(
+        client,
+        repository,
+        image.digest ?? image.tag
+      );
+      if (!platforms) {
+        logger.warn(`No manifest or platform information found for ${repository}:${image.tag}, platforms unknown.`);
+      }
+      return platforms;
+    } catch (error) {
+      logger.warn(
+        `Could not list platforms of ${repository}:${image.tag}: ${error}`
+      );
+      return null;
+    }
+  };
+
+  const bitnami = await inspect(BITNAMI_REPOSITORY, components.bitnami);
+  const pgvector = await inspect(PGVECTOR_REPOSITORY, components.pgvector);
+  const pgSearch = await inspect(PARADEDB_REPOSITORY, components.pgSearch);
+  return {
+    bitnami,
+    pgvector,
+    pgSearch,
+    common: intersectPlatforms([bitnami, pgvector, pgSearch]),
+  };
+}
+
+/**
+ * Reads the config of each upstream image and checks that they agree on OS,
+ * PostgreSQL major version, Debian release and glibc. Images that cannot be
+ * inspected are reported with unknown facts.
+ */
+export async function checkComponentCompatibility(
+  components: ResolvedComponents,
+  pgMajorVersion: string,
+  upstreamClient?: RegistryClient,
+  deps: GetVarsDeps = defaultDeps
+): Promise<CompatibilityReport> {
+  const { logger } = deps;
+  const client = upstreamClient ?? getUpstreamClient(deps);
+  const inspect = async (repository: string, image: ResolvedImage) => {
+    try {
+      const config = await getImageConfig(
+        client,
+        repository,
+        image.digest ?? image.tag
+      );
+      if (!config) {
+        logger.warn(`No manifest found for ${repository}:${image.tag}, compatibility unknown.`);
+      }
+      return extractImageFacts(config ?? {});
+    } catch (error) {
+      logger.warn(
+        `Could not read the config of ${repository}:${image.tag}: ${error}`
+      );
+      return extractImageFacts({});
+    }
+  };
+
+  const [bitnami, pgvector, pgSearch] = await Promise.all([
+    inspect(BITNAMI_REPOSITORY, components.bitnami),
+    inspect(PGVECTOR_REPOSITORY, components.pgvector),
+    inspect(PARADEDB_REPOSITORY, components.pgSearch),
+  ]);
+  return checkCompatibility(
+    { bitnami, pgvector, pgSearch },
+    Number(pgMajorVersion)
+  );
+}
+
+/**
+ * Reads the upstream tags for a PostgreSQL major version from the lockfile
+ * without touching the network
+ * @throws UpstreamResolutionError if the lockfile has no entry for the version or it was resolved for another channel
+ */
+async function readLockedComponents(
+  pgMajorVersion: string,
+  pgSearchChannel: PgSearchChannel,
+  lockfilePath: string
+): Promise<ResolvedComponents> {
+  const lockfile = await readLockfile(lockfilePath);
+  const entry = lockfile.versions[pgMajorVersion];
+  if (!entry) {
+    throw new UpstreamResolutionError(
+      `${lockfilePath} has no entry for PostgreSQL ${pgMajorVersion}. Run 'bun run resolve --pg ${pgMajorVersion}' first.`
+    );
+  }
+  if (entry.pgSearchChannel !== pgSearchChannel) {
+    throw new UpstreamResolutionError(
+      `${lockfilePath} was resolved for the '${entry.pgSearchChannel}' pg_search channel, not '${pgSearchChannel}'. Run 'bun run resolve --pg ${pgMajorVersion} --channel ${pgSearchChannel}' first.`
     );
-    return null;
-  } catch (error) {
-    console.error(`Error fetching or parsing ParadeDB Docker Hub tags: ${error}`);
-    return null;
   }
+  const { resolvedAt: _resolvedAt, ...components } = entry;
+  return components;
+}
+
+/**
+ * Checks the pins (and PGVECTOR_VERSION) against the components read from
+ * the lockfile, so frozen mode never silently drops a pin
+ * @throws UpstreamResolutionError naming each pin that differs from the lockfile
+ */
+function checkPinsAgainstLockfile(
+  components: ResolvedComponents,
+  pins: ComponentPins,
+  pgMajorVersion: string,
+  lockfilePath: string,
+  env: GetVarsDeps["env"]
+): void {
+  const conflicts: string[] = [];
+  if (pins.bitnami && pins.bitnami !== components.bitnami.tag) {
+    conflicts.push(`Bitnami ${pins.bitnami} (locked: ${components.bitnami.tag})`);
+  }
+  const pgvectorVersion = pins.pgvector ?? env.PGVECTOR_VERSION;
+  if (pgvectorVersion && pgvectorVersion !== components.pgvectorVersion) {
+    conflicts.push(`pgvector ${pgvectorVersion} (locked: ${components.pgvectorVersion})`);
+  }
+  const pgSearchTag = pins.pgSearch && pgSearchPinTag(pins.pgSearch, pgMajorVersion);
+  if (pgSearchTag && pgSearchTag !== components.pgSearch.tag) {
+    conflicts.push(`pg_search ${pgSearchTag} (locked: ${components.pgSearch.tag})`);
+  }
+  if (conflicts.length > 0) {
+    throw new UpstreamResolutionError(
+      `Version pins conflict with ${lockfilePath} in frozen mode: ${conflicts.join(", ")}. Remove the pins or build without --frozen.`
+    );
+  }
+}
+
+/**
+ * Explains components read from the lockfile, which involve no selection
+ */
+function lockedExplanation(
+  components: ResolvedComponents,
+  pgMajorVersion: string
+): { components: ResolvedComponents; explanation: ResolutionExplanation } {
+  const locked = (repository: string, image: ResolvedImage) => ({
+    repository,
+    source: "lockfile" as const,
+    candidates: [],
+    problem: null,
+    selected: image.tag,
+  });
+  return {
+    components,
+    explanation: {
+      pgMajorVersion,
+      pgSearchChannel: components.pgSearchChannel,
+      bitnami: locked(BITNAMI_REPOSITORY, components.bitnami),
+      pgvector: locked(PGVECTOR_REPOSITORY, components.pgvector),
+      pgSearch: locked(PARADEDB_REPOSITORY, components.pgSearch),
+    },
+  };
+}
+
+/**
+ * Builds the per-platform existence result from the platforms an image provides
+ * @param available Platforms of the published image, null if it does not exist
+ * @param requested Platforms the build needs
+ */
+function toImageExistence(
+  available: string[] | null,
+  requested: string[]
+): ImageExistence {
+  const platforms = Object.fromEntries(
+    requested.map((platform) => [
+      platform,
+      (available ?? []).some((entry) => platformMatches(platform, entry)),
+    ])
+  );
+  return {
+    exists: available !== null,
+    platforms,
+    allPlatforms:
+      available !== null &&
+      requested.length > 0 &&
+      Object.values(platforms).every(Boolean),
+  };
 }
 
-export async function checkImageExists(tagToCheck: string): Promise<boolean> {
-  console.log(`Checking if image ${tagToCheck} exists in registry...`);
+/**
+ * Checks whether an image reference such as "ghcr.io/owner/repo:tag" exists
+ * and which of the requested platforms its manifest list provides
+ * @param platforms Platforms the image must provide
+ * @param client Client for the image's registry, defaults to a shared client
+ * authenticated with REGISTRY_USERNAME and REGISTRY_PASSWORD
+ * @throws RegistryCheckError if the registry cannot be queried; a missing
+ * image, or one that does not report its platforms, is reported as not existing
+ */
+export async function checkImageExists(
+  tagToCheck: string,
+  platforms: string[] = DEFAULT_PLATFORMS,
+  client?: RegistryClient,
+  deps: GetVarsDeps = defaultDeps
+): Promise<ImageExistence> {
+  const { logger } = deps;
+  logger.log(`Checking if image ${tagToCheck} exists in registry...`);
   try {
-    // Use Bun Shell to run docker manifest inspect
-    const result = await $`docker manifest inspect ${tagToCheck}`
-      .quiet()
-      .nothrow();
-
-    // Check exit code to determine if the image exists
-    if (result.exitCode === 0) {
-      console.log(`Image ${tagToCheck} found in registry.`);
-      return true;
+    const { registry, repository, reference } = parseImageReference(tagToCheck);
+    const registryClient =
+      client ??
+      getRegistryClient(deps, registry, [
+        "REGISTRY_USERNAME",
+        "REGISTRY_PASSWORD",
+      ]);
+    const available = await listImagePlatforms(
+      registryClient,
+      repository,
+      reference
+    );
+    const existence = toImageExistence(available, platforms);
+
+    if (!existence.exists) {
+      logger.log(`Image ${tagToCheck} not found in registry.`);
+    } else if (existence.allPlatforms) {
+      logger.log(
+        `Image ${tagToCheck} found in registry with all requested platforms (${platforms.join(", ")}).`
+      );
+    } else {
+      logger.log(
+        `Image ${tagToCheck} found in registry, but missing platform(s): ${missingPlatforms(existence.platforms).join(", ")} (available: ${available?.join(", ") || "none"}).`
+      );
     }
-    console.log(
-      `Image ${tagToCheck} not found in registry (exit code: ${result.exitCode}).`
+    return existence;
+  } catch (error: unknown) {
+    throw new RegistryCheckError(
+      tagToCheck,
+      `Could not check whether ${tagToCheck} exists in the registry: ${error instanceof Error ? error.message : error}`,
+      { cause: error }
     );
-    return false;
+  }
+}
+
+/**
+ * Reads the upstream tags a published image was built from out of its labels
+ * @param client Client for the image's registry, defaults to a shared client
+ * authenticated with REGISTRY_USERNAME and REGISTRY_PASSWORD
+ * @returns The tags (empty for images published without the labels), or
+ * null if the image does not exist
+ * @throws RegistryCheckError if the registry cannot be queried
+ */
+export async function readPublishedComponents(
+  imageReference: string,
+  client?: RegistryClient,
+  deps: GetVarsDeps = defaultDeps
+): Promise<Partial<ImageComponents> | null> {
+  const { logger } = deps;
+  logger.log(`Reading upstream versions of ${imageReference}...`);
+  try {
+    const { registry, repository, reference } = parseImageReference(imageReference);
+    const registryClient =
+      client ??
+      getRegistryClient(deps, registry, [
+        "REGISTRY_USERNAME",
+        "REGISTRY_PASSWORD",
+      ]);
+    const labels = await getImageLabels(registryClient, repository, reference);
+    return labels && componentsFromLabels(labels);
   } catch (error: unknown) {
-    // This should rarely happen with nothrow(), but handle it just in case
-    console.error(
-      `Error checking image existence for ${tagToCheck}: ${error}`
+    throw new RegistryCheckError(
+      imageReference,
+      `Could not read the labels of ${imageReference}: ${error instanceof Error ? error.message : error}`,
+      { cause: error }
     );
-    return false;
   }
 }
 
+/**
+ * Keeps the alias tags that do not move backwards. The image each alias
+ * currently points at is compared through its labels with the upstream
+ * tags being built; an alias that cannot be inspected is left unchanged.
+ * @param client Client for the image's registry, defaults to a shared client
+ * authenticated with REGISTRY_USERNAME and REGISTRY_PASSWORD
+ * @returns The aliases to publish
+ */
+export async function resolveAliasTags(
+  aliasTags: string[],
+  components: ImageComponents,
+  client?: RegistryClient,
+  deps: GetVarsDeps = defaultDeps
+): Promise<string[]> {
+  const { logger } = deps;
+  const results = await Promise.all(
+    aliasTags.map(async (aliasTag) => {
+      try {
+        const { registry, repository, reference } = parseImageReference(aliasTag);
+        const registryClient =
+          client ??
+          getRegistryClient(deps, registry, [
+        "REGISTRY_USERNAME",
+        "REGISTRY_PASSWORD",
+      ]);
+        const labels = await getImageLabels(registryClient, repository, reference);
+        if (!labels) {
+          logger.log(`Alias ${aliasTag} does not exist yet.`);
+          return aliasTag;
+        }
+        const regression = findComponentRegression(
+          componentsFromLabels(labels),
+          components
+        );
+        if (regression) {
+          logger.warn(`Warning: Not moving alias ${aliasTag} backwards: ${regression}.`);
+          return null;
+        }
+        return aliasTag;
+      } catch (error: unknown) {
+        logger.warn(
+          `Warning: Could not inspect alias ${aliasTag}, leaving it unchanged: ${error}`
+        );
+        return null;
+      }
+    })
+  );
+  return results.filter((tag): tag is string => tag !== null);
+}
+
+/**
+ * Formats labels as one "key=value" per line, as docker/build-push-action expects
+ */
+function labelLines(labels: Record<string, string>): string {
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}=${value}`)
+    .join("\n");
+}
+
+/**
+ * The variables getVars publishes, keyed by their environment variable
+ * name. Every output format is generated from this one list.
+ */
+export function outputVariables(vars: ImageVars): OutputVariables {
+  return {
+    BITNAMI_NAME: vars.bitnamiName,
+    POSTGRES_VERSION: vars.postgresVersion,
+    PGVECTOR_BASE_VERSION: vars.pgvectorBaseVersion,
+    PG_SEARCH_NAME: vars.pgSearchName,
+    PGVECTOR_BUILDER_TAG: vars.pgvectorBuilderTag,
+    FULL_IMAGE_TAG: vars.fullImageTag,
+    TAG_SHORT: vars.tagShort,
+    TAG_WITH_FULL_POSTGRES_VERSION: vars.tagWithFullPostgresVersion,
+    TAG_LATEST_PG: vars.tagLatestPg,
+    ALIAS_TAGS: vars.aliasTags.join(","),
+    REPO_NAME: vars.repoName,
+    // IMAGE_EXISTS is only true when every requested platform is present
+    IMAGE_EXISTS: String(vars.imageExists.allPlatforms),
+    UPSTREAM_PLATFORMS: vars.upstreamPlatforms.common?.join(",") ?? "",
+    BUILD_PLATFORMS: vars.buildPlatforms.join(","),
+    IMAGE_MISSING_PLATFORMS: missingPlatforms(vars.imageExists.platforms).join(","),
+    VERSION_HASH: vars.versionHash,
+    VERSIONS_HASH_TAG: vars.versionsHashTag,
+    IMAGE_TAGS: vars.tags.join(","),
+    IMAGE_LABELS: labelLines(vars.labels),
+    PG_SEARCH_CHANNEL: vars.pgSearchChannel,
+    BITNAMI_DIGEST: vars.bitnamiDigest ?? "",
+    PGVECTOR_BUILDER_DIGEST: vars.pgvectorBuilderDigest ?? "",
+    PG_SEARCH_DIGEST: vars.pgSearchDigest ?? "",
+    BITNAMI_REF: vars.bitnamiRef,
+    PGVECTOR_BUILDER_REF: vars.pgvectorBuilderRef,
+    PG_SEARCH_REF: vars.pgSearchRef,
+  };
+}
+
+/**
+ * Repository name images are published as: the option, REPO_NAME, the
+ * configured name, or the name of the git checkout
+ */
+async function resolveRepoName(
+  repoNameOption: string | undefined,
+  config: ProjectConfig,
+  deps: GetVarsDeps
+): Promise<string> {
+  if (repoNameOption) return repoNameOption;
+  if (deps.env.REPO_NAME) return deps.env.REPO_NAME;
+  if (config.repoName) return config.repoName;
+  // Only ask git when nothing names the repository
+  try {
+    const repoRoot = await deps.gitTopLevel();
+    return repoRoot.split("/").pop() || "unknown-repo";
+  } catch {
+    deps.logger.warn("Could not determine repo name from git, using default");
+    return "bitnami-pgvector";
+  }
+}
+
+/**
+ * Values the tag templates are rendered with, except the version hash. Tags
+ * that do not follow the upstream schemes fall back to the full value.
+ */
+function imageTagValues(
+  pgMajorVersion: string,
+  components: ResolvedComponents
+): Omit<TagValues, "hash"> {
+  const bitnamiName = components.bitnami.tag;
+  const pgvectorVersion = components.pgvectorVersion;
+  const pgSearchName = components.pgSearch.tag;
+  const bitnamiTag = parseBitnamiTag(bitnamiName);
+  const bitnamiRevision = bitnamiTag?.revision ?? null;
+  const pgvectorTag = parsePgvectorTag(components.pgvector.tag);
+  const pgSearchVersion = parseParadeDbTag(pgSearchName)?.version;
+  const pgSearchBase = pgSearchName.replace(/-pg\d+$/, "");
+  return {
+    pgvector: pgvectorVersion,
+    pgvectorMinor: pgvectorTag
+      ? `${pgvectorTag.major}.${pgvectorTag.minor}`
+      : pgvectorVersion,
+    pgvectorMajor: pgvectorTag ? String(pgvectorTag.major) : pgvectorVersion,
+    pg: pgMajorVersion,
+    pgMinor: bitnamiTag ? `${bitnamiTag.major}.${bitnamiTag.minor}` : pgMajorVersion,
+    pgFull: bitnamiTag ? formatPostgresVersion(bitnamiTag) : pgMajorVersion,
+    bitnami: bitnamiName,
+    revision: bitnamiRevision === null ? "" : `-r${bitnamiRevision}`,
+    pgsearch: pgSearchBase,
+    pgsearchMinor: pgSearchVersion
+      ? `${pgSearchVersion.major}.${pgSearchVersion.minor}`
+      : pgSearchBase,
+    // Non-stable pg_search channels publish a parallel image line with its own suffix
+    channel: CHANNEL_TAG_SUFFIXES[components.pgSearchChannel],
+  };
+}
+
+/**
+ * Renders the `latest-pgN` reference the components are published as,
+ * without hashing the build inputs or querying the target registry
+ * @param config Project config with the registry and tag templates
+ */
+export async function renderLatestImageReference(
+  pgMajorVersion: string,
+  components: ResolvedComponents,
+  config: ProjectConfig,
+  deps: GetVarsDeps = defaultDeps
+): Promise<string> {
+  const registry = deps.env.REGISTRY ?? config.registry;
+  const repoName = await resolveRepoName(undefined, config, deps);
+  return renderImageTags(
+    config.tags,
+    { ...imageTagValues(pgMajorVersion, components), hash: "" },
+    `${registry}/${repoName}`
+  ).tagLatestPg;
+}
+
+/**
+ * Resolves the upstream images and the tags, labels and platforms of the image
+ * to build. Failures are thrown, never turned into process exits, so the
+ * function can be embedded; the CLIs map them to exit codes with exitCodeFor.
+ * @param pgMajorVersionInput PostgreSQL major version, defaults to PG_MAJOR_VERSION
+ * @param deps Network, shell, environment and logging, see GetVarsDeps
+ * @throws MissingPgVersionError if no PostgreSQL major version is given
+ * @throws UpstreamResolutionError if the upstream images cannot be determined or are incompatible
+ * @throws RegistryCheckError if the target registry cannot be queried
+ */
 export async function getVars(
   pgMajorVersionInput?: string,
-  options?: { suppressExports?: boolean }
+  options?: GetVarsOptions,
+  deps: GetVarsDeps = defaultDeps
 ): Promise<ImageVars> {
-  const pgMajorVersion = pgMajorVersionInput ?? Bun.env.PG_MAJOR_VERSION;
+  const { env, logger } = deps;
+  const pgMajorVersion = pgMajorVersionInput ?? env.PG_MAJOR_VERSION;
   const suppressExports = options?.suppressExports ?? false;
-  const isTest = process.env.NODE_ENV === 'test';
+  const config = options?.config ?? loadConfig(undefined, env);
+  const pgSearchChannel =
+    options?.channel ??
+    parsePgSearchChannel(env.PG_SEARCH_CHANNEL ?? config.pgSearchChannel);
+  const frozen = options?.frozen ?? false;
+  const lockfilePath = options?.lockfilePath ?? DEFAULT_LOCKFILE_PATH;
+  const platforms =
+    options?.platforms ??
+    (env.PLATFORMS ? parsePlatformList(env.PLATFORMS) : config.platforms);
 
   if (!pgMajorVersion) {
-    console.error(
-      "Error: PG_MAJOR_VERSION environment variable is not set and no argument provided."
+    throw new MissingPgVersionError();
+  }
+
+  const pins = options?.pins ?? {};
+  if (frozen) {
+    logger.log(`Frozen mode: reading upstream versions from ${lockfilePath}.`);
+  }
+  const upstreamClient =
+    options?.upstreamClient ??
+    getUpstreamClient(deps, !options?.noCache && isCacheEnabledFromEnv(env));
+  const { components, explanation: resolution } = frozen
+    ? lockedExplanation(
+        await readLockedComponents(pgMajorVersion, pgSearchChannel, lockfilePath),
+        pgMajorVersion
+      )
+    : await explainComponents(
+        pgMajorVersion,
+        pgSearchChannel,
+        upstreamClient,
+        options?.strict,
+        pins,
+        config.upstreamDefaults,
+        deps
+      );
+  if (frozen) {
+    // Pins matching the lockfile are accepted, conflicting ones are refused
+    checkPinsAgainstLockfile(components, pins, pgMajorVersion, lockfilePath, env);
+  }
+  if (options?.explain) {
+    logger.log(formatResolutionExplanation(resolution));
+  }
+  if (options?.explainDir) {
+    await Bun.write(
+      explanationPath(options.explainDir, pgMajorVersion),
+      `${JSON.stringify(resolution, null, 2)}\n`
     );
-    process.exit(1);
   }
 
-  let bitnamiName: string;
-  // In test mode, always use the mock values from the mock getVars implementation
-  if (isTest && pgMajorVersion.match(/^\d+$/)) {
-    bitnamiName = `mock-bitnami-pg${pgMajorVersion}`;
-  } else {
-    const latestBitnamiTag = await fetchLatestBitnamiTag(pgMajorVersion);
-    if (latestBitnamiTag) {
-      bitnamiName = latestBitnamiTag;
-    } else {
-      console.warn(
-        `Warning: Could not automatically determine the latest Bitnami tag for PG ${pgMajorVersion}. Using default: ${DEFAULT_BITNAMI_POSTGRES_VERSION}`
+  const bitnamiName = components.bitnami.tag;
+  const pgvectorBaseVersion = components.pgvectorVersion;
+  const pgvectorBuilderTag = components.pgvector.tag;
+  const pgSearchName = components.pgSearch.tag;
+  const bitnamiRef = pinnedReference(components.bitnami);
+  const pgvectorBuilderRef = pinnedReference(components.pgvector);
+  const pgSearchRef = pinnedReference(components.pgSearch);
+
+  for (const [repository, image] of [
+    [BITNAMI_REPOSITORY, components.bitnami],
+    [PGVECTOR_REPOSITORY, components.pgvector],
+    [PARADEDB_REPOSITORY, components.pgSearch],
+  ] as const) {
+    if (!image.digest) {
+      logger.warn(
+        `Warning: No digest resolved for ${repository}:${image.tag}, the build will use the mutable tag.`
       );
-      bitnamiName = DEFAULT_BITNAMI_POSTGRES_VERSION;
     }
   }
 
-  const pgvectorBaseVersion = Bun.env.PGVECTOR_VERSION ?? DEFAULT_PGVECTOR_VERSION;
-  const pgvectorBuilderTag = `${pgvectorBaseVersion}-pg${pgMajorVersion}`; // Construct tag with PG version
+  const registry = options?.registry ?? env.REGISTRY ?? config.registry;
+  const repoName = await resolveRepoName(options?.repoName, config, deps);
+
+  logger.log(`Bitnami Base Image: ${bitnamiName}`);
+  logger.log(`PGVector Base Version: ${pgvectorBaseVersion}`);
+  logger.log(`ParadeDB/pg_search Tag: ${pgSearchName} (${pgSearchChannel} channel)`);
+  logger.log(`PGVector Builder Tag Used: ${pgvectorBuilderTag}`);
+  logger.log(`Pinned Bitnami Reference: ${bitnamiRef}`);
+  logger.log(`Pinned PGVector Builder Reference: ${pgvectorBuilderRef}`);
+  logger.log(`Pinned ParadeDB/pg_search Reference: ${pgSearchRef}`);
 
-  // Fetch latest stable ParadeDB tag
-  let pgSearchName: string;
-  
-  // In test mode, use a simplified approach
-  if (isTest) {
-    pgSearchName = "mock-pgsearch-latest";
+  // Only platforms every upstream image ships can be built
+  let upstreamPlatforms: UpstreamPlatforms = {
+    bitnami: null,
+    pgvector: null,
+    pgSearch: null,
+    common: null,
+  };
+  if (frozen) {
+    logger.log("Frozen mode: skipping upstream platform check.");
   } else {
-    const latestPgSearchTag = await fetchLatestPgSearchTag(pgMajorVersion);
-    if (latestPgSearchTag) {
-      pgSearchName = latestPgSearchTag;
-    } else {
-      console.warn(
-        `Warning: Could not automatically determine the latest stable ParadeDB tag for PG ${pgMajorVersion}. Using default: ${DEFAULT_PG_SEARCH_VERSION}-pg${pgMajorVersion}`
-      );
-      // Construct a plausible default tag name
-      pgSearchName = `${DEFAULT_PG_SEARCH_VERSION}-pg${pgMajorVersion}`;
-    }
+    upstreamPlatforms = await resolveUpstreamPlatforms(
+      components,
+      upstreamClient,
+      deps
+    );
+  }
+  const { common: commonPlatforms } = upstreamPlatforms;
+  const buildPlatforms = commonPlatforms
+    ? platforms.filter((platform) => platformIn(platform, commonPlatforms))
+    : platforms;
+  if (commonPlatforms) {
+    logger.log(`Upstream Platforms: ${commonPlatforms.join(", ") || "none"}`);
+  }
+  if (buildPlatforms.length < platforms.length) {
+    logger.warn(
+      `Warning: Upstream images do not provide ${platforms.filter((platform) => !buildPlatforms.includes(platform)).join(", ")}; buildable platforms: ${buildPlatforms.join(", ") || "none"}.`
+    );
   }
 
-  const registry = Bun.env.REGISTRY ?? "ghcr.io";
-  let repoName = "unknown-repo";
-  
-  if (isTest && Bun.env.REPO_NAME) {
-    repoName = Bun.env.REPO_NAME;
+  // The Dockerfile copies libraries between the upstream images, so they must match
+  let compatibility: CompatibilityReport | null = null;
+  if (frozen) {
+    logger.log("Frozen mode: skipping upstream compatibility check.");
   } else {
-    // Use Bun.$ to get git repo root and name
-    try {
-      const repoRoot = (await $`git rev-parse --show-toplevel`.text()).trim();
-      repoName = Bun.env.REPO_NAME ?? repoRoot.split("/").pop() ?? "unknown-repo";
-    } catch (error) {
-      console.warn("Could not determine repo name from git, using default");
-      repoName = Bun.env.REPO_NAME ?? "bitnami-pgvector";
+    compatibility = await checkComponentCompatibility(
+      components,
+      pgMajorVersion,
+      upstreamClient,
+      deps
+    );
+    const report = formatCompatibilityReport(compatibility);
+    if (compatibility.compatible) {
+      logger.log(`Upstream Compatibility:\n${report}`);
+    } else if (options?.allowIncompatible ?? isIncompatibleAllowedFromEnv(env)) {
+      logger.warn(
+        `Warning: Upstream images are incompatible, continuing as requested:\n${report}`
+      );
+    } else {
+      throw new UpstreamResolutionError(
+        `Upstream images for PostgreSQL ${pgMajorVersion} are incompatible:\n${report}\nUse --allow-incompatible to build anyway.`
+      );
     }
   }
 
-  const fullImageTag = `${registry}/${repoName}:${pgvectorBuilderTag}-${bitnamiName}`;
-  const tagShort = `${registry}/${repoName}:${pgvectorBuilderTag}`;
-  // Construct the tag using only major versions for postgres part
-  const tagWithFullPostgresVersion = `${registry}/${repoName}:${pgvectorBuilderTag}-postgres${pgMajorVersion}`;
-  const tagLatestPg = `${registry}/${repoName}:latest-pg${pgMajorVersion}`;
-
-  console.log(`Bitnami Base Image: ${bitnamiName}`);
-  console.log(`PGVector Base Version: ${pgvectorBaseVersion}`);
-  console.log(`Full Image Tag: ${fullImageTag}`);
-  console.log(`Short Tag: ${tagShort}`);
-  console.log(`Full PGVector Postgres Tag: ${tagWithFullPostgresVersion}`);
-  console.log(`ParadeDB/pg_search Tag: ${pgSearchName}`);
-  console.log(`PGVector Builder Tag Used: ${pgvectorBuilderTag}`);
+  const tagValues = imageTagValues(pgMajorVersion, components);
+  const postgresVersion = tagValues.pgFull;
+  const bitnamiRevision = parseBitnamiTag(bitnamiName)?.revision ?? null;
+  const renderTags = (hash: string) =>
+    renderImageTags(config.tags, { ...tagValues, hash }, `${registry}/${repoName}`);
 
   let versionHash = '';
   let versionsHashTag = '';
-  let imageExists = false;
+  let imageExists = toImageExistence(null, buildPlatforms);
 
   try {
-    // For testing, use simple mock values
-    if (process.env.NODE_ENV === 'test') {
-      console.log(">>> Using test mode for hash calculation");
-      versionHash = `test-hash-${pgMajorVersion}`;
-      versionsHashTag = `${registry}/${repoName}:sha-${versionHash}`;
-      // For PG15, mock that the image exists
-      imageExists = pgMajorVersion === '15';
-    } else {
-      console.log(">>> Starting hash calculation...");
-      // --- Start Hash Calculation ---
-      const versionString = `pg:${pgMajorVersion}-pgvector:${pgvectorBaseVersion}-pgsearch:${pgSearchName}`;
-
-      // Real implementation for production
-      const hasher = new Bun.CryptoHasher("sha256");
-      hasher.update(versionString);
-      const hashArray = hasher.digest(); // Returns Uint8Array by default
-      versionHash = Buffer.from(hashArray).toString('hex'); // Convert to hex
-      
-      console.log(`Version Combination Hash: ${versionHash}`);
-      // Construct the hash tag
-      versionsHashTag = `${registry}/${repoName}:sha-${versionHash}`;
-      console.log(`Versions Hash Tag for Existence Check: ${versionsHashTag}`);
-      // --- End Hash Calculation ---
-
-      imageExists = await checkImageExists(versionsHashTag);
+    logger.log(">>> Starting hash calculation...");
+    // --- Start Hash Calculation ---
+    // The hash covers the Dockerfile, the build args and the upstream digests,
+    // so a changed Dockerfile or a republished upstream tag triggers a rebuild
+    const dockerfilePath = options?.dockerfilePath ?? config.dockerfile;
+    const hashInput = createVersionHashInput(
+      await Bun.file(dockerfilePath).text(),
+      {
+        pgMajorVersion,
+        pgSearchChannel,
+        buildArgs: {
+          BITNAMI_TAG: bitnamiRef,
+          PGVECTOR_BUILDER_TAG: pgvectorBuilderRef,
+          PG_MAJOR_VERSION: pgMajorVersion,
+          PG_SEARCH_TAG: pgSearchRef,
+        },
+        upstream: {
+          bitnami: components.bitnami,
+          pgvector: components.pgvector,
+          pgSearch: components.pgSearch,
+        },
+      }
+    );
+    if (options?.explainHash) {
+      logger.log(`Version hash input (${dockerfilePath}):`);
+      logger.log(canonicalizeVersionHashInput(hashInput));
     }
+    versionHash = computeVersionHash(hashInput);
+
+    logger.log(`Version Combination Hash: ${versionHash}`);
+    // Construct the hash tag
+    versionsHashTag = renderTags(versionHash).versionsHashTag;
+    logger.log(`Versions Hash Tag for Existence Check: ${versionsHashTag}`);
+    // --- End Hash Calculation ---
 
+    // Frozen mode does not touch the network, so the image counts as missing
+    if (frozen) {
+      logger.warn(
+        `Warning: Frozen mode does not check the target registry for ${versionsHashTag}; the image is treated as missing and will be rebuilt.`
+      );
+    } else {
+      imageExists = await checkImageExists(
+        versionsHashTag,
+        buildPlatforms,
+        options?.targetClient,
+        deps
+      );
+    }
   } catch (error) {
-    console.error(">>> ERROR during hash calculation or image check:", error);
+    logger.error(">>> ERROR during hash calculation or image check:", error);
+    // Typed errors keep their class so the caller can map them to exit codes
+    if (exitCodeFor(error) !== EXIT_CODES.failure) throw error;
     // Re-throw the error to ensure it's handled by the caller
     throw new Error(`Failed during hash/existence check: ${error instanceof Error ? error.message : error}`);
   }
 
+  const rendered = renderTags(versionHash);
+  const { fullImageTag, tagShort, tagWithFullPostgresVersion, tagLatestPg } =
+    rendered;
+  logger.log(`Full Image Tag: ${fullImageTag}`);
+  logger.log(`Short Tag: ${tagShort}`);
+  logger.log(`Full PGVector Postgres Tag: ${tagWithFullPostgresVersion}`);
+
+  // Rolling aliases only move forward, which needs the labels of the published images
+  const imageComponents: ImageComponents = {
+    bitnami: bitnamiName,
+    pgvector: pgvectorBuilderTag,
+    pgSearch: pgSearchName,
+  };
+  let aliasTags: string[] = [];
+  if (frozen) {
+    logger.log("Frozen mode: skipping rolling alias tags.");
+  } else {
+    aliasTags = await resolveAliasTags(
+      rendered.aliasTags,
+      imageComponents,
+      options?.targetClient,
+      deps
+    );
+  }
+  const tags = [...rendered.tags, ...aliasTags];
+  logger.log(`Image Tags: ${tags.join(", ")}`);
+
   const vars: ImageVars = {
     bitnamiName,
+    postgresVersion,
+    bitnamiRevision,
     pgvectorBaseVersion,
     pgSearchName,
     fullImageTag,
@@ -286,68 +1551,210 @@ export async function getVars(
     tagWithFullPostgresVersion,
     pgvectorBuilderTag,
     imageExists,
+    upstreamPlatforms,
+    buildPlatforms,
     repoName,
     tagLatestPg,
     versionHash,
     versionsHashTag,
+    pgSearchChannel,
+    bitnamiDigest: components.bitnami.digest,
+    pgvectorBuilderDigest: components.pgvector.digest,
+    pgSearchDigest: components.pgSearch.digest,
+    bitnamiRef,
+    pgvectorBuilderRef,
+    pgSearchRef,
+    tags,
+    aliasTags,
+    labels: componentLabels(imageComponents),
+    compatibility,
+    resolution,
   };
 
   // Output for GitHub Actions or export locally
-  if (Bun.env.GITHUB_OUTPUT) {
-    const outputFile = Bun.file(Bun.env.GITHUB_OUTPUT);
+  const outputs = outputVariables(vars);
+  if (suppressExports) {
+    // The caller consumes the returned object
+  } else if (options?.format) {
+    process.stdout.write(formatVariables(outputs, options.format));
+  } else if (env.GITHUB_OUTPUT) {
+    const outputFile = Bun.file(env.GITHUB_OUTPUT);
     const writer = outputFile.writer();
-    writer.write(`BITNAMI_NAME=${vars.bitnamiName}
-`);
-    writer.write(`PGVECTOR_BASE_VERSION=${vars.pgvectorBaseVersion}
-`);
-    writer.write(`FULL_IMAGE_TAG=${vars.fullImageTag}
-`);
-    writer.write(`TAG_SHORT=${vars.tagShort}
-`);
-    writer.write(`TAG_WITH_FULL_POSTGRES_VERSION=${vars.tagWithFullPostgresVersion}
-`);
-    writer.write(`IMAGE_EXISTS=${vars.imageExists}
-`);
-    writer.write(`PG_SEARCH_NAME=${vars.pgSearchName}
-`);
-    writer.write(`PGVECTOR_BUILDER_TAG=${vars.pgvectorBuilderTag}
-`);
-    writer.write(`TAG_LATEST_PG=${vars.tagLatestPg}
-`);
-    writer.write(`VERSION_HASH=${vars.versionHash}
-`);
-    writer.write(`VERSIONS_HASH_TAG=${vars.versionsHashTag}
-`);
+    writer.write(formatVariables(outputs, "github"));
     await writer.flush();
-    console.log("Variables written to GITHUB_OUTPUT.");
-  } else if (!suppressExports) {
-    // For local execution, print KEY=VALUE pairs for sourcing
-    // Note: Directly exporting isn't feasible like in shell.
-    // Consumers would import and use the returned object.
-    // console.log("Variables determined (local run):", vars);
-    console.log(`export BITNAMI_NAME='${vars.bitnamiName}'`);
-    console.log(`export PGVECTOR_BASE_VERSION='${vars.pgvectorBaseVersion}'`);
-    console.log(`export PG_SEARCH_NAME='${vars.pgSearchName}'`);
-    console.log(`export PGVECTOR_BUILDER_TAG='${vars.pgvectorBuilderTag}'`);
-    console.log(`export FULL_IMAGE_TAG='${vars.fullImageTag}'`);
-    console.log(`export TAG_SHORT='${vars.tagShort}'`);
-    console.log(`export TAG_WITH_FULL_POSTGRES_VERSION='${vars.tagWithFullPostgresVersion}'`);
-    console.log(`export IMAGE_EXISTS='${vars.imageExists}'`); // Export image existence status
-    console.log(`export VERSION_HASH='${vars.versionHash}'`);
-    console.log(`export VERSIONS_HASH_TAG='${vars.versionsHashTag}'`);
-    const repoRoot = (await $`git rev-parse --show-toplevel`.text()).trim();
-    const repoName = Bun.env.REPO_NAME ?? repoRoot.split("/").pop() ?? "unknown-repo";
-    console.log(`export REPO_NAME='${repoName}'`);
+    logger.log("Variables written to GITHUB_OUTPUT.");
+  } else {
+    // For local execution, print export lines for sourcing
+    logger.log(formatVariables(outputs, "shell").trimEnd());
   }
 
   return vars;
 }
 
+// One build matrix entry per PostgreSQL major version
+export interface BuildMatrixEntry {
+  pg_version: string;
+  full_image_tag: string;
+  tag_short: string;
+  tag_with_full_postgres_version: string;
+  tag_latest_pg: string;
+  versions_hash_tag: string;
+  /** Comma-separated references the image is published as */
+  tags: string;
+  /** Image labels, one "key=value" per line */
+  labels: string;
+  /** Whether the image exists on every build platform */
+  image_exists: boolean;
+  /** Comma-separated platforms to build */
+  platforms: string;
+  bitnami_ref: string;
+  pgvector_builder_ref: string;
+  pg_search_ref: string;
+  pg_search_channel: PgSearchChannel;
+  /** Whether this is the primary version, which also gets the `latest` tag */
+  primary: boolean;
+}
+
+// A GitHub Actions matrix, used as `matrix: ${{ fromJson(...) }}`
+export interface BuildMatrix {
+  include: BuildMatrixEntry[];
+}
+
+// A matrix of just the PostgreSQL versions, for jobs that need no image variables
+export interface VersionMatrix {
+  include: Pick<BuildMatrixEntry, "pg_version" | "primary">[];
+}
+
+/**
+ * Lists the PostgreSQL versions as a matrix without resolving anything, so
+ * no registry is queried
+ * @param pgMajorVersions Versions to include, defaults to the configured supported versions
+ */
+export function getVersionMatrix(
+  pgMajorVersions?: readonly string[],
+  config: ProjectConfig = loadConfig()
+): VersionMatrix {
+  return {
+    include: (pgMajorVersions ?? config.pgVersions.supported).map((pgMajorVersion) => ({
+      pg_version: pgMajorVersion,
+      primary: pgMajorVersion === config.pgVersions.primary,
+    })),
+  };
+}
+
+/**
+ * Resolves the variables of several PostgreSQL major versions in parallel
+ * and collects them into a build matrix
+ * @param pgMajorVersions Versions to include, defaults to the configured supported versions
+ */
+export async function getBuildMatrix(
+  pgMajorVersions?: readonly string[],
+  options?: Omit<GetVarsOptions, "suppressExports" | "format">,
+  deps: GetVarsDeps = defaultDeps
+): Promise<BuildMatrix> {
+  const config = options?.config ?? loadConfig(undefined, deps.env);
+  const include = await Promise.all(
+    (pgMajorVersions ?? config.pgVersions.supported).map(async (pgMajorVersion): Promise<BuildMatrixEntry> => {
+      const vars = await getVars(
+        pgMajorVersion,
+        { ...options, config, suppressExports: true },
+        deps
+      );
+      return {
+        pg_version: pgMajorVersion,
+        full_image_tag: vars.fullImageTag,
+        tag_short: vars.tagShort,
+        tag_with_full_postgres_version: vars.tagWithFullPostgresVersion,
+        tag_latest_pg: vars.tagLatestPg,
+        versions_hash_tag: vars.versionsHashTag,
+        tags: vars.tags.join(","),
+        labels: labelLines(vars.labels),
+        image_exists: vars.imageExists.allPlatforms,
+        platforms: vars.buildPlatforms.join(","),
+        bitnami_ref: vars.bitnamiRef,
+        pgvector_builder_ref: vars.pgvectorBuilderRef,
+        pg_search_ref: vars.pgSearchRef,
+        pg_search_channel: vars.pgSearchChannel,
+        primary: pgMajorVersion === config.pgVersions.primary,
+      };
+    })
+  );
+  return { include };
+}
+
 // Allow running the script directly
 if (require.main === module) {
   const program = new Command();
   program.option("-v, --version", "Show version");
   program.option("-h, --help", "Show help");
+  program.option(
+    "-p, --pg <version>",
+    "PostgreSQL major version, e.g. 17 (default: PG_MAJOR_VERSION)"
+  );
+  program.option(
+    "--registry <registry>",
+    "Registry the image is published to (default: REGISTRY or the configured registry)"
+  );
+  program.option(
+    "--repo <name>",
+    "Repository name the image is published as (default: REPO_NAME, the configured name or the git checkout name)"
+  );
+  program.option(
+    "--pgvector <version>",
+    "Pin the pgvector version, e.g. 0.8.0 (default: PGVECTOR_VERSION or the newest release)"
+  );
+  program.option(
+    "--pg-search <version>",
+    "Pin the pg_search version or ParadeDB tag, e.g. 0.15.18 or 0.15.18-pg17 (default: newest on the channel)"
+  );
+  program.option(
+    "--bitnami <tag>",
+    "Pin the Bitnami PostgreSQL tag, e.g. 17.4.0-debian-12-r17 (default: newest for the major version)"
+  );
+  program.option(
+    "--channel <channel>",
+    "pg_search release channel: stable, rc or latest (default: PG_SEARCH_CHANNEL or the configured channel)"
+  );
+  program.option(
+    "--strict",
+    "Fail if an upstream tag cannot be resolved instead of falling back to defaults (default: STRICT_RESOLUTION)"
+  );
+  program.option(
+    "--allow-incompatible",
+    "Continue when the upstream images disagree on PostgreSQL major, Debian release or glibc (default: ALLOW_INCOMPATIBLE)"
+  );
+  program.option(
+    "--explain-hash",
+    "Print the canonical document the version hash is computed from"
+  );
+  program.option(
+    "--explain",
+    "Print every candidate tag of each upstream and why it was kept or rejected"
+  );
+  program.option(
+    "--explain-dir <dir>",
+    "Write the explanation as JSON to <dir>/resolution-pg<N>.json, e.g. for a CI artifact"
+  );
+  program.option(
+    "--frozen",
+    "Use the upstream versions recorded in versions.lock.json and do not query any registry"
+  );
+  program.option(
+    "--no-cache",
+    "Query the upstream registry instead of using cached responses (default: REGISTRY_CACHE)"
+  );
+  program.option(
+    "--matrix",
+    "Print a JSON build matrix for every supported PostgreSQL version, or only --pg (logs go to stderr)"
+  );
+  program.option(
+    "--pg-matrix",
+    "Print a JSON matrix of the supported PostgreSQL versions, or only --pg, without querying any registry"
+  );
+  program.option(
+    "--format <format>",
+    "Print the variables as json, dotenv, shell, github or yaml (logs go to stderr)"
+  );
   program.parse();
 
   if (program.opts().version) {
@@ -360,7 +1767,84 @@ if (require.main === module) {
     process.exit(0);
   }
 
-  getVars().then(vars => {
-    console.log("Variables determined (local run):", vars);
+  const pgMajorVersion: string | undefined = program.opts().pg;
+  if (pgMajorVersion !== undefined && !/^\d+$/.test(pgMajorVersion)) {
+    console.error(
+      `Error: Invalid PostgreSQL version provided: '${pgMajorVersion}'. Must be a number.`
+    );
+    process.exit(1);
+  }
+
+  let channel: PgSearchChannel | undefined;
+  let format: OutputFormat | undefined;
+  try {
+    channel = program.opts().channel
+      ? parsePgSearchChannel(program.opts().channel)
+      : undefined;
+    format = program.opts().format
+      ? parseOutputFormat(program.opts().format)
+      : undefined;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // The versions alone come from the config, without resolving any image
+  if (program.opts().pgMatrix) {
+    let versionMatrix: VersionMatrix | undefined;
+    try {
+      versionMatrix = getVersionMatrix(pgMajorVersion ? [pgMajorVersion] : undefined);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(exitCodeFor(error));
+    }
+    process.stdout.write(`${JSON.stringify(versionMatrix)}\n`);
+    process.exit(0);
+  }
+
+  // Keep stdout for the formatted variables so it can be redirected or sourced
+  const matrix: boolean = program.opts().matrix ?? false;
+  const deps =
+    format || matrix
+      ? createGetVarsDeps({
+          logger: { log: console.error, warn: console.warn, error: console.error },
+        })
+      : defaultDeps;
+
+  const options: GetVarsOptions = {
+    channel,
+    registry: program.opts().registry,
+    repoName: program.opts().repo,
+    pins: {
+      bitnami: program.opts().bitnami,
+      pgvector: program.opts().pgvector,
+      pgSearch: program.opts().pgSearch,
+    },
+    frozen: program.opts().frozen,
+    explainHash: program.opts().explainHash,
+    explain: program.opts().explain,
+    explainDir: program.opts().explainDir,
+    strict: program.opts().strict,
+    allowIncompatible: program.opts().allowIncompatible,
+    noCache: !program.opts().cache,
+  };
+
+  const run = matrix
+    ? getBuildMatrix(
+        pgMajorVersion ? [pgMajorVersion] : undefined,
+        options,
+        deps
+      ).then(buildMatrix => {
+        // A single line, so it can be written to GITHUB_OUTPUT as is
+        process.stdout.write(`${JSON.stringify(buildMatrix)}\n`);
+      })
+    : getVars(pgMajorVersion, { ...options, format }, deps).then(vars => {
+        if (!format) {
+          console.log("Variables determined (local run):", vars);
+        }
+      });
+  run.catch(error => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(exitCodeFor(error));
   });
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  type LockEntry,
+  type Lockfile,
+  createLockfile,
+  diffLockEntries,
+  readLockfile,
+  serializeLockfile,
+  validateLockfile,
+  writeLockfile,
+} from "./index";
+
+const tempDir = mkdtempSync(join(tmpdir(), "pgvector-lockfile-"));
+
+const entry17: LockEntry = {
+  bitnami: {
+    tag: "17.4.0-debian-12-r17",
+    digest:
+      "sha256:1111111111111111111111111111111111111111111111111111111111111111",
+  },
+  pgvector: {
+    tag: "0.8.0-pg17",
+    digest:
+      "sha256:2222222222222222222222222222222222222222222222222222222222222222",
+  },
+  pgvectorVersion: "0.8.0",
+  pgSearch: { tag: "0.15.18-pg17", digest: null },
+  pgSearchChannel: "stable",
+  resolvedAt: "2025-05-01T00:00:00.000Z",
+};
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("validateLockfile", () => {
+  test("accepts a valid document", () => {
+    const doc = { lockfileVersion: 1, versions: { "17": entry17 } };
+    expect(validateLockfile(doc, "lock.json")).toEqual(doc as Lockfile);
+  });
+
+  test("rejects an unknown lockfileVersion", () => {
+    expect(() =>
+      validateLockfile({ lockfileVersion: 2, versions: {} }, "lock.json")
+    ).toThrow("lock.json: unsupported lockfileVersion 2");
+  });
+
+  test("rejects an entry that is not an object", () => {
+    const doc = { lockfileVersion: 1, versions: { "17": null } };
+    expect(() => validateLockfile(doc, "lock.json")).toThrow(
+      'lock.json: versions["17"] must be an object.'
+    );
+  });
+
+  test("points at the invalid field", () => {
+    const doc = {
+      lockfileVersion: 1,
+      versions: {
+        "17": { ...entry17, pgvector: { tag: "0.8.0-pg17", digest: "md5:x" } },
+      },
+    };
+    expect(() => validateLockfile(doc, "lock.json")).toThrow(
+      'lock.json: versions["17"].pgvector.digest must be null or a "sha256:..." digest.'
+    );
+  });
+});
+
+describe("serializeLockfile", () => {
+  test("orders versions numerically and ends with a newline", () => {
+    const lockfile = createLockfile();
+    lockfile.versions["17"] = entry17;
+    lockfile.versions["9"] = { ...entry17, pgvectorVersion: "0.7.0" };
+
+    const text = serializeLockfile(lockfile);
+    expect(Object.keys(JSON.parse(text).versions)).toEqual(["9", "17"]);
+    expect(text.endsWith("}\n")).toBe(true);
+  });
+});
+
+describe("readLockfile / writeLockfile", () => {
+  test("returns an empty lockfile when the file does not exist", async () => {
+    expect(await readLockfile(join(tempDir, "missing.json"))).toEqual(
+      createLockfile()
+    );
+  });
+
+  test("round-trips a lockfile", async () => {
+    const path = join(tempDir, "versions.lock.json");
+    const lockfile = createLockfile();
+    lockfile.versions["17"] = entry17;
+
+    await writeLockfile(lockfile, path);
+    expect(await readLockfile(path)).toEqual(lockfile);
+  });
+
+  test("reports invalid JSON with the file name", async () => {
+    const path = join(tempDir, "broken.json");
+    await Bun.write(path, "{ not json");
+    await expect(readLockfile(path)).rejects.toThrow(`${path}: invalid JSON`);
+  });
+});
+
+describe("diffLockEntries", () => {
+  test("lists every field of a new entry", () => {
+    expect(diffLockEntries(undefined, entry17)).toHaveLength(6);
+  });
+
+  test("ignores the resolution timestamp", () => {
+    expect(
+      diffLockEntries(entry17, { ...entry17, resolvedAt: "2026-01-01" })
+    ).toEqual([]);
+  });
+
+  test("reports changed tags", () => {
+    const next = {
+      ...entry17,
+      pgSearch: { tag: "0.15.19-pg17", digest: null },
+    };
+    expect(diffLockEntries(entry17, next)).toEqual([
+      { field: "pgSearch.tag", from: "0.15.18-pg17", to: "0.15.19-pg17" },
+    ]);
+  });
+});
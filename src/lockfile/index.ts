@@ -0,0 +1,173 @@
+/**
+ * Reading and writing of versions.lock.json, which records the resolved
+ * upstream tags and digests per PostgreSQL major version so that builds
+ * can be reproduced without querying the registries again.
+ */
+
+import { existsSync } from "node:fs";
+import type { ResolvedComponents, ResolvedImage } from "../getVars";
+import { PG_SEARCH_CHANNELS } from "../tags/paradedb";
+
+export const DEFAULT_LOCKFILE_PATH = "versions.lock.json";
+export const LOCKFILE_VERSION = 1;
+
+/**
+ * The locked upstream images for one PostgreSQL major version
+ */
+export interface LockEntry extends ResolvedComponents {
+  /** ISO timestamp of the resolution */
+  resolvedAt: string;
+}
+
+/**
+ * The versions.lock.json document
+ */
+export interface Lockfile {
+  lockfileVersion: typeof LOCKFILE_VERSION;
+  /** Lock entries keyed by PostgreSQL major version */
+  versions: Record<string, LockEntry>;
+}
+
+/**
+ * A single changed field between two lock entries
+ */
+export interface LockChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * Creates an empty lockfile document
+ */
+export function createLockfile(): Lockfile {
+  return { lockfileVersion: LOCKFILE_VERSION, versions: {} };
+}
+
+function assertResolvedImage(
+  value: unknown,
+  path: string
+): asserts value is ResolvedImage {
+  const image = value as Partial<ResolvedImage> | null;
+  if (typeof image !== "object" || image === null) {
+    throw new Error(`${path} must be an object with "tag" and "digest".`);
+  }
+  if (typeof image.tag !== "string" || image.tag === "") {
+    throw new Error(`${path}.tag must be a non-empty string.`);
+  }
+  if (
+    image.digest !== null &&
+    (typeof image.digest !== "string" || !image.digest.startsWith("sha256:"))
+  ) {
+    throw new Error(`${path}.digest must be null or a "sha256:..." digest.`);
+  }
+}
+
+/**
+ * Validates a parsed lockfile document
+ * @param data Parsed JSON
+ * @param source File name used in error messages
+ * @throws Error describing the first invalid field
+ */
+export function validateLockfile(data: unknown, source: string): Lockfile {
+  const doc = data as Partial<Lockfile> | null;
+  if (typeof doc !== "object" || doc === null) {
+    throw new Error(`${source}: expected a JSON object.`);
+  }
+  if (doc.lockfileVersion !== LOCKFILE_VERSION) {
+    throw new Error(
+      `${source}: unsupported lockfileVersion ${doc.lockfileVersion}, expected ${LOCKFILE_VERSION}.`
+    );
+  }
+  if (typeof doc.versions !== "object" || doc.versions === null) {
+    throw new Error(`${source}: "versions" must be an object.`);
+  }
+
+  for (const [pgMajor, entry] of Object.entries(doc.versions)) {
+    const path = `${source}: versions["${pgMajor}"]`;
+    if (!/^\d+$/.test(pgMajor)) {
+      throw new Error(`${path}: keys must be PostgreSQL major versions.`);
+    }
+    if (typeof entry !== "object" || entry === null) {
+      throw new Error(`${path} must be an object.`);
+    }
+    assertResolvedImage(entry.bitnami, `${path}.bitnami`);
+    assertResolvedImage(entry.pgvector, `${path}.pgvector`);
+    assertResolvedImage(entry.pgSearch, `${path}.pgSearch`);
+    if (typeof entry.pgvectorVersion !== "string") {
+      throw new Error(`${path}.pgvectorVersion must be a string.`);
+    }
+    if (!PG_SEARCH_CHANNELS.includes(entry.pgSearchChannel)) {
+      throw new Error(
+        `${path}.pgSearchChannel must be one of: ${PG_SEARCH_CHANNELS.join(", ")}.`
+      );
+    }
+  }
+  return doc as Lockfile;
+}
+
+/**
+ * Reads a lockfile, returning an empty document if the file does not exist
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export async function readLockfile(
+  path: string = DEFAULT_LOCKFILE_PATH
+): Promise<Lockfile> {
+  if (!existsSync(path)) return createLockfile();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await Bun.file(path).text());
+  } catch (error) {
+    throw new Error(`${path}: invalid JSON (${error})`);
+  }
+  return validateLockfile(data, path);
+}
+
+/**
+ * Serializes a lockfile with versions in ascending order, so diffs stay stable
+ */
+export function serializeLockfile(lockfile: Lockfile): string {
+  const versions = Object.fromEntries(
+    Object.entries(lockfile.versions).sort(
+      ([a], [b]) => Number.parseInt(a, 10) - Number.parseInt(b, 10)
+    )
+  );
+  return `${JSON.stringify({ ...lockfile, versions }, null, 2)}\n`;
+}
+
+/**
+ * Writes a lockfile to disk
+ */
+export async function writeLockfile(
+  lockfile: Lockfile,
+  path: string = DEFAULT_LOCKFILE_PATH
+): Promise<void> {
+  await Bun.write(path, serializeLockfile(lockfile));
+}
+
+/**
+ * Lists the fields that differ between two lock entries, ignoring the timestamp
+ */
+export function diffLockEntries(
+  previous: LockEntry | undefined,
+  next: LockEntry
+): LockChange[] {
+  const fields: [string, (entry: LockEntry) => string | null][] = [
+    ["bitnami.tag", (e) => e.bitnami.tag],
+    ["bitnami.digest", (e) => e.bitnami.digest],
+    ["pgvector.tag", (e) => e.pgvector.tag],
+    ["pgvector.digest", (e) => e.pgvector.digest],
+    ["pgSearch.tag", (e) => e.pgSearch.tag],
+    ["pgSearch.digest", (e) => e.pgSearch.digest],
+    ["pgSearchChannel", (e) => e.pgSearchChannel],
+  ];
+
+  return fields
+    .map(([field, get]) => ({
+      field,
+      from: previous ? get(previous) : null,
+      to: get(next),
+    }))
+    .filter((change) => change.from !== change.to);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { formatVariables, parseOutputFormat } from "./index";
+
+const VARIABLES = {
+  TAG_SHORT: "ghcr.io/owner/repo:0.8.0-pg17",
+  IMAGE_EXISTS: "false",
+  NOTE: `it's "$HOME"`,
+};
+
+describe("parseOutputFormat", () => {
+  test("accepts the known formats", () => {
+    expect(parseOutputFormat("yaml")).toBe("yaml");
+  });
+
+  test("rejects unknown formats", () => {
+    expect(() => parseOutputFormat("xml")).toThrow(
+      "Invalid output format 'xml'"
+    );
+  });
+});
+
+describe("formatVariables", () => {
+  test("json", () => {
+    expect(JSON.parse(formatVariables(VARIABLES, "json"))).toEqual(VARIABLES);
+  });
+
+  test("shell quotes single quotes", () => {
+    expect(formatVariables(VARIABLES, "shell")).toBe(
+      [
+        "export TAG_SHORT='ghcr.io/owner/repo:0.8.0-pg17'",
+        "export IMAGE_EXISTS='false'",
+        `export NOTE='it'\\''s "$HOME"'`,
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("shell output round-trips through a shell", async () => {
+    const script = `${formatVariables(VARIABLES, "shell")}printf %s "$NOTE"`;
+    const output = await Bun.$`sh -c ${script}`.text();
+    expect(output).toBe(VARIABLES.NOTE);
+  });
+
+  test("dotenv escapes quotes and variable references", () => {
+    expect(formatVariables({ NOTE: VARIABLES.NOTE }, "dotenv")).toBe(
+      'NOTE="it\'s \\"\\$HOME\\""\n'
+    );
+  });
+
+  test("github uses heredoc syntax for multi-line values", () => {
+    const output = formatVariables(
+      { IMAGE_EXISTS: "true", NOTES: "a\nb" },
+      "github"
+    );
+    expect(output).toStartWith("IMAGE_EXISTS=true\nNOTES<<ghadelimiter_");
+    const delimiter = output.split("\n")[1]?.split("<<")[1];
+    expect(output).toEndWith(`\na\nb\n${delimiter}\n`);
+  });
+
+  test("yaml", () => {
+    expect(formatVariables({ NOTE: VARIABLES.NOTE }, "yaml")).toBe(
+      'NOTE: "it\'s \\"$HOME\\""\n'
+    );
+  });
+});
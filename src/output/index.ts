@@ -0,0 +1,107 @@
+/**
+ * Serialization of the getVars variables (`KEY` -> value) into the formats
+ * consumed by shells, dotenv loaders, GitHub Actions and other tooling
+ */
+
+import { randomUUID } from "node:crypto";
+
+/**
+ * Output formats:
+ * - `json`: a single JSON object
+ * - `dotenv`: `KEY="value"` lines
+ * - `shell`: `export KEY='value'` lines for `source`
+ * - `github`: `KEY=value` lines for `$GITHUB_OUTPUT`, with heredoc syntax for multi-line values
+ * - `yaml`: a YAML mapping
+ */
+export type OutputFormat = "json" | "dotenv" | "shell" | "github" | "yaml";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+  "json",
+  "dotenv",
+  "shell",
+  "github",
+  "yaml",
+];
+
+/**
+ * Variables keyed by their upper snake case name
+ */
+export type OutputVariables = Record<string, string>;
+
+/**
+ * Parses an output format name
+ * @throws Error for an unknown format
+ */
+export function parseOutputFormat(value: string): OutputFormat {
+  if ((OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    return value as OutputFormat;
+  }
+  throw new Error(
+    `Invalid output format '${value}'. Expected one of: ${OUTPUT_FORMATS.join(", ")}.`
+  );
+}
+
+/**
+ * Quotes a value for POSIX shells. Inside single quotes nothing is special,
+ * so only the quote itself needs escaping.
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replaceAll("'", "'\\''")}'`;
+}
+
+/**
+ * Quotes a value for dotenv files as a double-quoted string
+ */
+export function dotenvQuote(value: string): string {
+  const escaped = value
+    .replaceAll("\\", "\\\\")
+    .replaceAll('"', '\\"')
+    .replaceAll("$", "\\$")
+    .replaceAll("\n", "\\n")
+    .replaceAll("\r", "\\r");
+  return `"${escaped}"`;
+}
+
+/**
+ * Formats one `$GITHUB_OUTPUT` entry. Multi-line values use the
+ * `KEY<<DELIMITER` syntax with a random delimiter that cannot occur in the value.
+ */
+function githubOutputEntry(name: string, value: string): string {
+  if (!value.includes("\n") && !value.includes("\r")) {
+    return `${name}=${value}`;
+  }
+  const delimiter = `ghadelimiter_${randomUUID()}`;
+  return `${name}<<${delimiter}\n${value}\n${delimiter}`;
+}
+
+/**
+ * Serializes the variables in the given format
+ * @returns The document, ending with a newline
+ */
+export function formatVariables(
+  variables: OutputVariables,
+  format: OutputFormat
+): string {
+  const entries = Object.entries(variables);
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(variables, null, 2)}\n`;
+    case "dotenv":
+      return entries
+        .map(([name, value]) => `${name}=${dotenvQuote(value)}\n`)
+        .join("");
+    case "shell":
+      return entries
+        .map(([name, value]) => `export ${name}=${shellQuote(value)}\n`)
+        .join("");
+    case "github":
+      return entries
+        .map(([name, value]) => `${githubOutputEntry(name, value)}\n`)
+        .join("");
+    case "yaml":
+      // JSON strings are valid YAML double-quoted scalars
+      return entries
+        .map(([name, value]) => `${name}: ${JSON.stringify(value)}\n`)
+        .join("");
+  }
+}
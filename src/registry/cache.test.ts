@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEFAULT_CACHE_TTL_MS, createCachingFetch } from "./cache";
+
+const TAGS_URL =
+  "https://hub.docker.com/v2/repositories/bitnami/postgresql/tags?page=1";
+
+/**
+ * Fetch mock answering with the given responses in order
+ */
+function createFetchMock(responses: Response[]) {
+  let call = 0;
+  return mock(
+    async (_input: string | URL | Request, _init?: RequestInit) =>
+      responses[Math.min(call++, responses.length - 1)] as Response
+  );
+}
+
+describe("createCachingFetch", () => {
+  let dir: string;
+  let clock: number;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "registry-cache-"));
+    clock = 1_000_000;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function cachingFetchWith(fetchFn: ReturnType<typeof createFetchMock>) {
+    return createCachingFetch({
+      dir,
+      fetchFn: fetchFn as unknown as typeof fetch,
+      now: () => clock,
+    });
+  }
+
+  test("serves a fresh entry without a request", async () => {
+    const fetchFn = createFetchMock([
+      Response.json({ results: [{ name: "17.4.0" }] }),
+    ]);
+    const cachingFetch = cachingFetchWith(fetchFn);
+
+    await cachingFetch(TAGS_URL);
+    clock += DEFAULT_CACHE_TTL_MS - 1;
+    const response = await cachingFetch(TAGS_URL);
+
+    expect(await response.json()).toEqual({ results: [{ name: "17.4.0" }] });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  test("revalidates a stale entry with its ETag", async () => {
+    const fetchFn = createFetchMock([
+      Response.json({ results: [] }, { headers: { ETag: '"v1"' } }),
+      new Response(null, { status: 304 }),
+    ]);
+    const cachingFetch = cachingFetchWith(fetchFn);
+
+    await cachingFetch(TAGS_URL);
+    clock += DEFAULT_CACHE_TTL_MS;
+    const response = await cachingFetch(TAGS_URL);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ results: [] });
+    const init = fetchFn.mock.calls[1]?.[1];
+    expect(new Headers(init?.headers).get("If-None-Match")).toBe('"v1"');
+
+    // The 304 renewed the entry, so the next call is served from disk
+    await cachingFetch(TAGS_URL);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  test("keys entries by Accept header", async () => {
+    const fetchFn = createFetchMock([Response.json({}), Response.json({})]);
+    const cachingFetch = cachingFetchWith(fetchFn);
+    const url = "https://registry.test/v2/owner/repo/manifests/latest";
+
+    await cachingFetch(url, { headers: { Accept: "a" } });
+    await cachingFetch(url, { headers: { Accept: "b" } });
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  test("keys entries by credentials", async () => {
+    const fetchFn = createFetchMock([
+      Response.json({}),
+      Response.json({}),
+      Response.json({}),
+    ]);
+    const url = "https://registry.test/v2/owner/private/manifests/latest";
+    const withCredentials = (username: string) =>
+      createCachingFetch({
+        dir,
+        credentials: { username, password: "secret" },
+        fetchFn: fetchFn as unknown as typeof fetch,
+        now: () => clock,
+      });
+
+    await withCredentials("alice")(url);
+    await withCredentials("alice")(url);
+    await withCredentials("bob")(url);
+    await cachingFetchWith(fetchFn)(url);
+
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  test("keeps the content-length of HEAD responses", async () => {
+    const fetchFn = createFetchMock([
+      new Response(null, {
+        headers: {
+          "Content-Length": "16",
+          "Docker-Content-Digest": "sha256:a",
+        },
+      }),
+    ]);
+    const cachingFetch = cachingFetchWith(fetchFn);
+    const url = "https://registry.test/v2/owner/repo/manifests/latest";
+
+    await cachingFetch(url, { method: "HEAD" });
+    const response = await cachingFetch(url, { method: "HEAD" });
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(response.headers.get("content-length")).toBe("16");
+    expect(response.headers.get("docker-content-digest")).toBe("sha256:a");
+  });
+
+  test("does not cache error responses", async () => {
+    const fetchFn = createFetchMock([
+      new Response(null, { status: 404 }),
+      Response.json({}),
+    ]);
+    const cachingFetch = cachingFetchWith(fetchFn);
+
+    expect((await cachingFetch(TAGS_URL)).status).toBe(404);
+    expect((await cachingFetch(TAGS_URL)).status).toBe(200);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  test("passes through requests outside the registry API", async () => {
+    const fetchFn = createFetchMock([
+      Response.json({ token: "t" }),
+      Response.json({ token: "t" }),
+    ]);
+    const cachingFetch = cachingFetchWith(fetchFn);
+
+    await cachingFetch("https://auth.docker.io/token?scope=x");
+    await cachingFetch("https://auth.docker.io/token?scope=x");
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+});
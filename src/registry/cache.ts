@@ -0,0 +1,150 @@
+/**
+ * On-disk HTTP cache for registry API requests. Fresh entries are served
+ * without a request; stale entries are revalidated with If-None-Match /
+ * If-Modified-Since, so unchanged responses cost a 304 instead of a download.
+ */
+
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import type { RegistryCredentials } from "./types";
+
+export const DEFAULT_CACHE_DIR = ".cache/registry";
+export const DEFAULT_CACHE_TTL_MS = 15 * 60 * 1000;
+
+export interface HttpCacheOptions {
+  /** Directory the entries are stored in */
+  dir?: string;
+  /** How long an entry is served without revalidation */
+  ttlMs?: number;
+  /** Credentials the requests are made with; entries of other credentials are not served */
+  credentials?: RegistryCredentials;
+  /** Fetch implementation, defaults to the global fetch */
+  fetchFn?: typeof fetch;
+  /** Clock, replaced in tests */
+  now?: () => number;
+}
+
+/**
+ * A cached response as stored on disk
+ */
+export interface CacheEntry {
+  url: string;
+  method: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+  /** Epoch milliseconds of the last fetch or successful revalidation */
+  storedAt: number;
+}
+
+function sha256Hex(data: string): string {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(data);
+  return hasher.digest("hex");
+}
+
+/**
+ * Only registry API requests (`/v2/...` on Docker Hub and OCI registries)
+ * are cached; token endpoints and logins are not
+ */
+function isCacheable(url: URL, method: string): boolean {
+  return (
+    (method === "GET" || method === "HEAD") && url.pathname.startsWith("/v2/")
+  );
+}
+
+function toResponse(entry: CacheEntry): Response {
+  return new Response(entry.method === "HEAD" ? null : entry.body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
+
+/**
+ * Wraps fetch with an on-disk cache. Entries are keyed by method, URL,
+ * Accept header and a hash of the credentials, as registry tokens change
+ * between runs; only 200 responses are stored.
+ */
+export function createCachingFetch(
+  options: HttpCacheOptions = {}
+): typeof fetch {
+  const dir = options.dir ?? DEFAULT_CACHE_DIR;
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const fetchFn = options.fetchFn ?? fetch;
+  const now = options.now ?? Date.now;
+  const credentialsHash = options.credentials
+    ? sha256Hex(
+        `${options.credentials.username}:${options.credentials.password}`
+      )
+    : "anonymous";
+
+  const readEntry = async (path: string): Promise<CacheEntry | null> => {
+    const file = Bun.file(path);
+    if (!(await file.exists())) return null;
+    try {
+      return (await file.json()) as CacheEntry;
+    } catch {
+      // A corrupt entry is treated as a miss and overwritten
+      return null;
+    }
+  };
+
+  const writeEntry = async (path: string, entry: CacheEntry) => {
+    mkdirSync(dir, { recursive: true });
+    await Bun.write(path, JSON.stringify(entry));
+  };
+
+  const cachingFetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    const method = (init?.method ?? "GET").toUpperCase();
+    if (!isCacheable(url, method)) return fetchFn(input, init);
+
+    const headers = new Headers(init?.headers);
+    const key = `${method} ${url} ${headers.get("accept") ?? ""} ${credentialsHash}`;
+    const path = join(dir, `${sha256Hex(key)}.json`);
+    const cached = await readEntry(path);
+
+    if (cached && now() - cached.storedAt < ttlMs) {
+      return toResponse(cached);
+    }
+
+    if (cached) {
+      const cachedHeaders = new Headers(cached.headers);
+      const etag = cachedHeaders.get("etag");
+      const lastModified = cachedHeaders.get("last-modified");
+      if (etag) headers.set("If-None-Match", etag);
+      if (lastModified) headers.set("If-Modified-Since", lastModified);
+    }
+
+    const response = await fetchFn(input, { ...init, headers });
+    if (cached && response.status === 304) {
+      await writeEntry(path, { ...cached, storedAt: now() });
+      return toResponse(cached);
+    }
+    if (response.status !== 200) return response;
+
+    const entry: CacheEntry = {
+      url: url.toString(),
+      method,
+      status: response.status,
+      statusText: response.statusText,
+      // The body is stored decoded, so encoding and length headers no longer
+      // apply; HEAD responses keep content-length, the manifest size
+      headers: [...response.headers.entries()].filter(
+        ([name]) =>
+          name !== "content-encoding" &&
+          (method === "HEAD" || name !== "content-length")
+      ),
+      body: method === "HEAD" ? "" : await response.text(),
+      storedAt: now(),
+    };
+    await writeEntry(path, entry);
+    return toResponse(entry);
+  };
+  return cachingFetch as typeof fetch;
+}
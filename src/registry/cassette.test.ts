@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CASSETTE_VERSION,
+  createCassette,
+  createRecordingFetch,
+  readCassette,
+  redactBody,
+  validateCassette,
+  writeCassette,
+} from "./cassette";
+
+const TAGS_URL =
+  "https://hub.docker.com/v2/repositories/bitnami/postgresql/tags/?page_size=100";
+
+describe("createRecordingFetch", () => {
+  test("records each request and its response in order", async () => {
+    const cassette = createCassette();
+    const fetchFn = mock(
+      async () =>
+        new Response('{"results":[]}', {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Set-Cookie": "session=secret",
+          },
+        })
+    );
+    const recordingFetch = createRecordingFetch(
+      cassette,
+      fetchFn as unknown as typeof fetch
+    );
+
+    const response = await recordingFetch(TAGS_URL);
+    expect(await response.json()).toEqual({ results: [] });
+    await recordingFetch(TAGS_URL, { method: "HEAD" });
+
+    expect(cassette.interactions).toEqual([
+      {
+        request: { method: "GET", url: TAGS_URL },
+        response: {
+          status: 200,
+          statusText: "",
+          headers: [["content-type", "application/json"]],
+          body: '{"results":[]}',
+        },
+      },
+      {
+        request: { method: "HEAD", url: TAGS_URL },
+        response: {
+          status: 200,
+          statusText: "",
+          headers: [["content-type", "application/json"]],
+          body: "",
+        },
+      },
+    ]);
+  });
+
+  test("redacts tokens but hands them to the caller", async () => {
+    const cassette = createCassette();
+    const fetchFn = mock(
+      async () => new Response('{"token":"abc","expires_in":300}')
+    );
+    const recordingFetch = createRecordingFetch(
+      cassette,
+      fetchFn as unknown as typeof fetch
+    );
+
+    const response = await recordingFetch("https://auth.docker.io/token");
+    expect(await response.json()).toEqual({ token: "abc", expires_in: 300 });
+    expect(cassette.interactions[0]?.response.body).toBe(
+      '{"token":"redacted","expires_in":300}'
+    );
+  });
+});
+
+describe("redactBody", () => {
+  test("leaves bodies without tokens unchanged", () => {
+    expect(redactBody('{"results": []}')).toBe('{"results": []}');
+    expect(redactBody("not json")).toBe("not json");
+  });
+});
+
+describe("validateCassette", () => {
+  test("names the invalid field", () => {
+    expect(() => validateCassette({ cassetteVersion: 2 }, "c.json")).toThrow(
+      "c.json: unsupported cassetteVersion 2, expected 1."
+    );
+    expect(() =>
+      validateCassette(
+        {
+          cassetteVersion: CASSETTE_VERSION,
+          interactions: [{ request: { method: "GET" }, response: {} }],
+        },
+        "c.json"
+      )
+    ).toThrow("c.json.interactions[0].request: expected a method and a url.");
+  });
+});
+
+describe("readCassette", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cassette-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reads what writeCassette wrote", async () => {
+    const path = join(dir, "cassette.json");
+    const cassette = createCassette();
+    cassette.interactions.push({
+      request: { method: "GET", url: TAGS_URL },
+      response: { status: 404, statusText: "Not Found", headers: [], body: "" },
+    });
+    await writeCassette(path, cassette);
+    expect(await readCassette(path)).toEqual(cassette);
+  });
+
+  test("reports a missing file", async () => {
+    const path = join(dir, "missing.json");
+    await expect(readCassette(path)).rejects.toThrow(
+      `${path}: cassette not found.`
+    );
+  });
+});
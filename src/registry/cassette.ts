@@ -0,0 +1,198 @@
+/**
+ * Cassettes of registry traffic: the responses Docker Hub and OCI registries
+ * gave to a run, recorded to JSON so the same run can be replayed offline by
+ * the fixture server
+ */
+
+export const CASSETTE_VERSION = 1;
+
+/**
+ * A recorded request and the response it received
+ */
+export interface Interaction {
+  request: {
+    method: string;
+    /** Absolute URL, e.g. "https://hub.docker.com/v2/repositories/..." */
+    url: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: [string, string][];
+    body: string;
+  };
+}
+
+export interface Cassette {
+  cassetteVersion: typeof CASSETTE_VERSION;
+  /**
+   * Interactions in the order they happened. Repeated requests are answered
+   * with their responses in turn, so a 429 followed by a 200 replays as such.
+   */
+  interactions: Interaction[];
+}
+
+/**
+ * Response headers that are not recorded: cookies, and the encoding and
+ * length of a body that is stored decoded
+ */
+const DROPPED_HEADERS = new Set([
+  "set-cookie",
+  "content-encoding",
+  "content-length",
+]);
+
+/**
+ * Body fields holding bearer tokens (token endpoints and the Docker Hub login)
+ */
+const SECRET_FIELDS = ["token", "access_token", "refresh_token"];
+
+export function createCassette(): Cassette {
+  return { cassetteVersion: CASSETTE_VERSION, interactions: [] };
+}
+
+/**
+ * Key a request is matched by when replaying
+ */
+export function requestKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${url}`;
+}
+
+/**
+ * Replaces the tokens in a JSON body so a cassette can be committed
+ */
+export function redactBody(body: string): string {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return body;
+  }
+  const fields = SECRET_FIELDS.filter((field) => field in data);
+  if (fields.length === 0) return body;
+  return JSON.stringify({
+    ...data,
+    ...Object.fromEntries(fields.map((field) => [field, "redacted"])),
+  });
+}
+
+/**
+ * Wraps fetch so every request and its response are appended to the
+ * cassette. Request headers and bodies are not recorded, and tokens in
+ * response bodies are redacted.
+ */
+export function createRecordingFetch(
+  cassette: Cassette,
+  fetchFn: typeof fetch = fetch
+): typeof fetch {
+  const recordingFetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const url = input instanceof Request ? input.url : input.toString();
+    const method = (init?.method ?? "GET").toUpperCase();
+    const response = await fetchFn(input, init);
+    const body = method === "HEAD" ? "" : await response.text();
+
+    const interaction: Interaction = {
+      request: { method, url },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers.entries()].filter(
+          ([name]) => !DROPPED_HEADERS.has(name)
+        ),
+        body: redactBody(body),
+      },
+    };
+    cassette.interactions.push(interaction);
+
+    // The caller still gets the unredacted body
+    return new Response(method === "HEAD" ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: interaction.response.headers,
+    });
+  };
+  return recordingFetch as typeof fetch;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks the structure of a parsed cassette
+ * @param source Name of the cassette used in error messages
+ * @throws Error naming the first invalid field
+ */
+export function validateCassette(data: unknown, source: string): Cassette {
+  if (!isObject(data)) {
+    throw new Error(`${source}: expected a JSON object.`);
+  }
+  if (data.cassetteVersion !== CASSETTE_VERSION) {
+    throw new Error(
+      `${source}: unsupported cassetteVersion ${JSON.stringify(data.cassetteVersion)}, expected ${CASSETTE_VERSION}.`
+    );
+  }
+  if (!Array.isArray(data.interactions)) {
+    throw new Error(`${source}.interactions: expected an array.`);
+  }
+  data.interactions.forEach((interaction: unknown, index) => {
+    const path = `${source}.interactions[${index}]`;
+    if (
+      !isObject(interaction) ||
+      !isObject(interaction.request) ||
+      !isObject(interaction.response)
+    ) {
+      throw new Error(`${path}: expected a request and a response.`);
+    }
+    const { request, response } = interaction;
+    if (typeof request.method !== "string" || typeof request.url !== "string") {
+      throw new Error(`${path}.request: expected a method and a url.`);
+    }
+    if (
+      typeof response.status !== "number" ||
+      typeof response.body !== "string" ||
+      !Array.isArray(response.headers)
+    ) {
+      throw new Error(
+        `${path}.response: expected a status, headers and a body.`
+      );
+    }
+  });
+  return data as unknown as Cassette;
+}
+
+/**
+ * Reads and validates a cassette file
+ * @throws Error if the file is missing, not JSON or not a cassette
+ */
+export async function readCassette(path: string): Promise<Cassette> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(`${path}: cassette not found.`);
+  }
+  let data: unknown;
+  try {
+    data = await file.json();
+  } catch (error) {
+    throw new Error(
+      `${path}: invalid JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return validateCassette(data, path);
+}
+
+/**
+ * Writes a cassette as indented JSON, so recordings diff well
+ */
+export async function writeCassette(
+  path: string,
+  cassette: Cassette
+): Promise<void> {
+  await Bun.write(path, `${JSON.stringify(cassette, null, 2)}\n`);
+}
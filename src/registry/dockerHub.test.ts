@@ -0,0 +1,174 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+  DOCKER_HUB_API_URL,
+  DockerHubRegistryClient,
+  DockerHubRequestError,
+  buildTagsUrl,
+  iterateDockerHubTags,
+  listDockerHubTags,
+} from "./dockerHub";
+
+const REPO = "bitnami/postgresql";
+const PAGE_1 = buildTagsUrl(REPO, { name: "17." });
+const PAGE_2 = `${PAGE_1}&page=2`;
+const PAGE_3 = `${PAGE_1}&page=3`;
+
+// Three pages of two tags each, linked through `next`
+const pages: Record<string, unknown> = {
+  [PAGE_1]: {
+    next: PAGE_2,
+    results: [
+      { name: "17.0.0-debian-12-r1", last_updated: "2024-10-01T00:00:00Z" },
+      { name: "17.0.0-debian-12-r2", last_updated: "2024-10-02T00:00:00Z" },
+    ],
+  },
+  [PAGE_2]: {
+    next: PAGE_3,
+    results: [
+      { name: "17.1.0-debian-12-r1", last_updated: "2024-11-01T00:00:00Z" },
+      { name: "17.1.0-debian-12-r2", last_updated: "2024-11-02T00:00:00Z" },
+    ],
+  },
+  [PAGE_3]: {
+    next: null,
+    results: [
+      { name: "17.2.0-debian-12-r1", last_updated: "2024-12-01T00:00:00Z" },
+    ],
+  },
+};
+
+function createFetchMock() {
+  return mock(async (input: string | URL | Request) => {
+    const body = pages[input.toString()];
+    if (!body)
+      return new Response("Not Found", {
+        status: 404,
+        statusText: "Not Found",
+      });
+    return Response.json(body);
+  });
+}
+
+describe("buildTagsUrl", () => {
+  test("keeps the page_size, ordering, name parameter order", () => {
+    expect(
+      buildTagsUrl("paradedb/paradedb", {
+        ordering: "last_updated",
+        name: "-pg17",
+      })
+    ).toBe(
+      "https://hub.docker.com/v2/repositories/paradedb/paradedb/tags/?page_size=100&ordering=last_updated&name=-pg17"
+    );
+  });
+
+  test("encodes the name filter", () => {
+    expect(buildTagsUrl(REPO, { name: "17.4&page=9 #" })).toBe(
+      "https://hub.docker.com/v2/repositories/bitnami/postgresql/tags/?page_size=100&name=17.4%26page%3D9+%23"
+    );
+  });
+});
+
+describe("iterateDockerHubTags", () => {
+  test("follows next links until the last page", async () => {
+    const fetchFn = createFetchMock();
+    const tags = await listDockerHubTags(REPO, {
+      name: "17.",
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    expect(tags.map((t) => t.name)).toEqual([
+      "17.0.0-debian-12-r1",
+      "17.0.0-debian-12-r2",
+      "17.1.0-debian-12-r1",
+      "17.1.0-debian-12-r2",
+      "17.2.0-debian-12-r1",
+    ]);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  test("stops after maxPages", async () => {
+    const fetchFn = createFetchMock();
+    const tags = await listDockerHubTags(REPO, {
+      name: "17.",
+      maxPages: 2,
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    expect(tags).toHaveLength(4);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  test("does not fetch further pages once the consumer stops", async () => {
+    const fetchFn = createFetchMock();
+    for await (const tag of iterateDockerHubTags(REPO, {
+      name: "17.",
+      fetchFn: fetchFn as unknown as typeof fetch,
+    })) {
+      if (tag.name === "17.0.0-debian-12-r1") break;
+    }
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  test("stops at the first tag matching until", async () => {
+    const fetchFn = createFetchMock();
+    const tags = await listDockerHubTags(REPO, {
+      name: "17.",
+      until: (tag) => tag.name === "17.1.0-debian-12-r1",
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    expect(tags.map((t) => t.name)).toEqual([
+      "17.0.0-debian-12-r1",
+      "17.0.0-debian-12-r2",
+      "17.1.0-debian-12-r1",
+    ]);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  test("throws DockerHubRequestError on a non-OK page", async () => {
+    const fetchFn = createFetchMock();
+    const promise = listDockerHubTags("missing/repo", {
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(DockerHubRequestError);
+  });
+});
+
+describe("DockerHubRegistryClient", () => {
+  test("logs in again after a failed login", async () => {
+    const pageFetch = createFetchMock();
+    let logins = 0;
+    const fetchFn = mock(
+      async (input: string | URL | Request, _init?: RequestInit) => {
+        if (input.toString() !== `${DOCKER_HUB_API_URL}/users/login`) {
+          return pageFetch(input);
+        }
+        logins++;
+        return logins === 1
+          ? new Response("Unavailable", {
+              status: 503,
+              statusText: "Service Unavailable",
+            })
+          : Response.json({ token: "hub-token" });
+      }
+    );
+    const client = new DockerHubRegistryClient({
+      credentials: { username: "user", password: "secret" },
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    await expect(client.listTags(REPO, { name: "17." })).rejects.toBeInstanceOf(
+      DockerHubRequestError
+    );
+    expect(await client.listTags(REPO, { name: "17." })).toHaveLength(5);
+    expect(logins).toBe(2);
+    const pageRequest = fetchFn.mock.calls.find(
+      ([input]) => input.toString() === PAGE_1
+    );
+    expect(new Headers(pageRequest?.[1]?.headers).get("Authorization")).toBe(
+      "Bearer hub-token"
+    );
+  });
+});
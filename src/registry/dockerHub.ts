@@ -0,0 +1,277 @@
+/**
+ * Helpers for the Docker Hub v2 repository API (hub.docker.com/v2)
+ */
+
+import { OciRegistryClient } from "./oci";
+import {
+  type Manifest,
+  type ManifestDescriptor,
+  type RegistryClient,
+  type RegistryCredentials,
+  type RegistryLogger,
+  RegistryRequestError,
+  type RegistryTag,
+  type TagListQuery,
+} from "./types";
+
+export const DOCKER_HUB_API_URL = "https://hub.docker.com/v2";
+/** Distribution API endpoint serving Docker Hub manifests */
+export const DOCKER_HUB_REGISTRY_URL = "https://registry-1.docker.io";
+export const DEFAULT_PAGE_SIZE = 100;
+export const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * A single tag entry as returned by the Docker Hub tags endpoint
+ */
+export interface DockerHubTag {
+  name: string;
+  last_updated: string;
+  /** Digest of the manifest (list) the tag points to */
+  digest?: string;
+}
+
+/**
+ * One page of the Docker Hub tags endpoint
+ */
+export interface DockerHubTagsPage {
+  count?: number;
+  /** Absolute URL of the next page, or null on the last page */
+  next: string | null;
+  previous?: string | null;
+  results: DockerHubTag[];
+}
+
+/**
+ * Query options for listing the tags of a Docker Hub repository
+ */
+export interface DockerHubTagQuery {
+  /** Server-side substring filter on the tag name */
+  name?: string;
+  /** Server-side ordering of the results */
+  ordering?: "last_updated" | "name";
+  /** Number of tags requested per page */
+  pageSize?: number;
+  /** Maximum number of pages to follow before giving up */
+  maxPages?: number;
+  /** Stops listing at the first tag matching it */
+  until?: (tag: DockerHubTag) => boolean;
+  /** Fetch implementation, defaults to the global fetch */
+  fetchFn?: typeof fetch;
+  /** Receives a warning when the listing is cut off, defaults to the console */
+  logger?: RegistryLogger;
+}
+
+/**
+ * Raised when Docker Hub answers a tags request with a non-OK status
+ */
+export class DockerHubRequestError extends RegistryRequestError {
+  constructor(url: string, status: number, statusText: string) {
+    super(
+      url,
+      status,
+      statusText,
+      `Docker Hub request failed: ${status} ${statusText} (URL: ${url})`
+    );
+    this.name = "DockerHubRequestError";
+  }
+}
+
+/**
+ * Builds the URL of the first tags page for a repository
+ * @param repository Repository in "namespace/name" form
+ * @param query Filter and paging options
+ * @returns The tags endpoint URL
+ */
+export function buildTagsUrl(
+  repository: string,
+  query: DockerHubTagQuery = {}
+): string {
+  const params = new URLSearchParams({
+    page_size: String(query.pageSize ?? DEFAULT_PAGE_SIZE),
+  });
+  if (query.ordering) params.set("ordering", query.ordering);
+  if (query.name !== undefined) params.set("name", query.name);
+  return `${DOCKER_HUB_API_URL}/repositories/${repository}/tags/?${params}`;
+}
+
+/**
+ * Iterates over every tag of a Docker Hub repository, following the
+ * `next` link of each page until the last page or `maxPages` is reached.
+ *
+ * Pages are fetched lazily, so breaking out of the loop stops further requests.
+ * @param repository Repository in "namespace/name" form
+ * @param query Filter and paging options
+ * @throws DockerHubRequestError when a page request returns a non-OK status
+ */
+export async function* iterateDockerHubTags(
+  repository: string,
+  query: DockerHubTagQuery = {}
+): AsyncGenerator<DockerHubTag> {
+  const fetchFn = query.fetchFn ?? fetch;
+  const maxPages = query.maxPages ?? DEFAULT_MAX_PAGES;
+  let url: string | null = buildTagsUrl(repository, query);
+  let pagesFetched = 0;
+
+  while (url && pagesFetched < maxPages) {
+    const response = await fetchFn(url);
+    if (!response.ok) {
+      throw new DockerHubRequestError(
+        url,
+        response.status,
+        response.statusText
+      );
+    }
+    const page = (await response.json()) as DockerHubTagsPage;
+    pagesFetched++;
+
+    for (const tag of page.results ?? []) {
+      yield tag;
+    }
+    url = page.next ?? null;
+  }
+
+  if (url) {
+    (query.logger ?? console).warn(
+      `Stopped listing ${repository} tags after ${maxPages} pages; older tags were not considered.`
+    );
+  }
+}
+
+/**
+ * Collects all tags of a repository into an array, up to and including the
+ * first tag matching `query.until`
+ * @param repository Repository in "namespace/name" form
+ * @param query Filter and paging options
+ * @returns Every tag returned across the visited pages
+ */
+export async function listDockerHubTags(
+  repository: string,
+  query: DockerHubTagQuery = {}
+): Promise<DockerHubTag[]> {
+  const tags: DockerHubTag[] = [];
+  for await (const tag of iterateDockerHubTags(repository, query)) {
+    tags.push(tag);
+    if (query.until?.(tag)) break;
+  }
+  return tags;
+}
+
+/**
+ * Official images live under "library/" on Docker Hub
+ */
+function normalizeRepository(repository: string): string {
+  return repository.includes("/") ? repository : `library/${repository}`;
+}
+
+export interface DockerHubRegistryClientOptions {
+  credentials?: RegistryCredentials;
+  /** Fetch implementation, defaults to the global fetch */
+  fetchFn?: typeof fetch;
+  /** Receives warnings, defaults to the console */
+  logger?: RegistryLogger;
+}
+
+/**
+ * Logs in to the Docker Hub API
+ * @returns A JWT for the Authorization header of Hub API requests
+ * @throws DockerHubRequestError when the login is rejected
+ */
+export async function loginToDockerHub(
+  credentials: RegistryCredentials,
+  fetchFn: typeof fetch = fetch
+): Promise<string> {
+  const url = `${DOCKER_HUB_API_URL}/users/login`;
+  const response = await fetchFn(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      username: credentials.username,
+      password: credentials.password,
+    }),
+  });
+  if (!response.ok) {
+    throw new DockerHubRequestError(url, response.status, response.statusText);
+  }
+  return ((await response.json()) as { token: string }).token;
+}
+
+/**
+ * Docker Hub client. Tags are listed through the Hub API, which reports
+ * push times and digests; manifests are read from registry-1.docker.io.
+ * With credentials, both APIs are called authenticated, which raises the
+ * Docker Hub rate limit.
+ */
+export class DockerHubRegistryClient implements RegistryClient {
+  readonly registry = "docker.io";
+  private readonly fetchFn: typeof fetch;
+  private readonly distribution: OciRegistryClient;
+  private readonly credentials?: RegistryCredentials;
+  private readonly logger?: RegistryLogger;
+  private hubToken?: Promise<string>;
+
+  constructor(options: DockerHubRegistryClientOptions = {}) {
+    this.credentials = options.credentials;
+    this.fetchFn = options.fetchFn ?? fetch;
+    this.logger = options.logger;
+    this.distribution = new OciRegistryClient({
+      registry: this.registry,
+      baseUrl: DOCKER_HUB_REGISTRY_URL,
+      credentials: options.credentials,
+      fetchFn: this.fetchFn,
+      logger: options.logger,
+    });
+  }
+
+  listTags(
+    repository: string,
+    query: TagListQuery = {}
+  ): Promise<RegistryTag[]> {
+    return listDockerHubTags(normalizeRepository(repository), {
+      ...query,
+      fetchFn: this.hubFetch,
+      logger: this.logger,
+    });
+  }
+
+  /**
+   * Fetch for Hub API requests, logging in once when credentials are set
+   */
+  private readonly hubFetch = (async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    if (!this.credentials) return this.fetchFn(input, init);
+
+    // A failed login is forgotten so the next request logs in again
+    this.hubToken ??= loginToDockerHub(this.credentials, this.fetchFn).catch(
+      (error: unknown) => {
+        this.hubToken = undefined;
+        throw error;
+      }
+    );
+    const headers = new Headers(init?.headers);
+    headers.set("Authorization", `Bearer ${await this.hubToken}`);
+    return this.fetchFn(input, { ...init, headers });
+  }) as typeof fetch;
+
+  headManifest(
+    repository: string,
+    reference: string
+  ): Promise<ManifestDescriptor | null> {
+    return this.distribution.headManifest(
+      normalizeRepository(repository),
+      reference
+    );
+  }
+
+  getManifest(repository: string, reference: string): Promise<Manifest | null> {
+    return this.distribution.getManifest(
+      normalizeRepository(repository),
+      reference
+    );
+  }
+
+  getBlob(repository: string, digest: string): Promise<unknown | null> {
+    return this.distribution.getBlob(normalizeRepository(repository), digest);
+  }
+}
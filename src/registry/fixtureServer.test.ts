@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { type Cassette, type Interaction, createCassette } from "./cassette";
+import {
+  type FixtureServer,
+  createFixtureFetch,
+  fromFixtureUrl,
+  startFixtureServer,
+  toFixtureUrl,
+} from "./fixtureServer";
+
+const MANIFEST_URL =
+  "https://registry-1.docker.io/v2/bitnami/postgresql/manifests/17";
+
+function interaction(
+  method: string,
+  url: string,
+  status: number,
+  body = ""
+): Interaction {
+  return {
+    request: { method, url },
+    response: {
+      status,
+      statusText: "",
+      headers: [["docker-content-digest", "sha256:abc"]],
+      body,
+    },
+  };
+}
+
+function cassetteOf(...interactions: Interaction[]): Cassette {
+  return { ...createCassette(), interactions };
+}
+
+describe("fixture URLs", () => {
+  test("keep the scheme, host, path and query", () => {
+    const url = "https://hub.docker.com/v2/repositories/a/b/tags/?page=2";
+    const fixtureUrl = toFixtureUrl("http://127.0.0.1:8080/", url);
+    expect(fixtureUrl).toBe(
+      "http://127.0.0.1:8080/https/hub.docker.com/v2/repositories/a/b/tags/?page=2"
+    );
+    expect(fromFixtureUrl(fixtureUrl)).toBe(url);
+    expect(fromFixtureUrl("http://127.0.0.1:8080/favicon.ico")).toBeNull();
+  });
+});
+
+describe("startFixtureServer", () => {
+  let server: FixtureServer | undefined;
+
+  afterEach(() => {
+    server?.stop();
+    server = undefined;
+  });
+
+  test("replays repeated requests in order, then repeats the last response", async () => {
+    server = startFixtureServer(
+      cassetteOf(
+        interaction("GET", MANIFEST_URL, 429),
+        interaction("GET", MANIFEST_URL, 200, '{"schemaVersion":2}')
+      )
+    );
+    const fixtureFetch = createFixtureFetch(server.url);
+
+    expect((await fixtureFetch(MANIFEST_URL)).status).toBe(429);
+    const response = await fixtureFetch(MANIFEST_URL);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("docker-content-digest")).toBe("sha256:abc");
+    expect(await response.json()).toEqual({ schemaVersion: 2 });
+    expect((await fixtureFetch(MANIFEST_URL)).status).toBe(200);
+  });
+
+  test("matches the method", async () => {
+    server = startFixtureServer(
+      cassetteOf(interaction("HEAD", MANIFEST_URL, 200))
+    );
+    const fixtureFetch = createFixtureFetch(server.url);
+
+    expect((await fixtureFetch(MANIFEST_URL, { method: "HEAD" })).status).toBe(
+      200
+    );
+    expect((await fixtureFetch(MANIFEST_URL)).status).toBe(501);
+    expect(server.unmatched).toEqual([`GET ${MANIFEST_URL}`]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Local HTTP server replaying a cassette. Requests are sent to it by
+ * rewriting "https://host/path" to "<server>/https/host/path", so one server
+ * stands in for Docker Hub, its token endpoint and any OCI registry, and
+ * absolute pagination links and auth realms keep working.
+ */
+
+import { type Cassette, type Interaction, requestKey } from "./cassette";
+
+export interface FixtureServer {
+  /** Base URL to pass to createFixtureFetch, e.g. "http://127.0.0.1:41234" */
+  url: string;
+  /** Requests that had no recorded response, as "METHOD url" */
+  unmatched: string[];
+  stop(): void;
+}
+
+export interface FixtureServerOptions {
+  /** Port to listen on, defaults to a free one */
+  port?: number;
+  hostname?: string;
+}
+
+/**
+ * Rewrites an absolute URL to its path on the fixture server
+ */
+export function toFixtureUrl(baseUrl: string, url: string): string {
+  const target = new URL(url);
+  const scheme = target.protocol.replace(/:$/, "");
+  return `${baseUrl.replace(/\/+$/, "")}/${scheme}/${target.host}${target.pathname}${target.search}`;
+}
+
+/**
+ * Recovers the original URL from a request to the fixture server
+ * @returns The URL, or null if the path does not name a scheme and host
+ */
+export function fromFixtureUrl(url: string): string | null {
+  const { pathname, search } = new URL(url);
+  const match = /^\/(https?)\/([^/]+)(\/.*)?$/.exec(pathname);
+  if (!match) return null;
+  return `${match[1]}://${match[2]}${match[3] ?? "/"}${search}`;
+}
+
+/**
+ * Wraps fetch so every request goes to the fixture server instead
+ * @param baseUrl URL of the fixture server
+ */
+export function createFixtureFetch(
+  baseUrl: string,
+  fetchFn: typeof fetch = fetch
+): typeof fetch {
+  const fixtureFetch = (input: string | URL | Request, init?: RequestInit) =>
+    fetchFn(
+      toFixtureUrl(
+        baseUrl,
+        input instanceof Request ? input.url : input.toString()
+      ),
+      init
+    );
+  return fixtureFetch as typeof fetch;
+}
+
+function toResponse(interaction: Interaction, method: string): Response {
+  const { status, statusText, headers, body } = interaction.response;
+  return new Response(method === "HEAD" ? null : body, {
+    status,
+    statusText,
+    headers,
+  });
+}
+
+/**
+ * Starts a server answering each request with the recorded response for
+ * its method and URL. Repeated requests get the recorded responses in turn,
+ * then the last one again. Unrecorded requests are answered with 501.
+ */
+export function startFixtureServer(
+  cassette: Cassette,
+  options: FixtureServerOptions = {}
+): FixtureServer {
+  const recorded = new Map<string, Interaction[]>();
+  for (const interaction of cassette.interactions) {
+    const key = requestKey(interaction.request.method, interaction.request.url);
+    recorded.set(key, [...(recorded.get(key) ?? []), interaction]);
+  }
+  const served = new Map<string, number>();
+  const unmatched: string[] = [];
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    hostname: options.hostname ?? "127.0.0.1",
+    fetch(request) {
+      const url = fromFixtureUrl(request.url);
+      const key = requestKey(request.method, url ?? request.url);
+      const responses = recorded.get(key);
+      if (!url || !responses) {
+        unmatched.push(key);
+        return new Response(`No recorded response for ${key}\n`, {
+          status: 501,
+        });
+      }
+      const count = served.get(key) ?? 0;
+      served.set(key, count + 1);
+      const interaction = responses[
+        Math.min(count, responses.length - 1)
+      ] as Interaction;
+      return toResponse(interaction, request.method);
+    },
+  });
+
+  return {
+    url: `http://${server.hostname}:${server.port}`,
+    unmatched,
+    stop: () => server.stop(true),
+  };
+}
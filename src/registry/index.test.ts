@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { DockerHubRegistryClient } from "./dockerHub";
+import { createRegistryClient, parseImageReference } from "./index";
+import { OciRegistryClient } from "./oci";
+
+describe("parseImageReference", () => {
+  test("parses a registry, repository and tag", () => {
+    expect(parseImageReference("ghcr.io/owner/repo:sha-abc")).toEqual({
+      registry: "ghcr.io",
+      repository: "owner/repo",
+      reference: "sha-abc",
+    });
+  });
+
+  test("defaults to Docker Hub and the latest tag", () => {
+    expect(parseImageReference("bitnami/postgresql")).toEqual({
+      registry: "docker.io",
+      repository: "bitnami/postgresql",
+      reference: "latest",
+    });
+  });
+
+  test("treats a host with a port as the registry", () => {
+    expect(parseImageReference("localhost:5000/repo:1.0")).toEqual({
+      registry: "localhost:5000",
+      repository: "repo",
+      reference: "1.0",
+    });
+  });
+
+  test("prefers the digest over the tag", () => {
+    expect(
+      parseImageReference("bitnami/postgresql:17.4.0@sha256:abc").reference
+    ).toBe("sha256:abc");
+  });
+
+  test("rejects a reference without a repository", () => {
+    expect(() => parseImageReference("ghcr.io/")).toThrow("missing repository");
+  });
+});
+
+describe("createRegistryClient", () => {
+  test("uses the Docker Hub client for Docker Hub hosts", () => {
+    expect(createRegistryClient("docker.io")).toBeInstanceOf(
+      DockerHubRegistryClient
+    );
+    expect(createRegistryClient("registry-1.docker.io")).toBeInstanceOf(
+      DockerHubRegistryClient
+    );
+  });
+
+  test("uses the OCI client for other registries", () => {
+    const client = createRegistryClient("http://localhost:5000/");
+    expect(client).toBeInstanceOf(OciRegistryClient);
+    expect(client.registry).toBe("localhost:5000");
+  });
+});
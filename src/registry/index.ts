@@ -0,0 +1,116 @@
+/**
+ * Registry client selection and image reference parsing
+ */
+
+import { DockerHubRegistryClient } from "./dockerHub";
+import { OciRegistryClient } from "./oci";
+import type {
+  RegistryClient,
+  RegistryCredentials,
+  RegistryLogger,
+} from "./types";
+
+export const DOCKER_HUB_REGISTRY = "docker.io";
+
+const DOCKER_HUB_ALIASES = new Set([
+  DOCKER_HUB_REGISTRY,
+  "index.docker.io",
+  "registry-1.docker.io",
+  "hub.docker.com",
+]);
+
+/**
+ * An image reference split into its parts
+ */
+export interface ImageReference {
+  /** Registry host, "docker.io" when the reference has none */
+  registry: string;
+  /** Repository path, e.g. "bitnami/postgresql" */
+  repository: string;
+  /** Tag or "sha256:..." digest, "latest" when the reference has neither */
+  reference: string;
+}
+
+/**
+ * Parses an image reference such as "ghcr.io/owner/repo:tag",
+ * "bitnami/postgresql@sha256:..." or "localhost:5000/repo".
+ * The first path component is a registry host if it contains "." or ":" or is "localhost".
+ * @throws Error if the reference has no repository
+ */
+export function parseImageReference(value: string): ImageReference {
+  let remainder = value;
+  let reference = "latest";
+
+  const at = remainder.indexOf("@");
+  if (at !== -1) {
+    reference = remainder.slice(at + 1);
+    remainder = remainder.slice(0, at);
+  }
+
+  let registry = DOCKER_HUB_REGISTRY;
+  const slash = remainder.indexOf("/");
+  const firstComponent = slash === -1 ? "" : remainder.slice(0, slash);
+  if (
+    firstComponent.includes(".") ||
+    firstComponent.includes(":") ||
+    firstComponent === "localhost"
+  ) {
+    registry = firstComponent;
+    remainder = remainder.slice(slash + 1);
+  }
+
+  const colon = remainder.lastIndexOf(":");
+  if (colon !== -1) {
+    // A digest takes precedence over the tag, e.g. "repo:tag@sha256:..."
+    if (at === -1) reference = remainder.slice(colon + 1);
+    remainder = remainder.slice(0, colon);
+  }
+
+  if (!remainder) {
+    throw new Error(`Invalid image reference '${value}': missing repository.`);
+  }
+  return { registry, repository: remainder, reference };
+}
+
+export interface CreateRegistryClientOptions {
+  credentials?: RegistryCredentials;
+  /** Fetch implementation, defaults to the global fetch */
+  fetchFn?: typeof fetch;
+  /** Receives warnings, defaults to the console */
+  logger?: RegistryLogger;
+}
+
+/**
+ * Creates a client for a registry
+ * @param registry Registry host ("docker.io", "ghcr.io", "localhost:5000") or a
+ * base URL such as "http://localhost:5000" for registries without TLS
+ */
+export function createRegistryClient(
+  registry: string,
+  options: CreateRegistryClientOptions = {}
+): RegistryClient {
+  const baseUrl = /^https?:\/\//.test(registry)
+    ? registry.replace(/\/+$/, "")
+    : undefined;
+  const host = baseUrl ? new URL(baseUrl).host : registry;
+
+  if (DOCKER_HUB_ALIASES.has(host)) {
+    return new DockerHubRegistryClient(options);
+  }
+  return new OciRegistryClient({ registry: host, baseUrl, ...options });
+}
+
+/**
+ * Reads credentials from a pair of environment variables
+ * @param env Environment to read, defaults to Bun.env
+ * @returns The credentials or undefined if either variable is unset
+ */
+export function credentialsFromEnv(
+  usernameVariable: string,
+  passwordVariable: string,
+  env: Record<string, string | undefined> = Bun.env
+): RegistryCredentials | undefined {
+  const username = env[usernameVariable];
+  const password = env[passwordVariable];
+  return username && password ? { username, password } : undefined;
+}
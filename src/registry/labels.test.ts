@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { getImageLabels } from "./labels";
+import type { Manifest, RegistryClient } from "./types";
+
+const CONFIG_DIGEST =
+  "sha256:4444444444444444444444444444444444444444444444444444444444444444";
+const IMAGE_DIGEST =
+  "sha256:5555555555555555555555555555555555555555555555555555555555555555";
+
+/**
+ * In-memory client serving fixed manifests and blobs
+ */
+function createClient(
+  manifests: Record<string, unknown>,
+  blobs: Record<string, unknown> = {}
+): RegistryClient {
+  return {
+    registry: "registry.test",
+    listTags: async () => [],
+    headManifest: async () => null,
+    getManifest: async (_repository, reference): Promise<Manifest | null> => {
+      const body = manifests[reference];
+      if (body === undefined) return null;
+      return {
+        descriptor: { digest: "sha256:0", mediaType: "", size: 0 },
+        body,
+      };
+    },
+    getBlob: async (_repository, digest) => blobs[digest] ?? null,
+  };
+}
+
+const IMAGE_MANIFEST = { config: { digest: CONFIG_DIGEST } };
+const IMAGE_CONFIG = { config: { Labels: { "org.example.version": "1" } } };
+
+describe("getImageLabels", () => {
+  test("reads the labels of a single-platform image", async () => {
+    const client = createClient(
+      { "0.8-pg17": IMAGE_MANIFEST },
+      {
+        [CONFIG_DIGEST]: IMAGE_CONFIG,
+      }
+    );
+    expect(await getImageLabels(client, "owner/repo", "0.8-pg17")).toEqual({
+      "org.example.version": "1",
+    });
+  });
+
+  test("inspects the first platform image of a manifest list", async () => {
+    const client = createClient(
+      {
+        "0.8-pg17": {
+          manifests: [
+            {
+              digest: "sha256:attestation",
+              platform: { os: "unknown", architecture: "unknown" },
+            },
+            {
+              digest: IMAGE_DIGEST,
+              platform: { os: "linux", architecture: "amd64" },
+            },
+          ],
+        },
+        [IMAGE_DIGEST]: IMAGE_MANIFEST,
+      },
+      { [CONFIG_DIGEST]: IMAGE_CONFIG }
+    );
+    expect(await getImageLabels(client, "owner/repo", "0.8-pg17")).toEqual({
+      "org.example.version": "1",
+    });
+  });
+
+  test("returns null for a missing image and {} for an unlabelled one", async () => {
+    const client = createClient(
+      { unlabelled: IMAGE_MANIFEST },
+      {
+        [CONFIG_DIGEST]: { config: { Labels: null } },
+      }
+    );
+    expect(await getImageLabels(client, "owner/repo", "missing")).toBeNull();
+    expect(await getImageLabels(client, "owner/repo", "unlabelled")).toEqual(
+      {}
+    );
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Reading the config blob of a published image: its OS, environment and labels
+ */
+
+import type { PlatformSpec } from "./platforms";
+import type { RegistryClient } from "./types";
+
+/**
+ * The parts of an OCI image config the build inspects
+ */
+export interface ImageConfig {
+  os?: string;
+  architecture?: string;
+  config?: {
+    /** Environment as "NAME=value" entries */
+    Env?: string[] | null;
+    Labels?: Record<string, string> | null;
+  };
+}
+
+/**
+ * Reads the config blob of an image. For a manifest list, the first
+ * platform-specific image is inspected; attestation entries are skipped.
+ * @returns The config (empty if the manifest has none), or null if the image does not exist
+ * @throws RegistryRequestError when the registry answers with an unexpected status
+ */
+export async function getImageConfig(
+  client: RegistryClient,
+  repository: string,
+  reference: string
+): Promise<ImageConfig | null> {
+  let manifest = await client.getManifest(repository, reference);
+  if (!manifest) return null;
+
+  const list = manifest.body as {
+    manifests?: { digest?: string; platform?: PlatformSpec }[];
+  };
+  if (Array.isArray(list.manifests)) {
+    const image = list.manifests.find(
+      (entry) => entry.digest && entry.platform?.os !== "unknown"
+    );
+    if (!image?.digest) return {};
+    manifest = await client.getManifest(repository, image.digest);
+    if (!manifest) return {};
+  }
+
+  const body = manifest.body as { config?: { digest?: string } };
+  if (!body.config?.digest) return {};
+  const config = (await client.getBlob(
+    repository,
+    body.config.digest
+  )) as ImageConfig | null;
+  return config ?? {};
+}
+
+/**
+ * Reads the labels of an image, see getImageConfig
+ * @returns The labels (empty if the image has none), or null if the image does not exist
+ * @throws RegistryRequestError when the registry answers with an unexpected status
+ */
+export async function getImageLabels(
+  client: RegistryClient,
+  repository: string,
+  reference: string
+): Promise<Record<string, string> | null> {
+  const config = await getImageConfig(client, repository, reference);
+  return config && (config.config?.Labels ?? {});
+}
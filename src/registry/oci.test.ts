@@ -0,0 +1,144 @@
+import { describe, expect, mock, test } from "bun:test";
+import { OciRegistryClient, parseAuthChallenge } from "./oci";
+import { RegistryRequestError } from "./types";
+
+const BASE_URL = "http://registry.test";
+const TOKEN_URL = "http://auth.test/token";
+const INDEX_DIGEST =
+  "sha256:3333333333333333333333333333333333333333333333333333333333333333";
+
+/**
+ * A tiny registry that requires a Bearer token for every /v2 request
+ */
+function createRegistryMock() {
+  return mock(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input.toString());
+    const headers = new Headers(init?.headers);
+
+    if (url.toString().startsWith(TOKEN_URL)) {
+      return Response.json({
+        token: `token-for-${url.searchParams.get("scope")}`,
+      });
+    }
+    if (
+      headers.get("authorization") !==
+      "Bearer token-for-repository:owner/repo:pull"
+    ) {
+      return new Response("Unauthorized", {
+        status: 401,
+        statusText: "Unauthorized",
+        headers: {
+          "WWW-Authenticate": `Bearer realm="${TOKEN_URL}",service="registry.test",scope="repository:owner/repo:pull"`,
+        },
+      });
+    }
+
+    if (url.pathname === "/v2/owner/repo/tags/list") {
+      if (url.searchParams.get("last") === "0.2.0") {
+        return Response.json({ tags: ["0.3.0"] });
+      }
+      return Response.json(
+        { tags: ["0.1.0", "0.2.0"] },
+        {
+          headers: {
+            Link: '</v2/owner/repo/tags/list?n=1000&last=0.2.0>; rel="next"',
+          },
+        }
+      );
+    }
+    if (url.pathname === "/v2/owner/repo/manifests/0.3.0") {
+      return new Response(init?.method === "HEAD" ? null : '{"manifests":[]}', {
+        headers: {
+          "Docker-Content-Digest": INDEX_DIGEST,
+          "Content-Type": "application/vnd.oci.image.index.v1+json",
+          "Content-Length": "16",
+        },
+      });
+    }
+    if (url.pathname === "/v2/owner/repo/manifests/broken") {
+      return new Response("boom", { status: 500, statusText: "Server Error" });
+    }
+    return new Response("Not Found", { status: 404, statusText: "Not Found" });
+  });
+}
+
+function createClient(fetchFn = createRegistryMock()) {
+  return new OciRegistryClient({
+    registry: "registry.test",
+    baseUrl: BASE_URL,
+    fetchFn: fetchFn as unknown as typeof fetch,
+  });
+}
+
+describe("parseAuthChallenge", () => {
+  test("parses a Bearer challenge", () => {
+    expect(
+      parseAuthChallenge(
+        'Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:a/b:pull"'
+      )
+    ).toEqual({
+      scheme: "bearer",
+      params: {
+        realm: "https://ghcr.io/token",
+        service: "ghcr.io",
+        scope: "repository:a/b:pull",
+      },
+    });
+  });
+
+  test("returns null without a header", () => {
+    expect(parseAuthChallenge(null)).toBeNull();
+  });
+});
+
+describe("OciRegistryClient", () => {
+  test("lists tags across Link pages after fetching a token", async () => {
+    const fetchFn = createRegistryMock();
+    const tags = await createClient(fetchFn).listTags("owner/repo");
+
+    expect(tags.map((t) => t.name)).toEqual(["0.1.0", "0.2.0", "0.3.0"]);
+    // 401, token, page 1 (retried), page 2 with the cached token
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+
+  test("filters tags by name", async () => {
+    const tags = await createClient().listTags("owner/repo", { name: ".3" });
+    expect(tags).toEqual([{ name: "0.3.0", last_updated: "" }]);
+  });
+
+  test("stops listing at the first tag matching until", async () => {
+    const fetchFn = createRegistryMock();
+    const tags = await createClient(fetchFn).listTags("owner/repo", {
+      until: (tag) => tag.name === "0.1.0",
+    });
+
+    expect(tags.map((t) => t.name)).toEqual(["0.1.0"]);
+    // 401, token, page 1 (retried); page 2 is never requested
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  test("resolves a tag to its index digest with HEAD", async () => {
+    expect(await createClient().headManifest("owner/repo", "0.3.0")).toEqual({
+      digest: INDEX_DIGEST,
+      mediaType: "application/vnd.oci.image.index.v1+json",
+      size: 16,
+    });
+  });
+
+  test("returns null for a missing manifest", async () => {
+    expect(await createClient().headManifest("owner/repo", "9.9.9")).toBeNull();
+    expect(await createClient().getManifest("owner/repo", "9.9.9")).toBeNull();
+  });
+
+  test("fetches and parses a manifest", async () => {
+    const manifest = await createClient().getManifest("owner/repo", "0.3.0");
+    expect(manifest?.descriptor.digest).toBe(INDEX_DIGEST);
+    expect(manifest?.body).toEqual({ manifests: [] });
+  });
+
+  test("throws RegistryRequestError on server errors", async () => {
+    await expect(
+      createClient().headManifest("owner/repo", "broken")
+    ).rejects.toBeInstanceOf(RegistryRequestError);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Client for registries implementing the OCI Distribution v2 API
+ * (ghcr.io, registry-1.docker.io, a local `registry:2`, private mirrors)
+ */
+
+import {
+  type Manifest,
+  type ManifestDescriptor,
+  type RegistryClient,
+  type RegistryCredentials,
+  type RegistryLogger,
+  RegistryRequestError,
+  type RegistryTag,
+  type TagListQuery,
+} from "./types";
+
+export const DEFAULT_TAG_PAGE_SIZE = 1000;
+export const DEFAULT_MAX_TAG_PAGES = 10;
+
+/**
+ * Manifest media types accepted when resolving a reference. Index and list
+ * types come first so multi-arch tags resolve to their manifest-list digest.
+ */
+export const MANIFEST_ACCEPT_TYPES = [
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+  "application/vnd.oci.image.manifest.v1+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+];
+
+export interface OciRegistryClientOptions {
+  /** Registry host reported by the client, e.g. "ghcr.io" */
+  registry: string;
+  /** Base URL of the registry API, defaults to https://<registry> */
+  baseUrl?: string;
+  credentials?: RegistryCredentials;
+  /** Fetch implementation, defaults to the global fetch */
+  fetchFn?: typeof fetch;
+  /** Receives warnings, defaults to the console */
+  logger?: RegistryLogger;
+}
+
+/**
+ * A parsed `WWW-Authenticate` challenge
+ */
+export interface AuthChallenge {
+  scheme: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Parses a `WWW-Authenticate` header such as
+ * `Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:a/b:pull"`
+ * @returns The challenge or null if the header is missing or malformed
+ */
+export function parseAuthChallenge(
+  header: string | null
+): AuthChallenge | null {
+  const match = header?.trim().match(/^(\w+)\s*(.*)$/);
+  if (!match?.[1]) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of (match[2] ?? "").matchAll(
+    /(\w+)=(?:"([^"]*)"|([^,\s]*))/g
+  )) {
+    if (param[1]) params[param[1]] = param[2] ?? param[3] ?? "";
+  }
+  return { scheme: match[1].toLowerCase(), params };
+}
+
+/**
+ * Extracts the `rel="next"` target of a `Link` header
+ */
+function parseNextLink(header: string | null): string | null {
+  return header?.match(/<([^>]+)>\s*;\s*rel="?next"?/)?.[1] ?? null;
+}
+
+function sha256Digest(body: string): string {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(body);
+  return `sha256:${hasher.digest("hex")}`;
+}
+
+function basicAuthorization(credentials: RegistryCredentials): string {
+  return `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64")}`;
+}
+
+export class OciRegistryClient implements RegistryClient {
+  readonly registry: string;
+  private readonly baseUrl: string;
+  private readonly credentials?: RegistryCredentials;
+  private readonly fetchFn: typeof fetch;
+  private readonly logger: RegistryLogger;
+  /** Authorization header values per repository, reused across requests */
+  private readonly authorizations = new Map<string, string>();
+
+  constructor(options: OciRegistryClientOptions) {
+    this.registry = options.registry;
+    this.baseUrl = (options.baseUrl ?? `https://${options.registry}`).replace(
+      /\/+$/,
+      ""
+    );
+    this.credentials = options.credentials;
+    this.fetchFn = options.fetchFn ?? fetch;
+    this.logger = options.logger ?? console;
+  }
+
+  async listTags(
+    repository: string,
+    query: TagListQuery = {}
+  ): Promise<RegistryTag[]> {
+    const maxPages = query.maxPages ?? DEFAULT_MAX_TAG_PAGES;
+    const tags: RegistryTag[] = [];
+    let url: string | null =
+      `${this.baseUrl}/v2/${repository}/tags/list?n=${DEFAULT_TAG_PAGE_SIZE}`;
+    let pagesFetched = 0;
+
+    while (url && pagesFetched < maxPages) {
+      const response = await this.request(repository, url, { method: "GET" });
+      if (!response.ok) {
+        throw new RegistryRequestError(
+          url,
+          response.status,
+          response.statusText
+        );
+      }
+      const page = (await response.json()) as { tags?: string[] | null };
+      pagesFetched++;
+
+      for (const name of page.tags ?? []) {
+        if (query.name === undefined || name.includes(query.name)) {
+          const tag = { name, last_updated: "" };
+          tags.push(tag);
+          if (query.until?.(tag)) return tags;
+        }
+      }
+      const next = parseNextLink(response.headers.get("link"));
+      url = next ? new URL(next, this.baseUrl).toString() : null;
+    }
+
+    if (url) {
+      this.logger.warn(
+        `Stopped listing ${this.registry}/${repository} tags after ${maxPages} pages; older tags were not considered.`
+      );
+    }
+    return tags;
+  }
+
+  async headManifest(
+    repository: string,
+    reference: string
+  ): Promise<ManifestDescriptor | null> {
+    const url = this.manifestUrl(repository, reference);
+    const response = await this.request(repository, url, {
+      method: "HEAD",
+      headers: { Accept: MANIFEST_ACCEPT_TYPES.join(", ") },
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new RegistryRequestError(url, response.status, response.statusText);
+    }
+
+    const digest = response.headers.get("docker-content-digest");
+    if (!digest) {
+      // Not every registry returns the digest on HEAD; fall back to hashing the body
+      return (
+        (await this.getManifest(repository, reference))?.descriptor ?? null
+      );
+    }
+    return {
+      digest,
+      mediaType: response.headers.get("content-type") ?? "",
+      size: Number(response.headers.get("content-length") ?? 0),
+    };
+  }
+
+  async getManifest(
+    repository: string,
+    reference: string
+  ): Promise<Manifest | null> {
+    const url = this.manifestUrl(repository, reference);
+    const response = await this.request(repository, url, {
+      method: "GET",
+      headers: { Accept: MANIFEST_ACCEPT_TYPES.join(", ") },
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new RegistryRequestError(url, response.status, response.statusText);
+    }
+
+    const text = await response.text();
+    return {
+      descriptor: {
+        digest:
+          response.headers.get("docker-content-digest") ?? sha256Digest(text),
+        mediaType: response.headers.get("content-type") ?? "",
+        size: Buffer.byteLength(text),
+      },
+      body: JSON.parse(text),
+    };
+  }
+
+  async getBlob(repository: string, digest: string): Promise<unknown | null> {
+    const url = `${this.baseUrl}/v2/${repository}/blobs/${digest}`;
+    const response = await this.request(repository, url, { method: "GET" });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new RegistryRequestError(url, response.status, response.statusText);
+    }
+    return response.json();
+  }
+
+  private manifestUrl(repository: string, reference: string): string {
+    return `${this.baseUrl}/v2/${repository}/manifests/${reference}`;
+  }
+
+  /**
+   * Sends a request, answering a 401 challenge (Bearer token or Basic auth)
+   * once and remembering the resulting authorization for the repository
+   */
+  private async request(
+    repository: string,
+    url: string,
+    init: RequestInit
+  ): Promise<Response> {
+    const send = (authorization?: string) => {
+      const headers = new Headers(init.headers);
+      if (authorization) headers.set("Authorization", authorization);
+      return this.fetchFn(url, { ...init, headers });
+    };
+
+    const response = await send(this.authorizations.get(repository));
+    if (response.status !== 401) return response;
+
+    const challenge = parseAuthChallenge(
+      response.headers.get("www-authenticate")
+    );
+    const authorization = challenge
+      ? await this.authorize(challenge, repository)
+      : null;
+    if (!authorization) return response;
+
+    this.authorizations.set(repository, authorization);
+    return send(authorization);
+  }
+
+  /**
+   * Answers an authentication challenge
+   * @returns The Authorization header value, or null if the challenge cannot be met
+   * @throws RegistryRequestError when the token endpoint rejects the request
+   */
+  private async authorize(
+    challenge: AuthChallenge,
+    repository: string
+  ): Promise<string | null> {
+    if (challenge.scheme === "basic") {
+      return this.credentials ? basicAuthorization(this.credentials) : null;
+    }
+    if (challenge.scheme !== "bearer" || !challenge.params.realm) return null;
+
+    const tokenUrl = new URL(challenge.params.realm);
+    if (challenge.params.service) {
+      tokenUrl.searchParams.set("service", challenge.params.service);
+    }
+    tokenUrl.searchParams.set(
+      "scope",
+      challenge.params.scope ?? `repository:${repository}:pull`
+    );
+
+    const response = await this.fetchFn(tokenUrl.toString(), {
+      headers: this.credentials
+        ? { Authorization: basicAuthorization(this.credentials) }
+        : {},
+    });
+    if (!response.ok) {
+      throw new RegistryRequestError(
+        tokenUrl.toString(),
+        response.status,
+        response.statusText,
+        `Registry token request failed: ${response.status} ${response.statusText} (URL: ${tokenUrl})`
+      );
+    }
+    const body = (await response.json()) as {
+      token?: string;
+      access_token?: string;
+    };
+    const token = body.token ?? body.access_token;
+    return token ? `Bearer ${token}` : null;
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatPlatform,
+  intersectPlatforms,
+  listImagePlatforms,
+  parsePlatformList,
+  platformMatches,
+} from "./platforms";
+import type { Manifest, RegistryClient } from "./types";
+
+const CONFIG_DIGEST =
+  "sha256:4444444444444444444444444444444444444444444444444444444444444444";
+
+/**
+ * In-memory client serving fixed manifests and blobs
+ */
+function createClient(
+  manifests: Record<string, unknown>,
+  blobs: Record<string, unknown> = {}
+): RegistryClient {
+  return {
+    registry: "registry.test",
+    listTags: async () => [],
+    headManifest: async () => null,
+    getManifest: async (_repository, reference): Promise<Manifest | null> => {
+      const body = manifests[reference];
+      if (body === undefined) return null;
+      return {
+        descriptor: { digest: "sha256:0", mediaType: "", size: 0 },
+        body,
+      };
+    },
+    getBlob: async (_repository, digest) => blobs[digest] ?? null,
+  };
+}
+
+describe("formatPlatform", () => {
+  test("includes the variant when present", () => {
+    expect(
+      formatPlatform({ os: "linux", architecture: "arm64", variant: "v8" })
+    ).toBe("linux/arm64/v8");
+  });
+
+  test("skips attestation entries", () => {
+    expect(
+      formatPlatform({ os: "unknown", architecture: "unknown" })
+    ).toBeNull();
+  });
+});
+
+describe("parsePlatformList", () => {
+  test("splits and trims a comma-separated list", () => {
+    expect(parsePlatformList(" linux/amd64, linux/arm64 ,")).toEqual([
+      "linux/amd64",
+      "linux/arm64",
+    ]);
+  });
+});
+
+describe("platformMatches", () => {
+  test("matches any variant when none is requested", () => {
+    expect(platformMatches("linux/arm64", "linux/arm64/v8")).toBe(true);
+  });
+
+  test("requires the requested variant", () => {
+    expect(platformMatches("linux/arm/v7", "linux/arm/v6")).toBe(false);
+  });
+
+  test("requires the same architecture", () => {
+    expect(platformMatches("linux/arm64", "linux/amd64")).toBe(false);
+  });
+});
+
+describe("intersectPlatforms", () => {
+  test("keeps the platforms every list provides", () => {
+    expect(
+      intersectPlatforms([
+        ["linux/amd64", "linux/arm64"],
+        ["linux/amd64", "linux/arm64/v8"],
+        ["linux/amd64"],
+      ])
+    ).toEqual(["linux/amd64"]);
+  });
+
+  test("treats a variant as the same platform", () => {
+    expect(intersectPlatforms([["linux/arm64"], ["linux/arm64/v8"]])).toEqual([
+      "linux/arm64",
+    ]);
+  });
+
+  test("skips unknown lists", () => {
+    expect(intersectPlatforms([null, ["linux/amd64"]])).toEqual([
+      "linux/amd64",
+    ]);
+    expect(intersectPlatforms([null, null])).toBeNull();
+  });
+});
+
+describe("listImagePlatforms", () => {
+  test("reads the platforms of a manifest list", async () => {
+    const client = createClient({
+      multi: {
+        manifests: [
+          { platform: { os: "linux", architecture: "amd64" } },
+          { platform: { os: "linux", architecture: "arm64", variant: "v8" } },
+          { platform: { os: "unknown", architecture: "unknown" } },
+        ],
+      },
+    });
+    expect(await listImagePlatforms(client, "owner/repo", "multi")).toEqual([
+      "linux/amd64",
+      "linux/arm64/v8",
+    ]);
+  });
+
+  test("reads the config of a single-platform image", async () => {
+    const client = createClient(
+      { single: { config: { digest: CONFIG_DIGEST } } },
+      { [CONFIG_DIGEST]: { os: "linux", architecture: "amd64" } }
+    );
+    expect(await listImagePlatforms(client, "owner/repo", "single")).toEqual([
+      "linux/amd64",
+    ]);
+  });
+
+  test("returns null for a missing image", async () => {
+    expect(
+      await listImagePlatforms(createClient({}), "owner/repo", "missing")
+    ).toBeNull();
+  });
+
+  test("returns null for an image without platform information", async () => {
+    const client = createClient(
+      {
+        attestations: {
+          manifests: [{ platform: { os: "unknown", architecture: "unknown" } }],
+        },
+        noConfig: {},
+        noPlatform: { config: { digest: CONFIG_DIGEST } },
+      },
+      { [CONFIG_DIGEST]: {} }
+    );
+    for (const reference of ["attestations", "noConfig", "noPlatform"]) {
+      expect(
+        await listImagePlatforms(client, "owner/repo", reference)
+      ).toBeNull();
+    }
+    expect(
+      intersectPlatforms([
+        await listImagePlatforms(client, "owner/repo", "noPlatform"),
+        ["linux/amd64"],
+      ])
+    ).toEqual(["linux/amd64"]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Platform ("os/architecture[/variant]") handling for multi-arch images
+ */
+
+import type { RegistryClient } from "./types";
+
+/**
+ * Platform of a manifest list entry or image config
+ */
+export interface PlatformSpec {
+  os?: string;
+  architecture?: string;
+  variant?: string;
+}
+
+/**
+ * Formats a platform as "os/architecture[/variant]"
+ * @returns The platform or null if os or architecture is missing or "unknown"
+ * (BuildKit attestation manifests use "unknown/unknown")
+ */
+export function formatPlatform(spec: PlatformSpec): string | null {
+  if (!spec.os || !spec.architecture) return null;
+  if (spec.os === "unknown" || spec.architecture === "unknown") return null;
+  return [spec.os, spec.architecture, spec.variant]
+    .filter(Boolean)
+    .join("/")
+    .toLowerCase();
+}
+
+/**
+ * Parses a comma-separated platform list such as "linux/amd64,linux/arm64"
+ */
+export function parsePlatformList(value: string): string[] {
+  return value
+    .split(",")
+    .map((platform) => platform.trim().toLowerCase())
+    .filter((platform) => platform !== "");
+}
+
+/**
+ * Checks whether an available platform satisfies a requested one. A request
+ * without a variant matches any variant, so "linux/arm64" matches "linux/arm64/v8".
+ */
+export function platformMatches(requested: string, available: string): boolean {
+  const [os, architecture, variant] = requested.toLowerCase().split("/");
+  const [availableOs, availableArchitecture, availableVariant] = available
+    .toLowerCase()
+    .split("/");
+  return (
+    os === availableOs &&
+    architecture === availableArchitecture &&
+    (variant === undefined || variant === availableVariant)
+  );
+}
+
+/**
+ * Checks whether a platform is in a list, using `platformMatches` in both
+ * directions so "linux/arm64" and "linux/arm64/v8" are considered the same
+ */
+export function platformIn(platform: string, platforms: string[]): boolean {
+  return platforms.some(
+    (entry) =>
+      platformMatches(platform, entry) || platformMatches(entry, platform)
+  );
+}
+
+/**
+ * Computes the platforms every list provides. Unknown (null) lists are skipped.
+ * @returns The common platforms, or null if every list is unknown
+ */
+export function intersectPlatforms(
+  lists: (string[] | null)[]
+): string[] | null {
+  const known = lists.filter((list): list is string[] => list !== null);
+  const [first, ...rest] = known;
+  if (!first) return null;
+  return first.filter((platform) =>
+    rest.every((list) => platformIn(platform, list))
+  );
+}
+
+/**
+ * Lists the platforms marked as not present in a per-platform result
+ */
+export function missingPlatforms(platforms: Record<string, boolean>): string[] {
+  return Object.entries(platforms)
+    .filter(([, present]) => !present)
+    .map(([platform]) => platform);
+}
+
+/**
+ * The platform of the machine running the tooling, e.g. "linux/amd64"
+ */
+export function hostPlatform(): string {
+  const architecture = process.arch === "x64" ? "amd64" : process.arch;
+  return `linux/${architecture}`;
+}
+
+/**
+ * Lists the platforms an image provides. Manifest lists report them per
+ * entry; for a single-platform image the config blob is read.
+ * @returns The platforms, or null if the image does not exist or does not
+ * report its platforms
+ * @throws RegistryRequestError when the registry answers with an unexpected status
+ */
+export async function listImagePlatforms(
+  client: RegistryClient,
+  repository: string,
+  reference: string
+): Promise<string[] | null> {
+  const manifest = await client.getManifest(repository, reference);
+  if (!manifest) return null;
+
+  const body = manifest.body as {
+    manifests?: { platform?: PlatformSpec }[];
+    config?: { digest?: string };
+  };
+  if (Array.isArray(body.manifests)) {
+    const platforms = body.manifests
+      .map((entry) => (entry.platform ? formatPlatform(entry.platform) : null))
+      .filter((platform): platform is string => platform !== null);
+    return platforms.length > 0 ? platforms : null;
+  }
+
+  if (!body.config?.digest) return null;
+  const config = (await client.getBlob(
+    repository,
+    body.config.digest
+  )) as PlatformSpec | null;
+  const platform = config ? formatPlatform(config) : null;
+  return platform ? [platform] : null;
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { createRetryingFetch, parseRetryAfter } from "./retry";
+
+/**
+ * Fetch mock answering with the given responses in order
+ */
+function createFetchMock(responses: (Response | Error)[]) {
+  let call = 0;
+  return mock(async () => {
+    const next = responses[Math.min(call++, responses.length - 1)];
+    if (next instanceof Error) throw next;
+    return next as Response;
+  });
+}
+
+function createSleepMock() {
+  return mock(async (_ms: number) => {});
+}
+
+describe("parseRetryAfter", () => {
+  test("parses seconds", () => {
+    expect(parseRetryAfter("7")).toBe(7000);
+  });
+
+  test("parses an HTTP date", () => {
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:30 GMT", now)).toBe(30_000);
+  });
+
+  test("returns null for a missing or invalid header", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("createRetryingFetch", () => {
+  let logger: { warn: ReturnType<typeof mock> };
+
+  beforeEach(() => {
+    logger = { warn: mock(() => {}) };
+  });
+
+  test("retries with exponential backoff until the request succeeds", async () => {
+    const fetchFn = createFetchMock([
+      new Response(null, { status: 503 }),
+      new TypeError("socket hang up"),
+      Response.json({ ok: true }),
+    ]);
+    const sleep = createSleepMock();
+    const retryingFetch = createRetryingFetch({
+      fetchFn: fetchFn as unknown as typeof fetch,
+      sleep,
+      baseDelayMs: 100,
+      logger,
+    });
+
+    const response = await retryingFetch("https://hub.docker.com/v2/x");
+    expect(response.status).toBe(200);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("failed: TypeError: socket hang up")
+    );
+  });
+
+  test("waits for Retry-After on 429", async () => {
+    const fetchFn = createFetchMock([
+      new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+      Response.json({}),
+    ]);
+    const sleep = createSleepMock();
+    await createRetryingFetch({
+      fetchFn: fetchFn as unknown as typeof fetch,
+      sleep,
+      logger,
+    })("https://hub.docker.com/v2/x");
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([2000]);
+  });
+
+  test("caps Retry-After at the maximum delay", async () => {
+    const fetchFn = createFetchMock([
+      new Response(null, { status: 429, headers: { "Retry-After": "3600" } }),
+      Response.json({}),
+    ]);
+    const sleep = createSleepMock();
+    await createRetryingFetch({
+      fetchFn: fetchFn as unknown as typeof fetch,
+      sleep,
+      logger,
+      maxDelayMs: 5000,
+    })("https://hub.docker.com/v2/x");
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([5000]);
+  });
+
+  test("returns the last response once retries are used up", async () => {
+    const fetchFn = createFetchMock([new Response(null, { status: 429 })]);
+    const response = await createRetryingFetch({
+      fetchFn: fetchFn as unknown as typeof fetch,
+      sleep: createSleepMock(),
+      logger,
+      retries: 2,
+    })("https://hub.docker.com/v2/x");
+
+    expect(response.status).toBe(429);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  test("does not retry client errors", async () => {
+    const fetchFn = createFetchMock([new Response(null, { status: 404 })]);
+    const response = await createRetryingFetch({
+      fetchFn: fetchFn as unknown as typeof fetch,
+      sleep: createSleepMock(),
+      logger,
+    })("https://hub.docker.com/v2/x");
+
+    expect(response.status).toBe(404);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  test("rethrows the network error once retries are used up", async () => {
+    const fetchFn = createFetchMock([new TypeError("getaddrinfo ENOTFOUND")]);
+    await expect(
+      createRetryingFetch({
+        fetchFn: fetchFn as unknown as typeof fetch,
+        sleep: createSleepMock(),
+        logger,
+        retries: 1,
+      })("https://hub.docker.com/v2/x")
+    ).rejects.toThrow("ENOTFOUND");
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Retry with exponential backoff for registry requests, honouring
+ * `Retry-After` on rate-limited (429) and unavailable (503) responses
+ */
+
+import type { RegistryLogger } from "./types";
+
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_BASE_DELAY_MS = 500;
+export const DEFAULT_MAX_DELAY_MS = 30_000;
+
+/** Statuses that are worth retrying */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further retry */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay, including `Retry-After` */
+  maxDelayMs?: number;
+  /** Fetch implementation, defaults to the global fetch */
+  fetchFn?: typeof fetch;
+  /** Sleep implementation, replaced in tests */
+  sleep?: (ms: number) => Promise<void>;
+  /** Receives a warning for each retry, defaults to the console */
+  logger?: RegistryLogger;
+}
+
+/**
+ * Parses a `Retry-After` header given in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Wraps fetch so that network errors and retryable statuses are retried
+ * with exponential backoff. The last response (or error) is returned (or
+ * thrown) once the retries are used up.
+ */
+export function createRetryingFetch(options: RetryOptions = {}): typeof fetch {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const fetchFn = options.fetchFn ?? fetch;
+  const sleep = options.sleep ?? ((ms: number) => Bun.sleep(ms));
+  const logger = options.logger ?? console;
+
+  const retryingFetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      let delay: number;
+      try {
+        const response = await fetchFn(input, init);
+        if (!RETRYABLE_STATUSES.has(response.status) || attempt >= retries) {
+          return response;
+        }
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        delay = Math.min(retryAfter ?? backoff, maxDelayMs);
+        logger.warn(
+          `Request to ${input} returned ${response.status} ${response.statusText}; retrying in ${delay}ms (attempt ${attempt + 1}/${retries}).`
+        );
+      } catch (error) {
+        if (attempt >= retries) throw error;
+        delay = backoff;
+        logger.warn(
+          `Request to ${input} failed: ${error}; retrying in ${delay}ms (attempt ${attempt + 1}/${retries}).`
+        );
+      }
+      await sleep(delay);
+    }
+  };
+  return retryingFetch as typeof fetch;
+}
@@ -0,0 +1,108 @@
+/**
+ * Registry-agnostic types shared by the Docker Hub and OCI Distribution clients
+ */
+
+/**
+ * A tag listed by a registry. Docker Hub also reports when the tag was last
+ * pushed and the digest it points to; plain OCI registries only list names.
+ */
+export interface RegistryTag {
+  name: string;
+  /** ISO timestamp of the last push, empty if the registry does not report it */
+  last_updated: string;
+  /** Digest of the manifest (list) the tag points to, if reported */
+  digest?: string;
+}
+
+/**
+ * Query options for listing the tags of a repository
+ */
+export interface TagListQuery {
+  /** Substring filter on the tag name */
+  name?: string;
+  /** Preferred ordering, only honoured by registries that support it */
+  ordering?: "last_updated" | "name";
+  /** Maximum number of pages to follow before giving up */
+  maxPages?: number;
+  /** Stops listing at the first tag matching it, for lookups that need no older tags */
+  until?: (tag: RegistryTag) => boolean;
+}
+
+/**
+ * Identifies a manifest (or manifest list) without its contents
+ */
+export interface ManifestDescriptor {
+  /** Content digest, e.g. "sha256:..." */
+  digest: string;
+  mediaType: string;
+  size: number;
+}
+
+/**
+ * A fetched manifest together with its descriptor
+ */
+export interface Manifest {
+  descriptor: ManifestDescriptor;
+  /** Parsed JSON body of the manifest */
+  body: unknown;
+}
+
+/**
+ * Receives the warnings of registry clients, e.g. about retries or truncated
+ * tag listings
+ */
+export type RegistryLogger = Pick<Console, "warn">;
+
+/**
+ * Username/password (or token) used to authenticate against a registry
+ */
+export interface RegistryCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Read access to an image registry
+ */
+export interface RegistryClient {
+  /** Registry host the client talks to, e.g. "docker.io" or "ghcr.io" */
+  readonly registry: string;
+  /**
+   * Lists the tags of a repository
+   * @throws RegistryRequestError when the registry answers with a non-OK status
+   */
+  listTags(repository: string, query?: TagListQuery): Promise<RegistryTag[]>;
+  /**
+   * Resolves a tag or digest to a manifest descriptor with a HEAD request
+   * @returns The descriptor or null if the manifest does not exist
+   */
+  headManifest(
+    repository: string,
+    reference: string
+  ): Promise<ManifestDescriptor | null>;
+  /**
+   * Fetches a manifest or manifest list
+   * @returns The manifest or null if it does not exist
+   */
+  getManifest(repository: string, reference: string): Promise<Manifest | null>;
+  /**
+   * Fetches a JSON blob such as an image config by digest
+   * @returns The parsed blob or null if it does not exist
+   */
+  getBlob(repository: string, digest: string): Promise<unknown | null>;
+}
+
+/**
+ * Raised when a registry answers a request with an unexpected status
+ */
+export class RegistryRequestError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly status: number,
+    public readonly statusText: string,
+    message = `Registry request failed: ${status} ${statusText} (URL: ${url})`
+  ) {
+    super(message);
+    this.name = "RegistryRequestError";
+  }
+}
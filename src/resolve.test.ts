@@ -0,0 +1,158 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ResolvedComponents } from "./getVars";
+import { type LockEntry, readLockfile } from "./lockfile";
+
+// Upstream tags returned by the mocked resolution, keyed by PG major version
+let upstream: Record<string, string> = {};
+
+const resolveComponents = mock(
+  async (
+    pgMajorVersion: string,
+    ..._args: unknown[]
+  ): Promise<ResolvedComponents> => {
+    const bitnami = upstream[pgMajorVersion];
+    if (!bitnami) throw new Error(`No upstream tag for PG ${pgMajorVersion}`);
+    return {
+      bitnami: { tag: bitnami, digest: `sha256:${"b".repeat(64)}` },
+      pgvector: { tag: `0.8.0-pg${pgMajorVersion}`, digest: null },
+      pgvectorVersion: "0.8.0",
+      pgSearch: { tag: `0.15.18-pg${pgMajorVersion}`, digest: null },
+      pgSearchChannel: "stable",
+    };
+  }
+);
+
+const withoutRegistryCache = mock(() => ({
+  env: { REGISTRY_CACHE: "off" },
+}));
+
+mock.module("./getVars", () => ({ resolveComponents, withoutRegistryCache }));
+
+const { runResolve } = await import("./resolve");
+
+const tempDir = mkdtempSync(join(tmpdir(), "resolve-"));
+let lockfilePath: string;
+let testIndex = 0;
+const logger = mock(() => {});
+
+beforeEach(() => {
+  upstream = { "16": "16.8.0-debian-12-r2", "17": "17.4.0-debian-12-r9" };
+  lockfilePath = join(tempDir, `lock-${testIndex++}.json`);
+  resolveComponents.mockClear();
+  withoutRegistryCache.mockClear();
+  logger.mockClear();
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("runResolve", () => {
+  test("writes an entry for each PostgreSQL major version", async () => {
+    const changed = await runResolve(
+      { pgMajorVersions: ["16", "17"], channel: "stable", lockfilePath },
+      logger
+    );
+
+    expect(changed).toBe(2);
+    const lockfile = await readLockfile(lockfilePath);
+    expect(Object.keys(lockfile.versions)).toEqual(["16", "17"]);
+    expect(lockfile.versions["17"]?.bitnami.tag).toBe("17.4.0-debian-12-r9");
+    expect(lockfile.versions["17"]?.resolvedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(logger).toHaveBeenCalledWith(`${lockfilePath} updated.`);
+  });
+
+  test("passes the channel and strict mode to the resolution", async () => {
+    await runResolve(
+      {
+        pgMajorVersions: ["17"],
+        channel: "rc",
+        lockfilePath,
+        strict: true,
+      },
+      logger
+    );
+
+    expect(resolveComponents.mock.calls[0]?.slice(0, 4)).toEqual([
+      "17",
+      "rc",
+      undefined,
+      true,
+    ]);
+    expect(resolveComponents.mock.calls[0]?.[6]).toBeUndefined();
+  });
+
+  test("resolves without the registry cache with noCache", async () => {
+    await runResolve(
+      {
+        pgMajorVersions: ["16", "17"],
+        channel: "stable",
+        lockfilePath,
+        noCache: true,
+      },
+      logger
+    );
+
+    expect(withoutRegistryCache).toHaveBeenCalledTimes(1);
+    for (const call of resolveComponents.mock.calls) {
+      expect(call[6]).toEqual({ env: { REGISTRY_CACHE: "off" } });
+    }
+  });
+
+  test("only rewrites the entries whose upstream tags changed", async () => {
+    const options = {
+      pgMajorVersions: ["16", "17"],
+      channel: "stable" as const,
+      lockfilePath,
+    };
+    await runResolve(options, logger);
+    const before = await readLockfile(lockfilePath);
+
+    upstream["17"] = "17.4.0-debian-12-r17";
+    logger.mockClear();
+    expect(await runResolve(options, logger)).toBe(1);
+
+    const after = await readLockfile(lockfilePath);
+    expect(after.versions["16"]).toEqual(before.versions["16"] as LockEntry);
+    expect(after.versions["17"]?.bitnami.tag).toBe("17.4.0-debian-12-r17");
+    expect(logger).toHaveBeenCalledWith("PG 16: up-to-date.");
+    expect(logger).toHaveBeenCalledWith(
+      "  bitnami.tag: 17.4.0-debian-12-r9 -> 17.4.0-debian-12-r17"
+    );
+
+    logger.mockClear();
+    expect(await runResolve(options, logger)).toBe(0);
+    expect(logger).toHaveBeenCalledWith(`${lockfilePath} is up-to-date.`);
+  });
+
+  test("does not write the lockfile in dry-run mode", async () => {
+    const changed = await runResolve(
+      {
+        pgMajorVersions: ["17"],
+        channel: "stable",
+        lockfilePath,
+        dryRun: true,
+      },
+      logger
+    );
+
+    expect(changed).toBe(1);
+    expect(existsSync(lockfilePath)).toBe(false);
+    expect(logger).toHaveBeenCalledWith(
+      `[Dry Run] ${lockfilePath} not written.`
+    );
+  });
+
+  test("propagates resolution errors without writing the lockfile", async () => {
+    await expect(
+      runResolve(
+        { pgMajorVersions: ["15"], channel: "stable", lockfilePath },
+        logger
+      )
+    ).rejects.toThrow("No upstream tag for PG 15");
+    expect(existsSync(lockfilePath)).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+#!/usr/bin/env bun
+import { Command } from "commander";
+import { loadConfig } from "./config";
+import { exitCodeFor } from "./errors";
+import { resolveComponents, withoutRegistryCache } from "./getVars";
+import {
+  DEFAULT_LOCKFILE_PATH,
+  type LockEntry,
+  diffLockEntries,
+  readLockfile,
+  writeLockfile,
+} from "./lockfile";
+import { type PgSearchChannel, parsePgSearchChannel } from "./tags/paradedb";
+
+interface ResolveOptions {
+  pgMajorVersions: string[];
+  channel: PgSearchChannel;
+  lockfilePath: string;
+  dryRun?: boolean;
+  /** Fail instead of falling back to default upstream tags */
+  strict?: boolean;
+  /** Bypass the on-disk cache for upstream registry requests */
+  noCache?: boolean;
+}
+
+/**
+ * Resolves the upstream tags for each PostgreSQL major version and records
+ * them in the lockfile
+ * @returns The number of lock entries that changed
+ */
+async function runResolve(
+  options: ResolveOptions,
+  logger: (
+    message?: unknown,
+    ...optionalParams: unknown[]
+  ) => void = console.log
+): Promise<number> {
+  const lockfile = await readLockfile(options.lockfilePath);
+  const deps = options.noCache ? withoutRegistryCache() : undefined;
+  let changedEntries = 0;
+
+  for (const pgMajorVersion of options.pgMajorVersions) {
+    logger(`Resolving upstream versions for PG ${pgMajorVersion}...`);
+    const components = await resolveComponents(
+      pgMajorVersion,
+      options.channel,
+      undefined,
+      options.strict,
+      {},
+      undefined,
+      deps
+    );
+    const entry: LockEntry = {
+      ...components,
+      resolvedAt: new Date().toISOString(),
+    };
+
+    const changes = diffLockEntries(lockfile.versions[pgMajorVersion], entry);
+    if (changes.length === 0) {
+      logger(`PG ${pgMajorVersion}: up-to-date.`);
+      continue;
+    }
+
+    changedEntries++;
+    logger(`PG ${pgMajorVersion}: ${changes.length} change(s)`);
+    for (const change of changes) {
+      logger(
+        `  ${change.field}: ${change.from ?? "(none)"} -> ${change.to ?? "(none)"}`
+      );
+    }
+    lockfile.versions[pgMajorVersion] = entry;
+  }
+
+  if (changedEntries === 0) {
+    logger(`${options.lockfilePath} is up-to-date.`);
+  } else if (options.dryRun) {
+    logger(`[Dry Run] ${options.lockfilePath} not written.`);
+  } else {
+    await writeLockfile(lockfile, options.lockfilePath);
+    logger(`${options.lockfilePath} updated.`);
+  }
+  return changedEntries;
+}
+
+// --- Main Execution ---
+if (import.meta.main) {
+  const config = loadConfig();
+  const program = new Command();
+
+  program
+    .name("bun run src/resolve.ts")
+    .description(
+      "Resolve upstream image tags and digests into the version lockfile"
+    )
+    .option(
+      "--pg <versions>",
+      "Comma-separated PostgreSQL major versions (e.g., 16,17)",
+      config.pgVersions.supported.join(",")
+    )
+    .option(
+      "--channel <channel>",
+      "pg_search release channel: stable, rc or latest",
+      config.pgSearchChannel
+    )
+    .option("--lockfile <path>", "Path to the lockfile", DEFAULT_LOCKFILE_PATH)
+    .option("-d, --dry-run", "Show changes without writing the lockfile")
+    .option(
+      "--strict",
+      "Fail if an upstream tag cannot be resolved instead of falling back to defaults"
+    )
+    .option(
+      "--no-cache",
+      "Query the upstream registry instead of using cached responses"
+    )
+    .action(async (options) => {
+      const pgMajorVersions = String(options.pg)
+        .split(",")
+        .map((v: string) => v.trim());
+      if (pgMajorVersions.some((v) => !/^\d+$/.test(v))) {
+        console.error(
+          `Error: Invalid PostgreSQL versions provided: '${options.pg}'. Must be numbers.`
+        );
+        process.exit(1);
+      }
+      try {
+        await runResolve({
+          pgMajorVersions,
+          channel: parsePgSearchChannel(options.channel),
+          lockfilePath: options.lockfile,
+          dryRun: options.dryRun,
+          strict: options.strict,
+          noCache: !options.cache,
+        });
+      } catch (error) {
+        console.error(
+          `Error resolving versions: ${error instanceof Error ? error.message : error}`
+        );
+        process.exit(exitCodeFor(error));
+      }
+    });
+
+  program.parse(process.argv);
+}
+
+// Export for testing
+export { runResolve };
@@ -1,19 +1,15 @@
 #!/usr/bin/env bun
 import { $ } from "bun";
 import { Command } from "commander";
+import { type ProjectConfig, loadConfig } from "./config";
+import { exitCodeFor } from "./errors";
 import { getVars } from "./getVars";
 
-const DEFAULT_PG_VERSION = "16"; // Default to a generally available version
-const TEST_DB_USER = "testuser";
-const TEST_DB_PASSWORD = "testpassword";
-const TEST_DB_NAME = "testdb";
-const TEST_DB_PORT = 5433; // Use a non-default port to avoid conflicts
-
-async function waitForDbReady(containerName: string, timeoutSeconds: number = 60): Promise<boolean> {
+async function waitForDbReady(containerName: string, tests: ProjectConfig["tests"], timeoutSeconds: number = 60): Promise<boolean> {
   console.log(`Waiting for database in container ${containerName} to be ready...`);
   const startTime = Date.now();
   while (Date.now() - startTime < timeoutSeconds * 1000) {
-    const check = await $`docker exec ${containerName} pg_isready -U ${TEST_DB_USER} -d ${TEST_DB_NAME} -h localhost -p 5432`.nothrow().quiet();
+    const check = await $`docker exec ${containerName} pg_isready -U ${tests.user} -d ${tests.database} -h localhost -p 5432`.nothrow().quiet();
     if (check.exitCode === 0) {
       console.log("Database is ready.");
       return true;
@@ -24,13 +20,17 @@ async function waitForDbReady(containerName: string, timeoutSeconds: number = 60
   return false;
 }
 
-async function runTests(pgMajorVersion: string) {
+async function runTests(pgMajorVersion: string, frozen = false, config: ProjectConfig = loadConfig()) {
+  const TEST_DB_USER = config.tests.user;
+  const TEST_DB_PASSWORD = config.tests.password;
+  const TEST_DB_NAME = config.tests.database;
+  const TEST_DB_PORT = config.tests.port; // Non-default port by default, to avoid conflicts
   const containerName = `pgvector-test-db-pg${pgMajorVersion}`;
   let testExitCode = 1; // Default to failure
 
   try {
     console.log(`Fetching variables for PG ${pgMajorVersion}...`);
-    const vars = await getVars(pgMajorVersion, { suppressExports: true });
+    const vars = await getVars(pgMajorVersion, { suppressExports: true, frozen, config });
     // Revert back to tagShort, which IS tagged locally by build.ts
     const imageTag = vars.tagShort; // Use tagShort again
     if (!imageTag) {
@@ -62,7 +62,7 @@ async function runTests(pgMajorVersion: string) {
     console.log(`Container ${containerName} started.`);
 
     // --- Wait for DB ---
-    if (!await waitForDbReady(containerName)) {
+    if (!await waitForDbReady(containerName, config.tests)) {
         throw new Error("Database failed to become ready.");
     }
 
@@ -99,7 +99,7 @@ async function runTests(pgMajorVersion: string) {
 
   } catch (error) {
       console.error("An error occurred during the test process:", error);
-      testExitCode = 1; // Ensure failure exit code on error
+      testExitCode = exitCodeFor(error); // Ensure failure exit code on error
   } finally {
       // --- Cleanup ---
       console.log(`Stopping and removing container ${containerName}...`);
@@ -114,18 +114,20 @@ async function runTests(pgMajorVersion: string) {
 
 // --- Main Execution ---
 if (import.meta.main) {
+  const config = loadConfig();
   const program = new Command();
 
   program
     .name("bun run src/run-tests.ts")
     .description("Start a test DB container, run tests, and clean up.")
-    .option("--pg <version>", "PostgreSQL major version for the test database", DEFAULT_PG_VERSION)
+    .option("--pg <version>", "PostgreSQL major version for the test database", config.pgVersions.primary)
+    .option("--frozen", "Use the upstream versions recorded in versions.lock.json and do not query any registry")
     .action(async (options) => {
         if (Number.isNaN(Number.parseInt(options.pg, 10))) {
             console.error(`Error: Invalid PostgreSQL version provided: '${options.pg}'. Must be a number.`);
             process.exit(1);
         }
-        await runTests(options.pg);
+        await runTests(options.pg, options.frozen, config);
     });
 
   program.parse(process.argv);
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import {
+  COMPONENT_LABELS,
+  type ImageComponents,
+  componentLabels,
+  componentsFromLabels,
+  findComponentRegression,
+} from "./aliases";
+
+const COMPONENTS: ImageComponents = {
+  bitnami: "17.4.0-debian-12-r17",
+  pgvector: "0.8.0-pg17",
+  pgSearch: "0.15.18-pg17",
+};
+
+describe("componentLabels", () => {
+  test("round-trips through componentsFromLabels", () => {
+    expect(componentsFromLabels(componentLabels(COMPONENTS))).toEqual(
+      COMPONENTS
+    );
+  });
+
+  test("ignores unrelated labels", () => {
+    expect(
+      componentsFromLabels({
+        "org.opencontainers.image.description": "PostgreSQL",
+        [COMPONENT_LABELS.pgvector]: "0.7.4-pg17",
+      })
+    ).toEqual({ pgvector: "0.7.4-pg17" });
+  });
+});
+
+describe("findComponentRegression", () => {
+  test("allows newer and equal versions", () => {
+    expect(
+      findComponentRegression(
+        {
+          ...COMPONENTS,
+          pgvector: "0.7.4-pg17",
+          bitnami: "17.2.0-debian-12-r1",
+        },
+        COMPONENTS
+      )
+    ).toBeNull();
+    expect(findComponentRegression(COMPONENTS, COMPONENTS)).toBeNull();
+  });
+
+  test("reports the component that would move backwards", () => {
+    expect(
+      findComponentRegression(
+        { ...COMPONENTS, bitnami: "17.4.0-debian-12-r18" },
+        COMPONENTS
+      )
+    ).toBe("bitnami 17.4.0-debian-12-r17 is older than 17.4.0-debian-12-r18");
+    expect(
+      findComponentRegression(
+        { pgSearch: "0.16.0-pg17" },
+        { ...COMPONENTS, pgSearch: "0.16.0-rc.1-pg17" }
+      )
+    ).toBe("pgSearch 0.16.0-rc.1-pg17 is older than 0.16.0-pg17");
+  });
+
+  test("skips components that are missing or cannot be ordered", () => {
+    expect(findComponentRegression({}, COMPONENTS)).toBeNull();
+    expect(
+      findComponentRegression({ pgvector: "custom-build" }, COMPONENTS)
+    ).toBeNull();
+  });
+});
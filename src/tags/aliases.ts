@@ -0,0 +1,105 @@
+/**
+ * Upstream versions recorded in image labels and the check that keeps
+ * rolling alias tags from moving to older versions
+ */
+
+import { compareBitnamiTags, parseBitnamiTag } from "./bitnami";
+import { compareParadeDbTags, parseParadeDbTag } from "./paradedb";
+import { comparePgvectorTags, parsePgvectorTag } from "./pgvector";
+
+/**
+ * Upstream tags an image was built from
+ */
+export interface ImageComponents {
+  /** Bitnami tag, e.g. "17.4.0-debian-12-r17" */
+  bitnami: string;
+  /** pgvector builder tag, e.g. "0.8.0-pg17" */
+  pgvector: string;
+  /** ParadeDB tag, e.g. "0.15.18-pg17" */
+  pgSearch: string;
+}
+
+/**
+ * Image labels carrying the upstream tags
+ */
+export const COMPONENT_LABELS: Record<keyof ImageComponents, string> = {
+  bitnami: "io.github.beshkenadze.bitnami-pgvector.bitnami-tag",
+  pgvector: "io.github.beshkenadze.bitnami-pgvector.pgvector-tag",
+  pgSearch: "io.github.beshkenadze.bitnami-pgvector.pg-search-tag",
+};
+
+/**
+ * Parses a tag and compares it with another, null if either does not parse
+ */
+type TagComparator = (a: string, b: string) => number | null;
+
+function comparator<T>(
+  parse: (tag: string) => T | null,
+  compare: (a: T, b: T) => number
+): TagComparator {
+  return (a, b) => {
+    const parsedA = parse(a);
+    const parsedB = parse(b);
+    return parsedA && parsedB ? compare(parsedA, parsedB) : null;
+  };
+}
+
+const COMPARATORS: Record<keyof ImageComponents, TagComparator> = {
+  bitnami: comparator(parseBitnamiTag, compareBitnamiTags),
+  pgvector: comparator(parsePgvectorTag, comparePgvectorTags),
+  pgSearch: comparator(parseParadeDbTag, compareParadeDbTags),
+};
+
+/**
+ * Labels recording the upstream tags of an image
+ */
+export function componentLabels(
+  components: ImageComponents
+): Record<string, string> {
+  return {
+    [COMPONENT_LABELS.bitnami]: components.bitnami,
+    [COMPONENT_LABELS.pgvector]: components.pgvector,
+    [COMPONENT_LABELS.pgSearch]: components.pgSearch,
+  };
+}
+
+/**
+ * Reads the upstream tags back from image labels. Images published before
+ * the labels were introduced yield an empty result.
+ */
+export function componentsFromLabels(
+  labels: Record<string, string>
+): Partial<ImageComponents> {
+  const components: Partial<ImageComponents> = {};
+  for (const [component, label] of Object.entries(COMPONENT_LABELS) as [
+    keyof ImageComponents,
+    string,
+  ][]) {
+    const value = labels[label];
+    if (value) components[component] = value;
+  }
+  return components;
+}
+
+/**
+ * Finds an upstream component the candidate image is older in than the
+ * image an alias currently points at. Components that are missing or whose
+ * tags do not parse cannot be ordered and are not compared.
+ * @returns A description of the first regression, or null if the alias may move
+ */
+export function findComponentRegression(
+  current: Partial<ImageComponents>,
+  candidate: ImageComponents
+): string | null {
+  for (const component of Object.keys(
+    COMPARATORS
+  ) as (keyof ImageComponents)[]) {
+    const currentTag = current[component];
+    if (!currentTag) continue;
+    const order = COMPARATORS[component](candidate[component], currentTag);
+    if (order !== null && order < 0) {
+      return `${component} ${candidate[component]} is older than ${currentTag}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type BitnamiTag,
+  compareBitnamiTags,
+  formatPostgresVersion,
+  parseBitnamiTag,
+  rankBitnamiTags,
+  selectLatestBitnamiTag,
+} from "./bitnami";
+
+function parse(tag: string): BitnamiTag {
+  const parsed = parseBitnamiTag(tag);
+  if (!parsed) throw new Error(`Expected ${tag} to parse`);
+  return parsed;
+}
+
+describe("parseBitnamiTag", () => {
+  test("parses a full revisioned tag", () => {
+    expect(parseBitnamiTag("17.4.0-debian-12-r17")).toEqual({
+      raw: "17.4.0-debian-12-r17",
+      major: 17,
+      minor: 4,
+      patch: 0,
+      distro: "debian",
+      distroVersion: 12,
+      revision: 17,
+    });
+  });
+
+  test("parses a floating tag without revision", () => {
+    expect(parseBitnamiTag("16.6.0-debian-12")?.revision).toBeNull();
+  });
+
+  test("rejects tags outside the Bitnami scheme", () => {
+    expect(parseBitnamiTag("latest")).toBeNull();
+    expect(parseBitnamiTag("17")).toBeNull();
+    expect(parseBitnamiTag("17.4.0")).toBeNull();
+    expect(parseBitnamiTag("17.4.0-debian-12-r17-extra")).toBeNull();
+  });
+});
+
+describe("formatPostgresVersion", () => {
+  test("formats the full PostgreSQL version", () => {
+    expect(formatPostgresVersion(parse("17.4.0-debian-12-r17"))).toBe("17.4.0");
+  });
+});
+
+describe("compareBitnamiTags", () => {
+  test("orders by minor before revision", () => {
+    expect(
+      compareBitnamiTags(
+        parse("16.6.0-debian-12-r2"),
+        parse("16.4.0-debian-12-r30")
+      )
+    ).toBeGreaterThan(0);
+  });
+
+  test("orders revisions numerically", () => {
+    expect(
+      compareBitnamiTags(
+        parse("17.4.0-debian-12-r9"),
+        parse("17.4.0-debian-12-r10")
+      )
+    ).toBeLessThan(0);
+  });
+
+  test("sorts floating tags below revisioned ones", () => {
+    expect(
+      compareBitnamiTags(
+        parse("17.4.0-debian-12"),
+        parse("17.4.0-debian-12-r1")
+      )
+    ).toBeLessThan(0);
+  });
+});
+
+describe("selectLatestBitnamiTag", () => {
+  test("prefers the newer PostgreSQL minor over a re-pushed old tag", () => {
+    const selected = selectLatestBitnamiTag(
+      [
+        { name: "16.6.0-debian-12-r2", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "16.4.0-debian-12-r30", last_updated: "2025-03-01T00:00:00Z" },
+        { name: "16.6.0-debian-12-r1", last_updated: "2024-12-01T00:00:00Z" },
+      ],
+      16
+    );
+    expect(selected?.raw).toBe("16.6.0-debian-12-r2");
+  });
+
+  test("ignores other majors, other distros and unparsable tags", () => {
+    const selected = selectLatestBitnamiTag(
+      [
+        { name: "17.4.0-debian-12-r17", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "16.6.0-photon-5-r40", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "16-debian-12", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "16.2.0-debian-12-r5", last_updated: "2024-01-01T00:00:00Z" },
+      ],
+      16
+    );
+    expect(selected?.raw).toBe("16.2.0-debian-12-r5");
+  });
+
+  test("returns null when nothing matches", () => {
+    expect(
+      selectLatestBitnamiTag(
+        [{ name: "latest", last_updated: "2025-01-01T00:00:00Z" }],
+        17
+      )
+    ).toBeNull();
+  });
+});
+
+describe("rankBitnamiTags", () => {
+  test("names the filter that rejected each candidate", () => {
+    const { candidates } = rankBitnamiTags(
+      [
+        { name: "17.4.0-debian-12-r17", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "16.6.0-photon-5-r40", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "16-debian-12", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "16.2.0-debian-12-r5", last_updated: "2024-01-01T00:00:00Z" },
+      ],
+      16
+    );
+    expect(
+      candidates.map(({ name, kept, reason }) => [name, kept, reason])
+    ).toEqual([
+      [
+        "16.2.0-debian-12-r5",
+        true,
+        "newest by PostgreSQL version, distribution release and revision",
+      ],
+      ["17.4.0-debian-12-r17", false, "PostgreSQL 17, not 16"],
+      ["16.6.0-photon-5-r40", false, "photon image, not debian"],
+      ["16-debian-12", false, "not an X.Y.Z-<distro>-<release>[-rN] tag"],
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Parsing and ordering of bitnami/postgresql image tags,
+ * e.g. "17.4.0-debian-12-r17"
+ */
+
+import { type TagSelection, rankCandidates } from "./selection";
+import type { TagCandidate } from "./types";
+
+/**
+ * A parsed Bitnami PostgreSQL tag
+ */
+export interface BitnamiTag {
+  /** The original tag string */
+  raw: string;
+  /** PostgreSQL major version */
+  major: number;
+  /** PostgreSQL minor version */
+  minor: number;
+  /** PostgreSQL patch version (always 0 for PG >= 10, kept for ordering) */
+  patch: number;
+  /** Base distribution name, e.g. "debian" */
+  distro: string;
+  /** Base distribution release, e.g. 12 */
+  distroVersion: number;
+  /** Bitnami image revision (the `-rN` suffix), null for floating tags */
+  revision: number | null;
+}
+
+const BITNAMI_TAG_PATTERN = /^(\d+)\.(\d+)\.(\d+)-([a-z]+)-(\d+)(?:-r(\d+))?$/;
+
+/**
+ * Parses a Bitnami PostgreSQL tag
+ * @param tag Tag such as "17.4.0-debian-12-r17"
+ * @returns The parsed tag or null if the tag does not follow the Bitnami scheme
+ */
+export function parseBitnamiTag(tag: string): BitnamiTag | null {
+  const match = BITNAMI_TAG_PATTERN.exec(tag);
+  if (!match) return null;
+
+  const [, major, minor, patch, distro, distroVersion, revision] = match;
+  return {
+    raw: tag,
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    distro: distro as string,
+    distroVersion: Number(distroVersion),
+    revision: revision === undefined ? null : Number(revision),
+  };
+}
+
+/**
+ * Formats the PostgreSQL version of a tag, e.g. "17.4.0"
+ */
+export function formatPostgresVersion(tag: BitnamiTag): string {
+  return `${tag.major}.${tag.minor}.${tag.patch}`;
+}
+
+/**
+ * Compares two Bitnami tags by PostgreSQL version, distribution release and
+ * image revision. Floating tags without a revision sort below revisioned ones.
+ * @returns A negative number if a < b, positive if a > b, 0 if equal
+ */
+export function compareBitnamiTags(a: BitnamiTag, b: BitnamiTag): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    a.distro.localeCompare(b.distro) ||
+    a.distroVersion - b.distroVersion ||
+    (a.revision ?? -1) - (b.revision ?? -1)
+  );
+}
+
+/**
+ * Filters and orders Bitnami tags for a PostgreSQL major version, recording
+ * why each candidate was kept or rejected
+ * @param candidates Tags listed by the registry
+ * @param pgMajorVersion PostgreSQL major version to select for
+ * @param distro Base distribution to restrict the selection to
+ */
+export function rankBitnamiTags(
+  candidates: TagCandidate[],
+  pgMajorVersion: number,
+  distro = "debian"
+): TagSelection<BitnamiTag> {
+  return rankCandidates(candidates, {
+    parse: parseBitnamiTag,
+    unparsed: "not an X.Y.Z-<distro>-<release>[-rN] tag",
+    reject: (tag) => {
+      if (tag.major !== pgMajorVersion) {
+        return `PostgreSQL ${tag.major}, not ${pgMajorVersion}`;
+      }
+      if (tag.distro !== distro) return `${tag.distro} image, not ${distro}`;
+      return null;
+    },
+    compare: compareBitnamiTags,
+    order: "PostgreSQL version, distribution release and revision",
+  });
+}
+
+/**
+ * Picks the newest Bitnami tag for a PostgreSQL major version.
+ *
+ * Candidates are ordered by version; `last_updated` only breaks ties between
+ * tags that compare equal, so a re-pushed old tag never wins over a newer release.
+ * @param candidates Tags listed by the registry
+ * @param pgMajorVersion PostgreSQL major version to select for
+ * @param distro Base distribution to restrict the selection to
+ * @returns The selected tag or null if no candidate matches
+ */
+export function selectLatestBitnamiTag(
+  candidates: TagCandidate[],
+  pgMajorVersion: number,
+  distro = "debian"
+): BitnamiTag | null {
+  return rankBitnamiTags(candidates, pgMajorVersion, distro).selected;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type ParadeDbTag,
+  compareParadeDbTags,
+  parseParadeDbTag,
+  parsePgSearchChannel,
+  rankParadeDbTags,
+  selectParadeDbTag,
+} from "./paradedb";
+
+function parse(tag: string): ParadeDbTag {
+  const parsed = parseParadeDbTag(tag);
+  if (!parsed) throw new Error(`Expected ${tag} to parse`);
+  return parsed;
+}
+
+const PG17_TAGS = [
+  { name: "0.15.19-rc.0-pg17", last_updated: "2025-04-27T18:32:26Z" },
+  { name: "latest-pg17", last_updated: "2025-04-26T11:00:00Z" },
+  { name: "0.15.18-pg17", last_updated: "2025-04-25T10:00:00Z" },
+  { name: "0.15.17-pg17", last_updated: "2025-04-28T09:00:00Z" },
+  { name: "0.15.18-pg16", last_updated: "2025-04-25T10:00:00Z" },
+];
+
+describe("parseParadeDbTag", () => {
+  test("parses a release tag", () => {
+    expect(parseParadeDbTag("0.15.18-pg17")).toEqual({
+      raw: "0.15.18-pg17",
+      version: { major: 0, minor: 15, patch: 18 },
+      prerelease: null,
+      pgMajor: 17,
+    });
+  });
+
+  test("parses a release candidate tag", () => {
+    const tag = parse("0.15.19-rc.0-pg17");
+    expect(tag.prerelease).toBe("rc.0");
+    expect(tag.pgMajor).toBe(17);
+  });
+
+  test("parses the floating latest tag", () => {
+    expect(parseParadeDbTag("latest-pg16")).toEqual({
+      raw: "latest-pg16",
+      version: null,
+      prerelease: null,
+      pgMajor: 16,
+    });
+  });
+
+  test("rejects tags without a PG suffix", () => {
+    expect(parseParadeDbTag("latest")).toBeNull();
+    expect(parseParadeDbTag("0.15.18")).toBeNull();
+  });
+});
+
+describe("compareParadeDbTags", () => {
+  test("ranks a release above its release candidates", () => {
+    expect(
+      compareParadeDbTags(parse("0.15.19-pg17"), parse("0.15.19-rc.3-pg17"))
+    ).toBeGreaterThan(0);
+  });
+
+  test("orders release candidates numerically", () => {
+    expect(
+      compareParadeDbTags(parse("0.16.0-rc.2-pg17"), parse("0.16.0-rc.10-pg17"))
+    ).toBeLessThan(0);
+  });
+});
+
+describe("selectParadeDbTag", () => {
+  test("stable channel picks the highest release regardless of push time", () => {
+    expect(selectParadeDbTag(PG17_TAGS, 17, "stable")?.raw).toBe(
+      "0.15.18-pg17"
+    );
+  });
+
+  test("rc channel includes release candidates", () => {
+    expect(selectParadeDbTag(PG17_TAGS, 17, "rc")?.raw).toBe(
+      "0.15.19-rc.0-pg17"
+    );
+  });
+
+  test("latest channel picks the floating tag", () => {
+    expect(selectParadeDbTag(PG17_TAGS, 17, "latest")?.raw).toBe("latest-pg17");
+  });
+
+  test("stable channel never falls back to the floating tag", () => {
+    expect(
+      selectParadeDbTag(
+        [
+          { name: "latest-pg16", last_updated: "2025-03-20T10:00:00Z" },
+          { name: "0.14.6-rc.1-pg16", last_updated: "2025-03-18T11:00:00Z" },
+        ],
+        16,
+        "stable"
+      )
+    ).toBeNull();
+  });
+});
+
+describe("rankParadeDbTags", () => {
+  test("explains why each candidate was kept or rejected", () => {
+    expect(rankParadeDbTags(PG17_TAGS, 17, "stable").candidates).toEqual([
+      {
+        name: "0.15.18-pg17",
+        last_updated: "2025-04-25T10:00:00Z",
+        kept: true,
+        reason: "newest by pg_search version",
+      },
+      {
+        name: "0.15.17-pg17",
+        last_updated: "2025-04-28T09:00:00Z",
+        kept: true,
+        reason: "ranked #2: older than 0.15.18-pg17",
+      },
+      {
+        name: "0.15.19-rc.0-pg17",
+        last_updated: "2025-04-27T18:32:26Z",
+        kept: false,
+        reason: "prerelease rc.0, not on the stable channel",
+      },
+      {
+        name: "latest-pg17",
+        last_updated: "2025-04-26T11:00:00Z",
+        kept: false,
+        reason: "floating tag, not on the stable channel",
+      },
+      {
+        name: "0.15.18-pg16",
+        last_updated: "2025-04-25T10:00:00Z",
+        kept: false,
+        reason: "PostgreSQL 16, not 17",
+      },
+    ]);
+  });
+});
+
+describe("parsePgSearchChannel", () => {
+  test("accepts known channels", () => {
+    expect(parsePgSearchChannel("rc")).toBe("rc");
+  });
+
+  test("rejects unknown channels", () => {
+    expect(() => parsePgSearchChannel("nightly")).toThrow(
+      "Invalid pg_search channel 'nightly'"
+    );
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Parsing, ordering and channel selection of paradedb/paradedb image tags,
+ * e.g. "0.15.18-pg17", "0.15.19-rc.0-pg17" or "latest-pg17"
+ */
+
+import { type TagSelection, rankCandidates } from "./selection";
+import type { TagCandidate } from "./types";
+
+/**
+ * Release channels a pg_search build can follow:
+ * - `stable`: newest release without a prerelease suffix
+ * - `rc`: newest release including release candidates
+ * - `latest`: ParadeDB's floating `latest-pgN` tag (not reproducible)
+ */
+export type PgSearchChannel = "stable" | "rc" | "latest";
+
+export const PG_SEARCH_CHANNELS: readonly PgSearchChannel[] = [
+  "stable",
+  "rc",
+  "latest",
+];
+
+/**
+ * Image tag suffix for each channel, so non-stable builds publish a parallel image line
+ */
+export const CHANNEL_TAG_SUFFIXES: Record<PgSearchChannel, string> = {
+  stable: "",
+  rc: "-rc",
+  latest: "-latest",
+};
+
+/**
+ * A parsed ParadeDB tag
+ */
+export interface ParadeDbTag {
+  /** The original tag string */
+  raw: string;
+  /** pg_search version, null for the floating `latest-pgN` tag */
+  version: {
+    major: number;
+    minor: number;
+    patch: number;
+  } | null;
+  /** Prerelease identifier such as "rc.0", null for releases */
+  prerelease: string | null;
+  /** PostgreSQL major version from the `-pgN` suffix */
+  pgMajor: number;
+}
+
+const VERSIONED_TAG_PATTERN =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.]+?))?-pg(\d+)$/;
+const LATEST_TAG_PATTERN = /^latest-pg(\d+)$/;
+
+/**
+ * Parses a ParadeDB tag
+ * @param tag Tag such as "0.15.18-pg17", "0.15.19-rc.0-pg17" or "latest-pg17"
+ * @returns The parsed tag or null if it does not carry a `-pgN` suffix
+ */
+export function parseParadeDbTag(tag: string): ParadeDbTag | null {
+  const latest = LATEST_TAG_PATTERN.exec(tag);
+  if (latest) {
+    return {
+      raw: tag,
+      version: null,
+      prerelease: null,
+      pgMajor: Number(latest[1]),
+    };
+  }
+
+  const match = VERSIONED_TAG_PATTERN.exec(tag);
+  if (!match) return null;
+
+  const [, major, minor, patch, prerelease, pgMajor] = match;
+  return {
+    raw: tag,
+    version: {
+      major: Number(major),
+      minor: Number(minor),
+      patch: Number(patch),
+    },
+    prerelease: prerelease ?? null,
+    pgMajor: Number(pgMajor),
+  };
+}
+
+/**
+ * Compares two prerelease identifiers using semver precedence rules
+ */
+function comparePrerelease(a: string | null, b: string | null): number {
+  if (a === b) return 0;
+  // A release has higher precedence than any of its prereleases
+  if (a === null) return 1;
+  if (b === null) return -1;
+
+  const partsA = a.split(".");
+  const partsB = b.split(".");
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i];
+    const partB = partsB[i];
+    if (partA === undefined) return -1;
+    if (partB === undefined) return 1;
+
+    const numA = /^\d+$/.test(partA) ? Number(partA) : null;
+    const numB = /^\d+$/.test(partB) ? Number(partB) : null;
+    if (numA !== null && numB !== null) {
+      if (numA !== numB) return numA - numB;
+    } else if (numA !== null) {
+      return -1;
+    } else if (numB !== null) {
+      return 1;
+    } else if (partA !== partB) {
+      return partA < partB ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compares two versioned ParadeDB tags by semver precedence.
+ * The floating `latest-pgN` tag sorts below every versioned tag.
+ * @returns A negative number if a < b, positive if a > b, 0 if equal
+ */
+export function compareParadeDbTags(a: ParadeDbTag, b: ParadeDbTag): number {
+  if (!a.version || !b.version) {
+    return (a.version ? 1 : 0) - (b.version ? 1 : 0);
+  }
+  return (
+    a.version.major - b.version.major ||
+    a.version.minor - b.version.minor ||
+    a.version.patch - b.version.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * Explains why a tag may not be selected on the given channel
+ * @returns The reason, or null if the tag is on the channel
+ */
+function channelRejection(
+  tag: ParadeDbTag,
+  channel: PgSearchChannel
+): string | null {
+  switch (channel) {
+    case "stable":
+      if (tag.version === null)
+        return "floating tag, not on the stable channel";
+      return tag.prerelease === null
+        ? null
+        : `prerelease ${tag.prerelease}, not on the stable channel`;
+    case "rc":
+      if (tag.version === null) return "floating tag, not on the rc channel";
+      return tag.prerelease === null || tag.prerelease.startsWith("rc")
+        ? null
+        : `prerelease ${tag.prerelease}, not on the rc channel`;
+    case "latest":
+      return tag.version === null
+        ? null
+        : "versioned tag, the latest channel follows latest-pgN";
+  }
+}
+
+/**
+ * Filters and orders ParadeDB tags for a PostgreSQL major and channel,
+ * recording why each candidate was kept or rejected
+ * @param candidates Tags listed by the registry
+ * @param pgMajorVersion PostgreSQL major version to select for
+ * @param channel Release channel to follow
+ */
+export function rankParadeDbTags(
+  candidates: TagCandidate[],
+  pgMajorVersion: number,
+  channel: PgSearchChannel = "stable"
+): TagSelection<ParadeDbTag> {
+  return rankCandidates(candidates, {
+    parse: parseParadeDbTag,
+    unparsed: "not an X.Y.Z[-prerelease]-pgN or latest-pgN tag",
+    reject: (tag) =>
+      tag.pgMajor !== pgMajorVersion
+        ? `PostgreSQL ${tag.pgMajor}, not ${pgMajorVersion}`
+        : channelRejection(tag, channel),
+    compare: compareParadeDbTags,
+    order: "pg_search version",
+  });
+}
+
+/**
+ * Picks the ParadeDB tag to build against for a PostgreSQL major and channel
+ * @param candidates Tags listed by the registry
+ * @param pgMajorVersion PostgreSQL major version to select for
+ * @param channel Release channel to follow
+ * @returns The selected tag or null if no candidate matches
+ */
+export function selectParadeDbTag(
+  candidates: TagCandidate[],
+  pgMajorVersion: number,
+  channel: PgSearchChannel = "stable"
+): ParadeDbTag | null {
+  return rankParadeDbTags(candidates, pgMajorVersion, channel).selected;
+}
+
+/**
+ * Validates a channel name coming from the CLI or the environment
+ * @throws Error if the value is not a known channel
+ */
+export function parsePgSearchChannel(value: string): PgSearchChannel {
+  if ((PG_SEARCH_CHANNELS as readonly string[]).includes(value)) {
+    return value as PgSearchChannel;
+  }
+  throw new Error(
+    `Invalid pg_search channel '${value}'. Expected one of: ${PG_SEARCH_CHANNELS.join(", ")}.`
+  );
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatPgvectorVersion,
+  parsePgvectorTag,
+  rankPgvectorTags,
+  selectLatestPgvectorTag,
+} from "./pgvector";
+
+describe("parsePgvectorTag", () => {
+  test("parses a default-variant tag", () => {
+    expect(parsePgvectorTag("0.8.0-pg17")).toEqual({
+      raw: "0.8.0-pg17",
+      major: 0,
+      minor: 8,
+      patch: 0,
+      pgMajor: 17,
+      variant: null,
+    });
+  });
+
+  test("parses a distro variant tag", () => {
+    expect(parsePgvectorTag("0.8.0-pg17-bookworm")?.variant).toBe("bookworm");
+  });
+
+  test("rejects unversioned tags", () => {
+    expect(parsePgvectorTag("pg17")).toBeNull();
+    expect(parsePgvectorTag("latest")).toBeNull();
+  });
+});
+
+describe("selectLatestPgvectorTag", () => {
+  test("picks the highest version for the PG major", () => {
+    const selected = selectLatestPgvectorTag(
+      [
+        { name: "0.7.4-pg17", last_updated: "2025-05-01T00:00:00Z" },
+        { name: "0.8.0-pg17", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "0.8.1-pg16", last_updated: "2025-06-01T00:00:00Z" },
+        { name: "0.8.1-pg17-bookworm", last_updated: "2025-06-01T00:00:00Z" },
+        { name: "pg17", last_updated: "2025-06-01T00:00:00Z" },
+      ],
+      17
+    );
+
+    expect(selected?.raw).toBe("0.8.0-pg17");
+    expect(selected && formatPgvectorVersion(selected)).toBe("0.8.0");
+  });
+
+  test("orders patch versions numerically", () => {
+    const selected = selectLatestPgvectorTag(
+      [
+        { name: "0.7.10-pg16", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "0.7.9-pg16", last_updated: "2025-02-01T00:00:00Z" },
+      ],
+      16
+    );
+
+    expect(selected?.raw).toBe("0.7.10-pg16");
+  });
+
+  test("returns null when nothing matches", () => {
+    expect(selectLatestPgvectorTag([], 17)).toBeNull();
+  });
+});
+
+describe("rankPgvectorTags", () => {
+  test("rejects distro variants", () => {
+    const { candidates } = rankPgvectorTags(
+      [{ name: "0.8.1-pg17-bookworm", last_updated: "2025-06-01T00:00:00Z" }],
+      17
+    );
+    expect(candidates[0]).toMatchObject({
+      kept: false,
+      reason: "bookworm variant, only default-variant tags are built",
+    });
+  });
+});
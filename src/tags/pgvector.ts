@@ -0,0 +1,104 @@
+/**
+ * Parsing and ordering of pgvector/pgvector image tags,
+ * e.g. "0.8.0-pg17" or "0.8.0-pg17-bookworm"
+ */
+
+import { type TagSelection, rankCandidates } from "./selection";
+import type { TagCandidate } from "./types";
+
+/**
+ * A parsed pgvector tag
+ */
+export interface PgvectorTag {
+  /** The original tag string */
+  raw: string;
+  /** pgvector major version */
+  major: number;
+  /** pgvector minor version */
+  minor: number;
+  /** pgvector patch version */
+  patch: number;
+  /** PostgreSQL major version from the `-pgN` suffix */
+  pgMajor: number;
+  /** Base distribution variant such as "bookworm", null for the default variant */
+  variant: string | null;
+}
+
+const PGVECTOR_TAG_PATTERN = /^(\d+)\.(\d+)\.(\d+)-pg(\d+)(?:-([a-z]+))?$/;
+
+/**
+ * Parses a pgvector tag
+ * @param tag Tag such as "0.8.0-pg17" or "0.8.0-pg17-bookworm"
+ * @returns The parsed tag or null if the tag is not a versioned pgvector tag
+ */
+export function parsePgvectorTag(tag: string): PgvectorTag | null {
+  const match = PGVECTOR_TAG_PATTERN.exec(tag);
+  if (!match) return null;
+
+  const [, major, minor, patch, pgMajor, variant] = match;
+  return {
+    raw: tag,
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    pgMajor: Number(pgMajor),
+    variant: variant ?? null,
+  };
+}
+
+/**
+ * Compares two pgvector tags by pgvector version
+ * @returns A negative number if a < b, positive if a > b, 0 if equal
+ */
+export function comparePgvectorTags(a: PgvectorTag, b: PgvectorTag): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Formats the pgvector version of a tag, e.g. "0.8.0"
+ */
+export function formatPgvectorVersion(tag: PgvectorTag): string {
+  return `${tag.major}.${tag.minor}.${tag.patch}`;
+}
+
+/**
+ * Filters and orders pgvector tags for a PostgreSQL major version, recording
+ * why each candidate was kept or rejected
+ * @param candidates Tags listed by the registry
+ * @param pgMajorVersion PostgreSQL major version to select for
+ */
+export function rankPgvectorTags(
+  candidates: TagCandidate[],
+  pgMajorVersion: number
+): TagSelection<PgvectorTag> {
+  return rankCandidates(candidates, {
+    parse: parsePgvectorTag,
+    unparsed: "not an X.Y.Z-pgN tag",
+    reject: (tag) => {
+      if (tag.pgMajor !== pgMajorVersion) {
+        return `PostgreSQL ${tag.pgMajor}, not ${pgMajorVersion}`;
+      }
+      if (tag.variant !== null) {
+        return `${tag.variant} variant, only default-variant tags are built`;
+      }
+      return null;
+    },
+    compare: comparePgvectorTags,
+    order: "pgvector version",
+  });
+}
+
+/**
+ * Picks the newest pgvector release for a PostgreSQL major version.
+ * Only default-variant `X.Y.Z-pgN` tags are considered, since those are
+ * the tags the Dockerfile builder stage is built from.
+ * @param candidates Tags listed by the registry
+ * @param pgMajorVersion PostgreSQL major version to select for
+ * @returns The selected tag or null if no candidate matches
+ */
+export function selectLatestPgvectorTag(
+  candidates: TagCandidate[],
+  pgMajorVersion: number
+): PgvectorTag | null {
+  return rankPgvectorTags(candidates, pgMajorVersion).selected;
+}
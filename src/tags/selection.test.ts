@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { rankCandidates } from "./selection";
+
+interface NumberTag {
+  raw: string;
+  value: number;
+}
+
+const RULES = {
+  parse: (name: string): NumberTag | null =>
+    /^\d+$/.test(name) ? { raw: name, value: Number(name) } : null,
+  unparsed: "not a number",
+  reject: (tag: NumberTag) => (tag.value > 100 ? "above 100" : null),
+  compare: (a: NumberTag, b: NumberTag) => a.value - b.value,
+  order: "value",
+};
+
+describe("rankCandidates", () => {
+  test("selects the highest candidate and lists kept ones before rejected ones", () => {
+    const { selected, candidates } = rankCandidates(
+      [
+        { name: "abc", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "5", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "500", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "50", last_updated: "2025-01-01T00:00:00Z" },
+      ],
+      RULES
+    );
+
+    expect(selected?.raw).toBe("50");
+    expect(
+      candidates.map(({ name, kept, reason }) => [name, kept, reason])
+    ).toEqual([
+      ["50", true, "newest by value"],
+      ["5", true, "ranked #2: older than 50"],
+      ["abc", false, "not a number"],
+      ["500", false, "above 100"],
+    ]);
+  });
+
+  test("breaks ties by push time and says so", () => {
+    const { selected, candidates } = rankCandidates(
+      [
+        { name: "07", last_updated: "2025-01-01T00:00:00Z" },
+        { name: "7", last_updated: "2025-02-01T00:00:00Z" },
+      ],
+      RULES
+    );
+
+    expect(selected?.raw).toBe("7");
+    expect(candidates[1]?.reason).toBe(
+      "ranked #2: same value as 7, pushed earlier"
+    );
+  });
+
+  test("selects nothing when every candidate is rejected", () => {
+    const { selected, candidates } = rankCandidates(
+      [{ name: "latest", last_updated: "" }],
+      RULES
+    );
+    expect(selected).toBeNull();
+    expect(candidates).toEqual([
+      { name: "latest", last_updated: "", kept: false, reason: "not a number" },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Filtering and ordering of tag candidates shared by the upstream tag
+ * selectors, recording why each candidate was kept or rejected
+ */
+
+import type { CandidateExplanation, TagCandidate } from "./types";
+
+/**
+ * Outcome of a selection: the chosen tag and every candidate considered
+ */
+export interface TagSelection<T> {
+  selected: T | null;
+  /** The selected candidate first, then the other kept ones in order, then the rejected ones */
+  candidates: CandidateExplanation[];
+}
+
+/**
+ * How a selector parses, filters and orders its tags
+ */
+export interface SelectionRules<T extends { raw: string }> {
+  /** Parses a tag name, null if it does not follow the scheme */
+  parse: (name: string) => T | null;
+  /** Reason given for names that do not parse, e.g. "not an X.Y.Z-pgN tag" */
+  unparsed: string;
+  /** Reason a parsed tag is rejected, null to keep it */
+  reject: (tag: T) => string | null;
+  /** Orders kept tags, a positive number if a is newer than b */
+  compare: (a: T, b: T) => number;
+  /** Describes the ordering, e.g. "pgvector version" */
+  order: string;
+}
+
+/**
+ * Drops the candidates the rules reject and orders the rest newest first.
+ * `last_updated` only breaks ties between tags that compare equal, so a
+ * re-pushed old tag never wins over a newer release.
+ */
+export function rankCandidates<T extends { raw: string }>(
+  candidates: TagCandidate[],
+  rules: SelectionRules<T>
+): TagSelection<T> {
+  const lastUpdated = new Map(
+    candidates.map((c) => [c.name, new Date(c.last_updated).getTime() || 0])
+  );
+
+  const kept: T[] = [];
+  const rejected: CandidateExplanation[] = [];
+  for (const candidate of candidates) {
+    const tag = rules.parse(candidate.name);
+    const reason = tag ? rules.reject(tag) : rules.unparsed;
+    if (tag && reason === null) {
+      kept.push(tag);
+    } else {
+      rejected.push({ ...candidate, kept: false, reason: reason ?? "" });
+    }
+  }
+
+  const sorted = kept.sort(
+    (a, b) =>
+      rules.compare(b, a) ||
+      (lastUpdated.get(b.raw) ?? 0) - (lastUpdated.get(a.raw) ?? 0)
+  );
+  const selected = sorted[0] ?? null;
+  const lastUpdatedOf = new Map(
+    candidates.map((c) => [c.name, c.last_updated])
+  );
+
+  const ranked = sorted.map((tag, index): CandidateExplanation => {
+    let reason = `newest by ${rules.order}`;
+    if (selected && index > 0) {
+      reason =
+        rules.compare(tag, selected) === 0
+          ? `ranked #${index + 1}: same ${rules.order} as ${selected.raw}, pushed earlier`
+          : `ranked #${index + 1}: older than ${selected.raw}`;
+    }
+    return {
+      name: tag.raw,
+      last_updated: lastUpdatedOf.get(tag.raw) ?? "",
+      kept: true,
+      reason,
+    };
+  });
+
+  return { selected, candidates: [...ranked, ...rejected] };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_TAG_TEMPLATES,
+  type TagValues,
+  isValidTag,
+  renderImageTags,
+  renderTagTemplate,
+  validateTagTemplate,
+} from "./templates";
+
+const VALUES: TagValues = {
+  pgvector: "0.8.0",
+  pgvectorMinor: "0.8",
+  pgvectorMajor: "0",
+  pg: "17",
+  pgMinor: "17.4",
+  pgFull: "17.4.0",
+  bitnami: "17.4.0-debian-12-r17",
+  revision: "-r17",
+  pgsearch: "0.15.18",
+  pgsearchMinor: "0.15",
+  hash: "abc123",
+  channel: "",
+};
+
+describe("isValidTag", () => {
+  test("follows the OCI tag grammar", () => {
+    expect(isValidTag("0.8.0-pg17")).toBe(true);
+    expect(isValidTag("_internal")).toBe(true);
+    expect(isValidTag("-rc")).toBe(false);
+    expect(isValidTag(".hidden")).toBe(false);
+    expect(isValidTag("pg17+rc")).toBe(false);
+    expect(isValidTag("a".repeat(128))).toBe(true);
+    expect(isValidTag("a".repeat(129))).toBe(false);
+  });
+});
+
+describe("renderTagTemplate", () => {
+  test("substitutes every placeholder", () => {
+    expect(
+      renderTagTemplate("{pgvector}-pg{pg}-{pgFull}-{pgsearch}{channel}", {
+        ...VALUES,
+        channel: "-rc",
+      })
+    ).toBe("0.8.0-pg17-17.4.0-0.15.18-rc");
+  });
+
+  test("renders the Bitnami revision as an optional suffix", () => {
+    const template = "postgres{pgFull}{revision}";
+    expect(renderTagTemplate(template, VALUES)).toBe("postgres17.4.0-r17");
+    expect(renderTagTemplate(template, { ...VALUES, revision: "" })).toBe(
+      "postgres17.4.0"
+    );
+  });
+
+  test("rejects unknown placeholders", () => {
+    expect(() => renderTagTemplate("{pgvectro}-pg{pg}", VALUES)).toThrow(
+      'tag template: unknown placeholder {pgvectro} in "{pgvectro}-pg{pg}". Expected one of: {pgvector}, {pgvectorMinor},'
+    );
+  });
+
+  test("rejects results outside the tag grammar", () => {
+    expect(() =>
+      renderTagTemplate("{channel}", VALUES, "tags.extra[0]")
+    ).toThrow(
+      'tags.extra[0]: "{channel}" renders to "", which is not a valid OCI tag'
+    );
+  });
+});
+
+describe("validateTagTemplate", () => {
+  test("accepts the default templates", () => {
+    for (const [key, value] of Object.entries(DEFAULT_TAG_TEMPLATES)) {
+      for (const template of [value].flat()) {
+        validateTagTemplate(template, key);
+      }
+    }
+  });
+
+  test("checks the template with every channel suffix", () => {
+    expect(() =>
+      validateTagTemplate("{channel}pg{pg}", "tags.tagShort")
+    ).toThrow('tags.tagShort: "{channel}pg{pg}" renders to "-rcpg17"');
+  });
+});
+
+describe("renderImageTags", () => {
+  test("renders the default templates", () => {
+    const rendered = renderImageTags(
+      DEFAULT_TAG_TEMPLATES,
+      VALUES,
+      "ghcr.io/owner/repo"
+    );
+    expect(rendered).toEqual({
+      fullImageTag: "ghcr.io/owner/repo:0.8.0-pg17-17.4.0-debian-12-r17",
+      tagShort: "ghcr.io/owner/repo:0.8.0-pg17",
+      tagWithFullPostgresVersion:
+        "ghcr.io/owner/repo:0.8.0-pg17-postgres17.4.0",
+      tagLatestPg: "ghcr.io/owner/repo:latest-pg17",
+      versionsHashTag: "ghcr.io/owner/repo:sha-abc123",
+      tags: [
+        "ghcr.io/owner/repo:0.8.0-pg17-17.4.0-debian-12-r17",
+        "ghcr.io/owner/repo:0.8.0-pg17",
+        "ghcr.io/owner/repo:0.8.0-pg17-postgres17.4.0",
+        "ghcr.io/owner/repo:latest-pg17",
+        "ghcr.io/owner/repo:sha-abc123",
+      ],
+      aliasTags: [
+        "ghcr.io/owner/repo:0.8-pg17",
+        "ghcr.io/owner/repo:0-pg17",
+        "ghcr.io/owner/repo:pg17.4",
+        "ghcr.io/owner/repo:pg17.4-search0.15",
+      ],
+    });
+  });
+
+  test("appends extra tags without duplicates", () => {
+    const { tags } = renderImageTags(
+      { ...DEFAULT_TAG_TEMPLATES, extra: ["pg{pgFull}", "latest-pg{pg}"] },
+      VALUES,
+      "ghcr.io/owner/repo"
+    );
+    expect(tags).toHaveLength(6);
+    expect(tags.at(-1)).toBe("ghcr.io/owner/repo:pg17.4.0");
+  });
+
+  test("leaves aliases that collide with fixed tags out of the alias list", () => {
+    const { aliasTags } = renderImageTags(
+      { ...DEFAULT_TAG_TEMPLATES, aliases: ["latest-pg{pg}", "pg{pgMinor}"] },
+      VALUES,
+      "ghcr.io/owner/repo"
+    );
+    expect(aliasTags).toEqual(["ghcr.io/owner/repo:pg17.4"]);
+  });
+});
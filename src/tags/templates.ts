@@ -0,0 +1,192 @@
+/**
+ * Declarative naming of the published image tags. A template such as
+ * "{pgvector}-pg{pg}{channel}" is rendered with the resolved versions and
+ * must yield a valid OCI tag.
+ */
+
+import { CHANNEL_TAG_SUFFIXES } from "./paradedb";
+
+/**
+ * Placeholders a tag template can use:
+ * - `{pgvector}`: pgvector version, e.g. "0.8.0"
+ * - `{pgvectorMinor}`, `{pgvectorMajor}`: its leading parts, e.g. "0.8" and "0"
+ * - `{pg}`: PostgreSQL major version, e.g. "17"
+ * - `{pgMinor}`: PostgreSQL major and minor version, e.g. "17.4"
+ * - `{pgFull}`: full PostgreSQL version from the Bitnami tag, e.g. "17.4.0"
+ * - `{bitnami}`: Bitnami tag, e.g. "17.4.0-debian-12-r17"
+ * - `{revision}`: Bitnami image revision as a suffix, e.g. "-r17", empty for floating tags
+ * - `{pgsearch}`: pg_search version without the `-pgN` suffix, e.g. "0.15.18"
+ * - `{pgsearchMinor}`: its major and minor version, e.g. "0.15"
+ * - `{hash}`: version hash of the build inputs
+ * - `{channel}`: tag suffix of the pg_search channel, empty for stable
+ */
+export type TagPlaceholder =
+  | "pgvector"
+  | "pgvectorMinor"
+  | "pgvectorMajor"
+  | "pg"
+  | "pgMinor"
+  | "pgFull"
+  | "bitnami"
+  | "revision"
+  | "pgsearch"
+  | "pgsearchMinor"
+  | "hash"
+  | "channel";
+
+export const TAG_PLACEHOLDERS: readonly TagPlaceholder[] = [
+  "pgvector",
+  "pgvectorMinor",
+  "pgvectorMajor",
+  "pg",
+  "pgMinor",
+  "pgFull",
+  "bitnami",
+  "revision",
+  "pgsearch",
+  "pgsearchMinor",
+  "hash",
+  "channel",
+];
+
+/**
+ * Values substituted for the placeholders
+ */
+export type TagValues = Record<TagPlaceholder, string>;
+
+/**
+ * Templates of the tags every image is published with
+ */
+export interface TagTemplates {
+  fullImageTag: string;
+  tagShort: string;
+  tagWithFullPostgresVersion: string;
+  tagLatestPg: string;
+  versionsHashTag: string;
+  /** Additional tags published alongside the named ones */
+  extra: string[];
+  /**
+   * Rolling alias tags. They are only published when they do not move the
+   * alias to older upstream versions than the image it currently points at.
+   */
+  aliases: string[];
+}
+
+export const DEFAULT_TAG_TEMPLATES: TagTemplates = {
+  fullImageTag: "{pgvector}-pg{pg}-{bitnami}{channel}",
+  tagShort: "{pgvector}-pg{pg}{channel}",
+  tagWithFullPostgresVersion: "{pgvector}-pg{pg}-postgres{pgFull}{channel}",
+  tagLatestPg: "latest-pg{pg}{channel}",
+  // The hash already covers the channel
+  versionsHashTag: "sha-{hash}",
+  extra: [],
+  aliases: [
+    "{pgvectorMinor}-pg{pg}{channel}",
+    "{pgvectorMajor}-pg{pg}{channel}",
+    "pg{pgMinor}{channel}",
+    "pg{pgMinor}-search{pgsearchMinor}{channel}",
+  ],
+};
+
+/**
+ * Tag grammar of the OCI distribution spec
+ */
+export const OCI_TAG_PATTERN = /^[a-zA-Z0-9_][a-zA-Z0-9._-]{0,127}$/;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+/**
+ * Representative values used to check templates before any version is resolved
+ */
+const SAMPLE_TAG_VALUES: Omit<TagValues, "channel"> = {
+  pgvector: "0.8.0",
+  pgvectorMinor: "0.8",
+  pgvectorMajor: "0",
+  pg: "17",
+  pgMinor: "17.4",
+  pgFull: "17.4.0",
+  bitnami: "17.4.0-debian-12-r17",
+  revision: "-r17",
+  pgsearch: "0.15.18",
+  pgsearchMinor: "0.15",
+  hash: "0".repeat(64),
+};
+
+/**
+ * Checks whether a string is a valid OCI tag
+ */
+export function isValidTag(tag: string): boolean {
+  return OCI_TAG_PATTERN.test(tag);
+}
+
+/**
+ * Renders a tag template
+ * @param source Name of the template used in error messages
+ * @throws Error for an unknown placeholder or if the result is not a valid OCI tag
+ */
+export function renderTagTemplate(
+  template: string,
+  values: TagValues,
+  source = "tag template"
+): string {
+  const tag = template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    if (!(TAG_PLACEHOLDERS as readonly string[]).includes(name)) {
+      throw new Error(
+        `${source}: unknown placeholder {${name}} in "${template}". Expected one of: ${TAG_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(", ")}.`
+      );
+    }
+    return values[name as TagPlaceholder];
+  });
+  if (!isValidTag(tag)) {
+    throw new Error(
+      `${source}: "${template}" renders to "${tag}", which is not a valid OCI tag (up to 128 letters, digits, "_", "." and "-", not starting with "." or "-").`
+    );
+  }
+  return tag;
+}
+
+/**
+ * Checks a template by rendering it with sample values for every pg_search channel
+ * @throws Error describing why the template cannot produce a valid tag
+ */
+export function validateTagTemplate(template: string, source: string): void {
+  for (const channel of Object.values(CHANNEL_TAG_SUFFIXES)) {
+    renderTagTemplate(template, { ...SAMPLE_TAG_VALUES, channel }, source);
+  }
+}
+
+/**
+ * Renders every template into an image reference
+ * @param imageName Registry and repository, e.g. "ghcr.io/owner/repo"
+ * @returns The named references, the deduplicated list of all references
+ * and the alias references, which are not part of that list
+ */
+export function renderImageTags(
+  templates: TagTemplates,
+  values: TagValues,
+  imageName: string
+): Omit<TagTemplates, "extra" | "aliases"> & {
+  tags: string[];
+  aliasTags: string[];
+} {
+  const render = (template: string, source: string) =>
+    `${imageName}:${renderTagTemplate(template, values, source)}`;
+  const named = {
+    fullImageTag: render(templates.fullImageTag, "tags.fullImageTag"),
+    tagShort: render(templates.tagShort, "tags.tagShort"),
+    tagWithFullPostgresVersion: render(
+      templates.tagWithFullPostgresVersion,
+      "tags.tagWithFullPostgresVersion"
+    ),
+    tagLatestPg: render(templates.tagLatestPg, "tags.tagLatestPg"),
+    versionsHashTag: render(templates.versionsHashTag, "tags.versionsHashTag"),
+  };
+  const extra = templates.extra.map((template, index) =>
+    render(template, `tags.extra[${index}]`)
+  );
+  const tags = [...new Set([...Object.values(named), ...extra])];
+  const aliasTags = templates.aliases
+    .map((template, index) => render(template, `tags.aliases[${index}]`))
+    .filter((tag) => !tags.includes(tag));
+  return { ...named, tags, aliasTags: [...new Set(aliasTags)] };
+}
@@ -0,0 +1,19 @@
+/**
+ * A tag candidate as listed by a registry, with the time it was last pushed
+ */
+export interface TagCandidate {
+  name: string;
+  last_updated: string;
+}
+
+/**
+ * What became of one candidate tag during selection
+ */
+export interface CandidateExplanation {
+  name: string;
+  last_updated: string;
+  /** Whether the candidate passed the filters */
+  kept: boolean;
+  /** The filter that rejected it, or its place in the ordering */
+  reason: string;
+}
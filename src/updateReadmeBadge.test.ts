@@ -11,6 +11,8 @@ import {
 } from "bun:test";
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { DEFAULT_CONFIG } from "./config";
+import type { ResolutionExplanation } from "./explain";
 import * as getVarsModule from "./getVars";
 
 // Create sample content for the README file
@@ -25,20 +27,75 @@ const sampleReadmeContent = `
 <!-- AVAILABLE_TAGS_END -->
 `;
 
+// Resolution explanation of tags read from the lockfile
+function lockedResolution(
+  pgMajorVersion: string,
+  bitnami: string,
+  pgvector: string,
+  pgSearch: string
+): ResolutionExplanation {
+  const locked = (repository: string, selected: string) => ({
+    repository,
+    source: "lockfile" as const,
+    candidates: [],
+    problem: null,
+    selected,
+  });
+  return {
+    pgMajorVersion,
+    pgSearchChannel: "stable",
+    bitnami: locked("bitnami/postgresql", bitnami),
+    pgvector: locked("pgvector/pgvector", pgvector),
+    pgSearch: locked("paradedb/paradedb", pgSearch),
+  };
+}
+
 // Sample mock response for getVars (matching ImageVars type)
 const mockVarsResponse: getVarsModule.ImageVars = {
   bitnamiName: "17.4.0-debian-12-r17",
+  postgresVersion: "17.4.0",
+  bitnamiRevision: 17,
   pgvectorBaseVersion: "pgvector-0.8.0",
   pgSearchName: "paradedb/paradedb:0.1.0-pg17",
   fullImageTag: "ghcr.io/bitnami-pgvector:0.8.0-pg17-17.4.0-debian-12-r17",
   tagShort: "ghcr.io/bitnami-pgvector:0.8.0-pg17",
-  tagWithFullPostgresVersion: "ghcr.io/bitnami-pgvector:0.8.0-pg17-postgres17",
+  tagWithFullPostgresVersion: "ghcr.io/bitnami-pgvector:0.8.0-pg17-postgres17.4.0",
   tagLatestPg: "ghcr.io/bitnami-pgvector:latest-pg17",
   pgvectorBuilderTag: "pgvector-0.8.0-pg17",
   repoName: "bitnami-pgvector",
-  imageExists: false,
+  imageExists: { exists: false, platforms: {}, allPlatforms: false },
+  upstreamPlatforms: {
+    bitnami: null,
+    pgvector: null,
+    pgSearch: null,
+    common: null,
+  },
+  buildPlatforms: ["linux/amd64", "linux/arm64"],
   versionHash: "mockHash17",
   versionsHashTag: "ghcr.io/bitnami-pgvector:sha-mockHash17",
+  pgSearchChannel: "stable",
+  bitnamiDigest: null,
+  pgvectorBuilderDigest: null,
+  pgSearchDigest: null,
+  bitnamiRef: "17.4.0-debian-12-r17",
+  pgvectorBuilderRef: "0.8.0-pg17",
+  pgSearchRef: "0.15.18-pg17",
+  tags: [
+    "ghcr.io/bitnami-pgvector:0.8.0-pg17-17.4.0-debian-12-r17",
+    "ghcr.io/bitnami-pgvector:0.8.0-pg17",
+    "ghcr.io/bitnami-pgvector:0.8.0-pg17-postgres17.4.0",
+    "ghcr.io/bitnami-pgvector:latest-pg17",
+    "ghcr.io/bitnami-pgvector:sha-mockHash17",
+  ],
+  aliasTags: [],
+  labels: {},
+  compatibility: null,
+  resolution: lockedResolution(
+    "17",
+    "17.4.0-debian-12-r17",
+    "0.8.0-pg17",
+    "0.15.18-pg17"
+  ),
 };
 
 // Mock fs module functions
@@ -99,18 +156,50 @@ beforeAll(() => {
         // Return a valid ImageVars object for PG16
         return {
           bitnamiName: "16.6.0-debian-12-r2",
+          postgresVersion: "16.6.0",
+          bitnamiRevision: 2,
           pgvectorBaseVersion: "pgvector-0.8.0",
           pgSearchName: "paradedb/paradedb:0.1.0-pg16",
           fullImageTag:
             "ghcr.io/bitnami-pgvector:0.8.0-pg16-16.6.0-debian-12-r2",
           tagShort: "ghcr.io/bitnami-pgvector:0.8.0-pg16",
-          tagWithFullPostgresVersion: "ghcr.io/bitnami-pgvector:0.8.0-pg16-postgres16",
+          tagWithFullPostgresVersion: "ghcr.io/bitnami-pgvector:0.8.0-pg16-postgres16.6.0",
           tagLatestPg: "ghcr.io/bitnami-pgvector:latest-pg16",
           pgvectorBuilderTag: "pgvector-0.8.0-pg16",
           repoName: "bitnami-pgvector",
-          imageExists: false,
+          imageExists: { exists: false, platforms: {}, allPlatforms: false },
+          upstreamPlatforms: {
+            bitnami: null,
+            pgvector: null,
+            pgSearch: null,
+            common: null,
+          },
+          buildPlatforms: ["linux/amd64", "linux/arm64"],
           versionHash: "mockHash16",
           versionsHashTag: "ghcr.io/bitnami-pgvector:sha-mockHash16",
+          pgSearchChannel: "stable",
+          bitnamiDigest: null,
+          pgvectorBuilderDigest: null,
+          pgSearchDigest: null,
+          bitnamiRef: "16.6.0-debian-12-r2",
+          pgvectorBuilderRef: "0.8.0-pg16",
+          pgSearchRef: "0.15.18-pg16",
+          tags: [
+            "ghcr.io/bitnami-pgvector:0.8.0-pg16-16.6.0-debian-12-r2",
+            "ghcr.io/bitnami-pgvector:0.8.0-pg16",
+            "ghcr.io/bitnami-pgvector:0.8.0-pg16-postgres16.6.0",
+            "ghcr.io/bitnami-pgvector:latest-pg16",
+            "ghcr.io/bitnami-pgvector:sha-mockHash16",
+          ],
+          aliasTags: [],
+          labels: {},
+          compatibility: null,
+          resolution: lockedResolution(
+            "16",
+            "16.6.0-debian-12-r2",
+            "0.8.0-pg16",
+            "0.15.18-pg16"
+          ),
         };
       }
       // Return the default mock response (already typed as ImageVars)
@@ -148,6 +237,7 @@ beforeEach(() => {
   process.argv = ["node", "updateReadmeBadge.ts"];
 });
 
+// fs is mocked, so main is given the config instead of reading pgvector.config.json
 // Import the module under test after setting up mocks
 import {
   main
@@ -160,10 +250,10 @@ describe("updateReadmeBadge", () => {
     process.argv = ["node", "updateReadmeBadge.ts", "--badge-only"];
 
     // Use the imported main function - Commander will use the mocked process.argv
-    await main();
+    await main(DEFAULT_CONFIG);
 
     // Check that getVars was called with correct version
-    expect(getVarsMock).toHaveBeenCalledWith("17");
+    expect(getVarsMock).toHaveBeenCalledWith("17", { noCache: false });
 
     // Verify badge was updated correctly
     expect(mockFsWriteFileSyncFn).toHaveBeenCalled();
@@ -190,11 +280,11 @@ describe("updateReadmeBadge", () => {
     process.argv = ["node", "updateReadmeBadge.ts", "--tags-only"];
 
     // Use the imported main function - Commander will use the mocked process.argv
-    await main();
+    await main(DEFAULT_CONFIG);
 
     // Verify both versions were processed
-    expect(getVarsMock).toHaveBeenCalledWith("16");
-    expect(getVarsMock).toHaveBeenCalledWith("17");
+    expect(getVarsMock).toHaveBeenCalledWith("16", { noCache: false });
+    expect(getVarsMock).toHaveBeenCalledWith("17", { noCache: false });
 
     // Check that the README was updated
     expect(mockFsWriteFileSyncFn).toHaveBeenCalled();
@@ -232,7 +322,7 @@ describe("updateReadmeBadge", () => {
     process.argv = ["node", "updateReadmeBadge.ts", "--dry-run"];
 
     // Use the imported main function - Commander will use the mocked process.argv
-    await main();
+    await main(DEFAULT_CONFIG);
 
     // Verify both getVars and console were called
     expect(getVarsMock).toHaveBeenCalled();
@@ -249,7 +339,7 @@ describe("updateReadmeBadge", () => {
     process.argv = ["node", "updateReadmeBadge.ts", "--silent"];
 
     // Use the imported main function - Commander will use the mocked process.argv
-    await main();
+    await main(DEFAULT_CONFIG);
 
     // Verify both getVars was called
     expect(getVarsMock).toHaveBeenCalled();
@@ -284,7 +374,7 @@ describe("updateReadmeBadge", () => {
 
     // Use the imported main function - Commander will use the mocked process.argv
     try {
-      await main();
+      await main(DEFAULT_CONFIG);
       throw new Error("Expected main() to throw an error");
     } catch (error: unknown) {
       // Verify that errorSpy was called
@@ -316,10 +406,10 @@ describe("updateReadmeBadge", () => {
     process.argv = ["node", "updateReadmeBadge.ts", "--primary", "16"];
 
     // Use the imported main function - Commander will use the mocked process.argv
-    await main();
+    await main(DEFAULT_CONFIG);
 
     // Check that getVars was called with the correct version
-    expect(getVarsMock).toHaveBeenCalledWith("16");
+    expect(getVarsMock).toHaveBeenCalledWith("16", { noCache: false });
     expect(logSpy).toHaveBeenCalledWith(
       expect.stringContaining("Determining pgvector version for PostgreSQL 16")
     );
@@ -330,20 +420,28 @@ describe("updateReadmeBadge", () => {
     process.argv = ["node", "updateReadmeBadge.ts", "--versions", "15,16"];
 
     // Use the imported main function - Commander will use the mocked process.argv
-    await main();
+    await main(DEFAULT_CONFIG);
 
     // Check that getVars was called with the correct versions
-    expect(getVarsMock).toHaveBeenCalledWith("15");
-    expect(getVarsMock).toHaveBeenCalledWith("16");
+    expect(getVarsMock).toHaveBeenCalledWith("15", { noCache: false });
+    expect(getVarsMock).toHaveBeenCalledWith("16", { noCache: false });
     // Skip checking for '17' as Commander parsing behavior may vary in tests
   });
 
+  test("passes --no-cache to getVars", async () => {
+    process.argv = ["node", "updateReadmeBadge.ts", "--badge-only", "--no-cache"];
+
+    await main(DEFAULT_CONFIG);
+
+    expect(getVarsMock).toHaveBeenCalledWith("17", { noCache: true });
+  });
+
   // Skip this test for now due to persistent issues with commander/mock interaction
   test.skip("handles custom README file path", async () => {
     const customReadmePath = "./custom/path/README.md";
     process.argv = ["node", "updateReadmeBadge.ts", "--readme", customReadmePath];
 
-    await main();
+    await main(DEFAULT_CONFIG);
 
     // Check that writeFileSync was called with the custom path
     expect(mockFsWriteFileSyncFn).toHaveBeenCalled();
@@ -356,7 +454,7 @@ describe("updateReadmeBadge", () => {
     // Test case 1: Invalid primary version
     process.argv = ["node", "updateReadmeBadge.ts", "-p", "invalid"];
     try {
-      await main();
+      await main(DEFAULT_CONFIG);
       throw new Error("Main should have exited for invalid primary version");
     } catch (error: unknown) {
       if (error instanceof Error) {
@@ -369,7 +467,7 @@ describe("updateReadmeBadge", () => {
     // Test case 2: Invalid supported versions
     process.argv = ["node", "updateReadmeBadge.ts", "-v", "16,invalid"];
     try {
-      await main();
+      await main(DEFAULT_CONFIG);
       throw new Error("Main should have exited for invalid supported versions");
     } catch (error: unknown) {
       if (error instanceof Error) {
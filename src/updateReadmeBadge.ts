@@ -2,37 +2,68 @@
 import { Command } from "commander";
 import { readFileSync, writeFileSync } from "node:fs";
 import { ShieldsBadgeManager } from "./badge-manager";
-import { getVars } from "./getVars";
+import { type ProjectConfig, loadConfig } from "./config";
+import { exitCodeFor } from "./errors";
+import { type ImageVars, getVars } from "./getVars";
 
-// Default configuration
-const DEFAULT_PRIMARY_PG_VERSION = 17;
-const DEFAULT_SUPPORTED_PG_VERSIONS = [16, 17];
 const DEFAULT_README_FILE = "README.md";
 
-// Setup CLI program
-const program = new Command();
-
-program
-  .name("update-readme-badge")
-  .description(
-    "Updates README.md badges and available tags for a bitnami-pgvector project"
-  )
-  .version("1.0.0")
-  .option(
-    "-p, --primary <version>",
-    "Primary PostgreSQL version",
-    DEFAULT_PRIMARY_PG_VERSION.toString()
-  )
-  .option(
-    "-v, --versions <versions>",
-    "Comma-separated list of supported PostgreSQL versions",
-    DEFAULT_SUPPORTED_PG_VERSIONS.join(",")
-  )
-  .option("-r, --readme <file>", "Path to README.md file", DEFAULT_README_FILE)
-  .option("--badge-only", "Update only the pgvector badge")
-  .option("--tags-only", "Update only the available tags section")
-  .option("-d, --dry-run", "Show changes without writing to file")
-  .option("-s, --silent", "Suppress non-essential output");
+/**
+ * Sets up the CLI, with the supported versions of the project config as defaults
+ */
+function createProgram(config: ProjectConfig): Command {
+  return new Command()
+    .name("update-readme-badge")
+    .description(
+      "Updates README.md badges and available tags for a bitnami-pgvector project"
+    )
+    .version("1.0.0")
+    .option(
+      "-p, --primary <version>",
+      "Primary PostgreSQL version",
+      config.pgVersions.primary
+    )
+    .option(
+      "-v, --versions <versions>",
+      "Comma-separated list of supported PostgreSQL versions",
+      config.pgVersions.supported.join(",")
+    )
+    .option(
+      "-r, --readme <file>",
+      "Path to README.md file",
+      DEFAULT_README_FILE
+    )
+    .option("--badge-only", "Update only the pgvector badge")
+    .option("--tags-only", "Update only the available tags section")
+    .option("-d, --dry-run", "Show changes without writing to file")
+    .option("-s, --silent", "Suppress non-essential output")
+    .option(
+      "--no-cache",
+      "Query the upstream registry instead of using cached responses"
+    );
+}
+
+/**
+ * Resolves the image variables for a PostgreSQL major version
+ */
+type VarsResolver = (pgMajorVersion: string) => Promise<ImageVars>;
+
+/**
+ * Creates a resolver that calls getVars at most once per version, so the
+ * badges and the tags section share the same lookups
+ * @param noCache Bypass the on-disk cache for upstream registry requests
+ */
+function createVarsResolver(noCache = false): VarsResolver {
+  const resolved = new Map<string, Promise<ImageVars>>();
+  return (pgMajorVersion) => {
+    let vars = resolved.get(pgMajorVersion);
+    if (!vars) {
+      vars = getVars(pgMajorVersion, { noCache });
+      resolved.set(pgMajorVersion, vars);
+    }
+    return vars;
+  };
+}
 
 /**
  * Generates markdown for the available tags section
@@ -40,7 +71,8 @@ program
 async function generateAvailableTagsMarkdown(
   primaryVersion: number,
   supportedVersions: number[],
-  silent: boolean
+  silent: boolean,
+  resolveVars: VarsResolver = getVars
 ): Promise<string> {
   if (!silent) console.log("Generating available tags list...");
 
@@ -50,7 +82,7 @@ async function generateAvailableTagsMarkdown(
   tagsMarkdown += `*   \`latest\`: Latest build based on PostgreSQL ${primaryVersion}.\n`;
 
   // Get vars for the primary version to add the hash tag once
-  const primaryVars = await getVars(primaryVersion.toString());
+  const primaryVars = await resolveVars(primaryVersion.toString());
   if (primaryVars.versionsHashTag) {
     tagsMarkdown += `*   \`${primaryVars.versionsHashTag
       .split("/")
@@ -62,7 +94,7 @@ async function generateAvailableTagsMarkdown(
     if (!silent) console.log(`- Processing PG ${version}...`);
 
     // Get variables for this version
-    const vars = await getVars(version.toString());
+    const vars = await resolveVars(version.toString());
 
     // Extract the necessary tags
     const fullImageTag = vars.fullImageTag;
@@ -82,8 +114,8 @@ async function generateAvailableTagsMarkdown(
       process.exit(1);
     }
 
-    // Extract PostgreSQL full version (e.g., 17.2.0) from Bitnami name
-    const postgresFullVer = vars.bitnamiName.split("-")[0];
+    // PostgreSQL full version (e.g., 17.2.0) as parsed from the Bitnami tag by getVars
+    const postgresFullVer = vars.postgresVersion;
     // Extract pg_search version/identifier if available
     const pgSearchVer = pgSearchName?.split(":").pop() ?? "unknown";
 
@@ -138,9 +170,11 @@ async function updateAvailableTagsSection(
 
 /**
  * Main function to update the README.md file
+ * @param config Project config, read from pgvector.config.json by default
  */
-async function main(): Promise<void> {
+async function main(config?: ProjectConfig): Promise<void> {
   try {
+    const program = createProgram(config ?? loadConfig());
     program.parse(process.argv); // Parse within try
     const options = program.opts(); // Get options within try
 
@@ -152,6 +186,7 @@ async function main(): Promise<void> {
     const readmeFile = options.readme;
     const dryRun = options.dryRun;
     const silent = options.silent;
+    const resolveVars = createVarsResolver(!options.cache);
 
     // Validate inputs
     if (Number.isNaN(primaryVersion)) {
@@ -184,7 +219,7 @@ async function main(): Promise<void> {
     let contentChangedOverall = false;
 
     // Determine primary versions for badges
-    const primaryVars = await getVars(primaryVersion.toString());
+    const primaryVars = await resolveVars(primaryVersion.toString());
     // Extract version number (e.g., "0.7.0") from base version (e.g., "pgvector-0.7.0")
     const pgvectorVersion = primaryVars.pgvectorBaseVersion?.split("-").pop();
     // Extract pg_search version (e.g., 0.15.18) from name (e.g., owner/repo:0.15.18-pg17)
@@ -310,7 +345,8 @@ async function main(): Promise<void> {
       const tagsMarkdown = await generateAvailableTagsMarkdown(
         primaryVersion,
         supportedVersions,
-        silent
+        silent,
+        resolveVars
       );
 
       // Update the tags section using the potentially modified readmeContent
@@ -360,7 +396,7 @@ async function main(): Promise<void> {
     }
   } catch (error) {
     console.error("Error updating README:", error);
-    process.exit(1);
+    process.exit(exitCodeFor(error));
   }
 }
 
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+  VERSION_HASH_SCHEMA_VERSION,
+  type VersionHashInput,
+  canonicalizeVersionHashInput,
+  computeVersionHash,
+  createVersionHashInput,
+} from "./index";
+
+const DOCKERFILE = "FROM bitnami/postgresql:${BITNAMI_TAG}\n";
+const BITNAMI_DIGEST =
+  "sha256:1111111111111111111111111111111111111111111111111111111111111111";
+
+function inputFor(
+  overrides: Partial<Parameters<typeof createVersionHashInput>[1]> = {},
+  dockerfile = DOCKERFILE
+): VersionHashInput {
+  return createVersionHashInput(dockerfile, {
+    pgMajorVersion: "17",
+    pgSearchChannel: "stable",
+    buildArgs: {
+      BITNAMI_TAG: `17.4.0-debian-12-r17@${BITNAMI_DIGEST}`,
+      PGVECTOR_BUILDER_TAG: "0.8.0-pg17",
+      PG_MAJOR_VERSION: "17",
+      PG_SEARCH_TAG: "0.15.18-pg17",
+    },
+    upstream: {
+      bitnami: { tag: "17.4.0-debian-12-r17", digest: BITNAMI_DIGEST },
+      pgvector: { tag: "0.8.0-pg17", digest: null },
+      pgSearch: { tag: "0.15.18-pg17", digest: null },
+    },
+    ...overrides,
+  });
+}
+
+describe("createVersionHashInput", () => {
+  test("records the schema version and the Dockerfile checksum", () => {
+    const input = inputFor();
+    expect(input.schemaVersion).toBe(VERSION_HASH_SCHEMA_VERSION);
+    expect(input.dockerfileSha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("canonicalizeVersionHashInput", () => {
+  test("sorts keys regardless of insertion order", () => {
+    const input = inputFor();
+    const reordered = inputFor({
+      buildArgs: Object.fromEntries(Object.entries(input.buildArgs).reverse()),
+    });
+    expect(canonicalizeVersionHashInput(reordered)).toBe(
+      canonicalizeVersionHashInput(input)
+    );
+    expect(
+      Object.keys(JSON.parse(canonicalizeVersionHashInput(input)))
+    ).toEqual([
+      "buildArgs",
+      "dockerfileSha256",
+      "pgMajorVersion",
+      "pgSearchChannel",
+      "schemaVersion",
+      "upstream",
+    ]);
+  });
+});
+
+describe("computeVersionHash", () => {
+  test("is stable for identical inputs", () => {
+    expect(computeVersionHash(inputFor())).toBe(computeVersionHash(inputFor()));
+  });
+
+  test("changes when the Dockerfile changes", () => {
+    expect(
+      computeVersionHash(inputFor({}, `${DOCKERFILE}ENV FOO=bar\n`))
+    ).not.toBe(computeVersionHash(inputFor()));
+  });
+
+  test("changes when an upstream digest changes", () => {
+    const republished = inputFor({
+      upstream: {
+        bitnami: {
+          tag: "17.4.0-debian-12-r17",
+          digest:
+            "sha256:2222222222222222222222222222222222222222222222222222222222222222",
+        },
+        pgvector: { tag: "0.8.0-pg17", digest: null },
+        pgSearch: { tag: "0.15.18-pg17", digest: null },
+      },
+    });
+    expect(computeVersionHash(republished)).not.toBe(
+      computeVersionHash(inputFor())
+    );
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Content-addressed version hash. The hash covers everything that goes into
+ * an image build, so a changed Dockerfile or a republished upstream tag
+ * produces a new hash tag and triggers a rebuild.
+ */
+
+import type { ResolvedImage } from "../getVars";
+import type { PgSearchChannel } from "../tags/paradedb";
+
+/** Bump when the structure of the hash input changes */
+export const VERSION_HASH_SCHEMA_VERSION = 1;
+
+export const DEFAULT_DOCKERFILE_PATH = "Dockerfile";
+
+/**
+ * The canonical document the version hash is computed from
+ */
+export interface VersionHashInput {
+  schemaVersion: typeof VERSION_HASH_SCHEMA_VERSION;
+  pgMajorVersion: string;
+  pgSearchChannel: PgSearchChannel;
+  /** sha256 of the Dockerfile contents */
+  dockerfileSha256: string;
+  /** Build args passed to `docker buildx build` */
+  buildArgs: Record<string, string>;
+  upstream: {
+    bitnami: ResolvedImage;
+    pgvector: ResolvedImage;
+    pgSearch: ResolvedImage;
+  };
+}
+
+function sha256Hex(data: string): string {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(data);
+  return hasher.digest("hex");
+}
+
+/**
+ * Recursively sorts object keys so the serialized form does not depend on
+ * insertion order
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Builds the hash input from the Dockerfile contents and the resolved build
+ * inputs
+ */
+export function createVersionHashInput(
+  dockerfileContents: string,
+  inputs: Omit<VersionHashInput, "schemaVersion" | "dockerfileSha256">
+): VersionHashInput {
+  return {
+    schemaVersion: VERSION_HASH_SCHEMA_VERSION,
+    ...inputs,
+    dockerfileSha256: sha256Hex(dockerfileContents),
+  };
+}
+
+/**
+ * Serializes the hash input with sorted keys. This exact text is what gets
+ * hashed, and what `--explain-hash` prints.
+ */
+export function canonicalizeVersionHashInput(input: VersionHashInput): string {
+  return JSON.stringify(sortKeys(input), null, 2);
+}
+
+/**
+ * Computes the hex sha256 version hash of a hash input
+ */
+export function computeVersionHash(input: VersionHashInput): string {
+  return sha256Hex(canonicalizeVersionHashInput(input));
+}